@@ -1,60 +1,206 @@
 
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Header } from './components/Header';
 import { InputArea } from './components/InputArea';
 import { ResultDisplay } from './components/ResultDisplay';
-import { DictionaryPage } from './components/DictionaryPage';
+import { DictionaryPage, DictionaryLookup } from './components/DictionaryPage';
 import { WritingPage } from './components/WritingPage';
 import { Footer } from './components/Footer';
 import { AiAssistant } from './components/AiAssistant';
-import { analyzeSentence } from './services/geminiService';
-import { AnalysisResult, DictionaryResult, WritingResult, ModelLevel } from './types';
-import { Sparkles, BookOpen, AlertCircle } from 'lucide-react';
+import { SettingsPage } from './components/SettingsPage';
+import { HistoryPage } from './components/HistoryPage';
+import { NotebookPage } from './components/NotebookPage';
+import { ReviewPage } from './components/ReviewPage';
+import { SharedResult } from './components/SharedResult';
+import { SentenceNavigator } from './components/SentenceNavigator';
+import { PromptPreview, isPromptPreviewEnabled } from './components/PromptPreview';
+import { createParagraphAnalyzer, ParagraphAnalyzer } from './services/paragraphAnalyzer';
+import { splitSentences } from './services/textSegmentation';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { currentRoute, navigate, Route } from './services/router';
+import { decodeSnapshot, SharedSnapshot } from './services/shareService';
+import { loadHistory, saveHistory, addHistoryEntry, NewHistoryEntry, writingSourceText } from './services/historyService';
+import { loadNotebook, saveNotebook, toggleNotebookItem, updateNotebookItem, removeNotebookItems } from './services/notebookService';
+import { loadReviewLog, saveReviewLog, applyReview, buildReviewQueue } from './services/reviewService';
+import { AnalysisResult, DictionaryResult, WritingResult, ModelLevel, AppTab, AppSettings, SentenceAnalysis, HistoryEntry, NotebookItem, ReviewGrade, ReviewLogEntry } from './types';
+import { Sparkles, BookOpen, AlertCircle, X } from 'lucide-react';
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'analyzer' | 'dictionary' | 'writing'>('analyzer');
+  // The page comes from the URL hash, so tabs can be linked and survive a reload
+  const [route, setRoute] = useState<Route>(currentRoute);
+  const activeTab = route.tab;
+  const setActiveTab = (tab: AppTab) => navigate({ tab });
+
+  useEffect(() => {
+    const handleHashChange = () => setRoute(currentRoute());
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Result opened from a share link; rendered read-only instead of the page
+  const [shared, setShared] = useState<SharedSnapshot | null>(null);
+  const [sharedError, setSharedError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setShared(null);
+    setSharedError(null);
+    if (!route.snapshot) return;
+
+    let active = true;
+    decodeSnapshot(route.snapshot)
+      .then(snapshot => { if (active) setShared(snapshot); })
+      .catch((err: Error) => { if (active) setSharedError(err.message); });
+    return () => { active = false; };
+  }, [route.snapshot]);
   const [modelLevel, setModelLevel] = useState<ModelLevel>('mini');
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
   
-  // Analyzer State
-  const [isAnalyzerLoading, setIsAnalyzerLoading] = useState(false);
-  const [analyzerResult, setAnalyzerResult] = useState<AnalysisResult | null>(null);
-  const [analyzerError, setAnalyzerError] = useState<string | null>(null);
+  // Analyzer State: the input is split into sentences, each analyzed on demand
+  const [sentenceStates, setSentenceStates] = useState<SentenceAnalysis[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const paragraphRef = useRef<ParagraphAnalyzer | null>(null);
+
+  const currentSentence = sentenceStates[currentIndex];
+  const analyzerResult = currentSentence?.result || null;
+  const analyzerError = currentSentence?.status === 'error' ? currentSentence.error || null : null;
+  const isAnalyzerLoading = currentSentence?.status === 'loading';
+  const lastSentence = currentSentence?.sentence || "";
 
   // Dictionary State
   const [dictionaryResult, setDictionaryResult] = useState<DictionaryResult | null>(null);
+  const [dictionaryLookup, setDictionaryLookup] = useState<DictionaryLookup | null>(null);
 
   // Writing State
   const [writingResult, setWritingResult] = useState<WritingResult | null>(null);
 
-  const handleAnalyze = async (sentence: string) => {
-    if (!sentence.trim()) return;
-
-    setIsAnalyzerLoading(true);
-    setAnalyzerError(null);
-    setAnalyzerResult(null);
-
-    try {
-      const data = await analyzeSentence(sentence, modelLevel);
-      setAnalyzerResult(data);
-    } catch (err: any) {
-      console.error(err);
-      setAnalyzerError(err.message || "分析失败，请稍后再试。");
-    } finally {
-      setIsAnalyzerLoading(false);
+  // Every result is also kept in the persistent history
+  const [history, setHistory] = useState<HistoryEntry[]>(loadHistory);
+
+  useEffect(() => {
+    saveHistory(history);
+  }, [history]);
+
+  // Words, senses and collocations saved from the dictionary
+  const [notebook, setNotebook] = useState<NotebookItem[]>(loadNotebook);
+
+  useEffect(() => {
+    saveNotebook(notebook);
+  }, [notebook]);
+
+  // Every grading, for the daily new-item limit and review statistics
+  const [reviewLog, setReviewLog] = useState<ReviewLogEntry[]>(loadReviewLog);
+
+  useEffect(() => {
+    saveReviewLog(reviewLog);
+  }, [reviewLog]);
+
+  // Cards fall due with time (relearning after 10 minutes, the next day's new cards), so the
+  // badge is recounted every minute and whenever the user comes back to the tab
+  const [clock, setClock] = useState(Date.now);
+
+  useEffect(() => {
+    const tick = () => setClock(Date.now());
+    const timer = setInterval(tick, 60_000);
+    window.addEventListener('focus', tick);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('focus', tick);
+    };
+  }, []);
+
+  const reviewDueCount = useMemo(() => buildReviewQueue(notebook, reviewLog, clock).length, [notebook, reviewLog, clock]);
+
+  const gradeReview = (itemId: string, grade: ReviewGrade) => {
+    const next = applyReview(notebook, reviewLog, itemId, grade);
+    setNotebook(next.items);
+    setReviewLog(next.log);
+  };
+
+  const recordHistory = (entry: NewHistoryEntry) => {
+    setHistory(prev => addHistoryEntry(prev, entry));
+  };
+
+  const startAnalyzer = (sentences: string[], level: ModelLevel, results?: AnalysisResult[]) => {
+    // A new input supersedes the one in flight, so its results can't mix with this one
+    paragraphRef.current?.cancel();
+    setCurrentIndex(0);
+    paragraphRef.current = createParagraphAnalyzer(sentences, level, setSentenceStates, {
+      results,
+      onResult: (sentence, result) => recordHistory({ tab: 'analyzer', input: sentence, modelLevel: level, result }),
+    });
+  };
+
+  const handleAnalyze = (text: string) => {
+    const sentences = splitSentences(text);
+    if (!sentences.length) return;
+    startAnalyzer(sentences, modelLevel);
+  };
+
+  const handleDictionaryResult = (result: DictionaryResult | null) => {
+    setDictionaryResult(result);
+    if (result) recordHistory({ tab: 'dictionary', input: result.word, modelLevel, result });
+  };
+
+  const handleWritingResult = (result: WritingResult | null) => {
+    setWritingResult(result);
+    if (result) recordHistory({ tab: 'writing', input: writingSourceText(result), modelLevel, result });
+  };
+
+  // A chunk or token clicked in an analysis: look it up in the sentence it came from
+  const lookupInDictionary = (word: string, context: string) => {
+    setDictionaryLookup({ word, context });
+    setActiveTab('dictionary');
+  };
+
+  // Loads a stored result into its page; no new request is made
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    switch (entry.tab) {
+      case 'analyzer':
+        startAnalyzer([entry.input], entry.modelLevel, [entry.result]);
+        break;
+      case 'dictionary':
+        setDictionaryResult(entry.result);
+        break;
+      case 'writing':
+        setWritingResult(entry.result);
+        break;
     }
+    setActiveTab(entry.tab);
+  };
+
+  const selectSentence = (index: number) => {
+    if (index < 0 || index >= sentenceStates.length) return;
+    setCurrentIndex(index);
+    paragraphRef.current?.focus(index);
+  };
+
+  const handleSaveSettings = (next: AppSettings) => {
+    saveSettings(next);
+    setSettings(next);
+  };
+
+  const cancelAnalyze = () => {
+    paragraphRef.current?.cancel();
   };
 
   // Determine AI Assistant Context
   let assistantContextContent: string | null = null;
   let contextType: 'sentence' | 'word' | 'writing' = 'sentence';
 
-  if (activeTab === 'analyzer') {
-      assistantContextContent = analyzerResult?.englishSentence || null;
+  if (shared?.tab === 'analyzer') {
+      assistantContextContent = shared.result.englishSentence;
+      contextType = 'sentence';
+  } else if (shared?.tab === 'writing') {
+      assistantContextContent = shared.result.segments.map(s => s.text).join('');
+      contextType = 'writing';
+  } else if (activeTab === 'analyzer') {
+      // Follows the sentence selected in the navigator, even before its analysis arrives
+      assistantContextContent = analyzerResult?.englishSentence || lastSentence || null;
       contextType = 'sentence';
   } else if (activeTab === 'dictionary') {
       assistantContextContent = dictionaryResult?.word || null;
       contextType = 'word';
-  } else {
+  } else if (activeTab === 'writing') {
       // Reconstruct the full text from segments for context
       assistantContextContent = writingResult?.segments.map(s => s.text).join('') || null;
       contextType = 'writing';
@@ -75,11 +221,21 @@ const App: React.FC = () => {
         onNavigate={setActiveTab} 
         modelLevel={modelLevel}
         onModelChange={setModelLevel}
+        reviewDueCount={reviewDueCount}
       />
 
       <main className={`flex-grow container mx-auto px-4 py-8 ${getContainerMaxWidth()} flex flex-col gap-8 relative transition-all duration-300 ease-in-out`}>
         
-        {activeTab === 'analyzer' && (
+        {route.snapshot && (
+          <SharedResult
+            snapshot={shared}
+            error={sharedError}
+            modelLevel={modelLevel}
+            onExit={() => setActiveTab(activeTab)}
+          />
+        )}
+
+        {activeTab === 'analyzer' && !route.snapshot && (
           <>
             {/* Hero Section */}
             <div className="text-center space-y-4 mb-4">
@@ -91,7 +247,7 @@ const App: React.FC = () => {
                 英语句子成分可视化
               </h1>
               <p className="text-lg text-slate-600 max-w-2xl mx-auto">
-                输入任何英语句子，立刻解析其主谓宾定状补结构。
+                输入任何英语句子或段落，立刻解析其主谓宾定状补结构。
                 <br className="hidden md:block"/>适合英语学习者、教师及语言爱好者。
               </p>
             </div>
@@ -103,10 +259,20 @@ const App: React.FC = () => {
 
             {/* Results Section */}
             <div className="w-full">
+              {sentenceStates.length > 1 && (
+                <SentenceNavigator sentences={sentenceStates} currentIndex={currentIndex} onSelect={selectSentence} />
+              )}
+
                {isAnalyzerLoading && (
                 <div className="flex flex-col items-center justify-center py-12 space-y-4">
                   <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-pink-500"></div>
                   <p className="text-slate-500 animate-pulse">正在分析句子结构...</p>
+                  <button
+                    onClick={cancelAnalyze}
+                    className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 px-3 py-1.5 rounded-lg transition-colors"
+                  >
+                    <X className="w-3.5 h-3.5" /> 取消
+                  </button>
                 </div>
               )}
 
@@ -122,11 +288,27 @@ const App: React.FC = () => {
 
               {analyzerResult && !isAnalyzerLoading && (
                 <div className="animate-fade-in">
-                  <ResultDisplay result={analyzerResult} />
+                  <ResultDisplay
+                    result={analyzerResult}
+                    onRegenerate={() => paragraphRef.current?.regenerate(currentIndex)}
+                    onLookup={lookupInDictionary}
+                  />
+                </div>
+              )}
+
+              {currentSentence?.status === 'pending' && (
+                <div className="text-center py-12 flex flex-col items-center gap-3 text-slate-500">
+                  <p className="text-sm">这句话还没有分析。</p>
+                  <button
+                    onClick={() => paragraphRef.current?.focus(currentIndex)}
+                    className="text-sm font-medium text-pink-600 bg-pink-50 hover:bg-pink-100 px-4 py-2 rounded-lg transition-colors"
+                  >
+                    开始分析
+                  </button>
                 </div>
               )}
 
-              {!analyzerResult && !isAnalyzerLoading && !analyzerError && (
+              {!currentSentence && (
                 <div className="text-center py-12 opacity-40 flex flex-col items-center">
                   <BookOpen className="w-16 h-16 mb-4 text-slate-300" />
                   <p>暂无分析结果，请在上方输入句子。</p>
@@ -136,25 +318,70 @@ const App: React.FC = () => {
           </>
         )}
         
-        {activeTab === 'dictionary' && (
+        {activeTab === 'dictionary' && !route.snapshot && (
           <DictionaryPage 
              initialResult={dictionaryResult} 
-             onResultChange={setDictionaryResult} 
+             onResultChange={handleDictionaryResult} 
              modelLevel={modelLevel}
+             pendingLookup={dictionaryLookup}
+             onPendingLookupHandled={() => setDictionaryLookup(null)}
+             notebook={notebook}
+             onToggleNotebook={(item) => setNotebook(prev => toggleNotebookItem(prev, item))}
           />
         )}
 
-        {activeTab === 'writing' && (
+        {activeTab === 'writing' && !route.snapshot && (
             <WritingPage
                 initialResult={writingResult}
-                onResultChange={setWritingResult}
+                onResultChange={handleWritingResult}
                 modelLevel={modelLevel}
             />
         )}
+
+        {activeTab === 'notebook' && !route.snapshot && (
+          <NotebookPage
+            items={notebook}
+            onUpdate={(id, patch) => setNotebook(prev => updateNotebookItem(prev, id, patch))}
+            onDelete={(ids) => setNotebook(prev => removeNotebookItems(prev, ids))}
+            onLookup={(word, source) => lookupInDictionary(word, source ?? '')}
+          />
+        )}
+
+        {activeTab === 'review' && !route.snapshot && (
+          <ReviewPage
+            items={notebook}
+            log={reviewLog}
+            onGrade={gradeReview}
+            onOpenNotebook={() => setActiveTab('notebook')}
+          />
+        )}
+
+        {activeTab === 'history' && !route.snapshot && (
+          <HistoryPage
+            entries={history}
+            onOpen={openHistoryEntry}
+            onDelete={(id) => setHistory(prev => prev.filter(e => e.id !== id))}
+            onClear={() => setHistory([])}
+          />
+        )}
+
+        {activeTab === 'settings' && !route.snapshot && (
+          <SettingsPage settings={settings} onSave={handleSaveSettings} />
+        )}
       </main>
 
       <Footer />
       
+      {isPromptPreviewEnabled() && (
+        <PromptPreview
+          activeTab={activeTab}
+          sentence={lastSentence}
+          word={dictionaryResult?.word || ''}
+          writingText={writingResult ? writingSourceText(writingResult) : ''}
+          writingMode={writingResult?.mode}
+        />
+      )}
+
       {/* Floating AI Assistant */}
       <AiAssistant 
         currentContext={assistantContextContent} 
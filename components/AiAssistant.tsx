@@ -1,23 +1,49 @@
-
 import React, { useState, useRef, useEffect } from 'react';
-import { X, Send, Bot, Sparkles, Loader2 } from 'lucide-react';
-import { Message } from '../types';
-import { getChatResponse } from '../services/geminiService';
+import { X, Send, Bot, Sparkles, Loader2, RotateCcw, MessageSquarePlus, MessagesSquare, ArrowRightLeft, Square } from 'lucide-react';
+import { ChatContextType, ChatThread, Message } from '../types';
+import { streamChatResponse } from '../services/geminiService';
+import { isCancelled, ServiceError, StreamInterruptedError } from '../services/errors';
+import { loadThreads, saveThreads, createThread, findThread, prepareHistory } from '../services/chatMemory';
 import ReactMarkdown from 'react-markdown';
 
 interface AiAssistantProps {
   currentContext: string | null;
-  contextType: 'sentence' | 'word' | 'writing';
+  contextType: ChatContextType;
 }
 
+const TYPE_LABELS: Record<ChatContextType, string> = {
+  sentence: '句子',
+  word: '单词',
+  writing: '文章',
+};
+
+const shorten = (text: string, max = 40) => text.length > max ? `${text.slice(0, max)}…` : text;
+
+// A reply cut off inside a code block would swallow the rest of the bubble, so close the fence
+const closeOpenFence = (markdown: string) =>
+  (markdown.match(/```/g) || []).length % 2 === 1 ? `${markdown}\n\`\`\`` : markdown;
+
 export const AiAssistant: React.FC<AiAssistantProps> = ({ currentContext, contextType }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([
-    { role: 'assistant', content: '你好！我是你的 AI 英语助手。有什么可以帮你的吗？' }
-  ]);
+  const [threads, setThreads] = useState<ChatThread[]>(() => loadThreads());
+  // Active thread per context type, so switching tabs keeps each conversation
+  const [activeIds, setActiveIds] = useState<Record<ChatContextType, string | null>>({ sentence: null, word: null, writing: null });
+  // New context waiting for the user to choose "new thread" or "continue"
+  const [pendingContext, setPendingContext] = useState<string | null>(null);
   const [inputValue, setInputValue] = useState("");
   const [isThinking, setIsThinking] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const activeThread = threads.find(t => t.id === activeIds[contextType]) || null;
+  // An earlier conversation about the new context, which "switch" resumes instead of starting over
+  const pendingThread = pendingContext !== null ? findThread(threads, contextType, pendingContext) : null;
+  const typeLabel = TYPE_LABELS[contextType];
+
+  const greeting: Message = activeThread?.context
+    ? { role: 'assistant', content: `已加载当前${typeLabel}内容。你可以针对它向我提问。` }
+    : { role: 'assistant', content: '你好！我是你的 AI 英语助手。有什么可以帮你的吗？' };
+  const messages = [greeting, ...(activeThread?.messages || [])];
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -25,38 +51,125 @@ export const AiAssistant: React.FC<AiAssistantProps> = ({ currentContext, contex
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages, isOpen, isThinking]);
+  }, [threads, isOpen, isThinking]);
+
+  useEffect(() => {
+    saveThreads(threads);
+  }, [threads]);
+
+  const updateThread = (id: string, update: (thread: ChatThread) => ChatThread) => {
+    setThreads(prev => prev.map(t => t.id === id ? { ...update(t), updatedAt: Date.now() } : t));
+  };
 
-  // Reset chat when context changes
+  // Switch to the stored thread for this context, or start one
+  const openThreadFor = (context: string) => {
+    const existing = findThread(threads, contextType, context);
+    const thread = existing || createThread(contextType, context);
+    if (!existing) setThreads(prev => [...prev, thread]);
+    setActiveIds(prev => ({ ...prev, [contextType]: thread.id }));
+    setPendingContext(null);
+  };
+
+  const startNewThread = () => {
+    const thread = createThread(contextType, currentContext || '');
+    setThreads(prev => [...prev, thread]);
+    setActiveIds(prev => ({ ...prev, [contextType]: thread.id }));
+    setPendingContext(null);
+  };
+
+  // Keep talking in the current thread, now about the new context
+  const continueThread = () => {
+    if (!activeThread || pendingContext === null) return;
+    updateThread(activeThread.id, t => ({
+      ...t,
+      context: pendingContext,
+      messages: [...t.messages, { role: 'assistant', kind: 'note', content: `已切换到新的${typeLabel}：「${shorten(pendingContext)}」` }],
+    }));
+    setPendingContext(null);
+  };
+
+  // Follow context changes: resume silently when there is nothing to lose, otherwise ask
   useEffect(() => {
-    if (currentContext) {
-        let typeLabel = '';
-        if (contextType === 'sentence') typeLabel = '句子';
-        else if (contextType === 'word') typeLabel = '单词';
-        else typeLabel = '文章';
-        
-        setMessages([{ role: 'assistant', content: `已加载当前${typeLabel}内容。你可以针对它向我提问。` }]);
+    const context = currentContext || '';
+    if (activeThread && activeThread.context === context) {
+      setPendingContext(null);
+      return;
     }
+    const hasConversation = !!activeThread?.messages.some(m => m.role === 'user');
+    if (hasConversation) {
+      if (context) setPendingContext(context);
+      return;
+    }
+    openThreadFor(context);
   }, [currentContext, contextType]);
 
   const handleSend = async (content: string) => {
     if (!content.trim() || isThinking) return;
 
+    let thread = activeThread;
+    if (!thread) {
+      thread = createThread(contextType, currentContext || '');
+      const created = thread;
+      setThreads(prev => [...prev, created]);
+      setActiveIds(prev => ({ ...prev, [contextType]: created.id }));
+    }
+    const threadId = thread.id;
+
+    // The reply placeholder is filled in as chunks stream in
     const userMsg: Message = { role: 'user', content: content };
-    setMessages(prev => [...prev, userMsg]);
+    const placeholder: Message = { role: 'assistant', content: '', status: 'streaming' };
+    updateThread(threadId, t => ({ ...t, messages: [...t.messages, userMsg, placeholder] }));
     setInputValue("");
     setIsThinking(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const setReply = (patch: Partial<Message>) => {
+      updateThread(threadId, t => {
+        const last = t.messages[t.messages.length - 1];
+        return { ...t, messages: [...t.messages.slice(0, -1), { ...last, ...patch }] };
+      });
+    };
+
     try {
-        const responseText = await getChatResponse(messages, currentContext, content, contextType);
-        setMessages(prev => [...prev, { role: 'assistant', content: responseText }]);
+        const { thread: compacted, history } = await prepareHistory(thread, controller.signal);
+        if (compacted.summary !== thread.summary) {
+            updateThread(threadId, t => ({ ...t, summary: compacted.summary, summarizedCount: compacted.summarizedCount }));
+        }
+
+        const responseText = await streamChatResponse(
+            history, thread.context || null, content, contextType,
+            (text) => setReply({ content: text }),
+            { summary: compacted.summary, signal: controller.signal },
+        );
+        setReply({ content: responseText, status: undefined });
     } catch (error) {
-        setMessages(prev => [...prev, { role: 'assistant', content: "抱歉，连接出了点问题，请稍后再试。" }]);
+        if (controller.signal.aborted || isCancelled(error)) {
+            // Keep whatever arrived before the user pressed stop
+            updateThread(threadId, t => {
+                const last = t.messages[t.messages.length - 1];
+                const messages = last.content
+                    ? [...t.messages.slice(0, -1), { ...last, status: 'stopped' as const }]
+                    : t.messages.slice(0, -1);
+                return { ...t, messages };
+            });
+        } else if (error instanceof StreamInterruptedError) {
+            setReply({ content: error.partial, status: 'interrupted' });
+        } else {
+            const message = error instanceof ServiceError ? error.message : "抱歉，连接出了点问题，请稍后再试。";
+            setReply({ content: message, kind: 'note', status: undefined });
+        }
     } finally {
+        if (abortRef.current === controller) abortRef.current = null;
         setIsThinking(false);
     }
   };
 
+  const stopGenerating = () => {
+    abortRef.current?.abort();
+  };
+
   const onSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     handleSend(inputValue);
@@ -114,35 +227,71 @@ export const AiAssistant: React.FC<AiAssistantProps> = ({ currentContext, contex
                         <p className="text-[10px] text-pink-100 opacity-90">Powered by Gemini 2.5</p>
                     </div>
                 </div>
-                <button onClick={() => setIsOpen(false)} className="hover:bg-white/20 p-1.5 rounded-full transition-colors">
-                    <X className="w-5 h-5" />
-                </button>
+                <div className="flex items-center gap-1">
+                    <button onClick={startNewThread} disabled={isThinking} title="新对话" className="hover:bg-white/20 p-1.5 rounded-full transition-colors disabled:opacity-50">
+                        <RotateCcw className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setIsOpen(false)} className="hover:bg-white/20 p-1.5 rounded-full transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
             </div>
 
             {/* Messages */}
             <div className="flex-1 overflow-y-auto px-3 py-4 bg-slate-50 space-y-6 custom-scrollbar">
-                {messages.map((msg, idx) => (
+                {messages.map((msg, idx) => msg.kind === 'note' ? (
+                    <div key={idx} className="flex justify-center">
+                        <span className="text-[11px] text-slate-400 bg-slate-100 px-3 py-1 rounded-full">{msg.content}</span>
+                    </div>
+                ) : msg.status === 'streaming' && !msg.content ? (
+                    <div key={idx} className="flex justify-start">
+                         <div className="bg-white border border-slate-200 rounded-2xl rounded-bl-sm px-4 py-3 shadow-sm flex items-center gap-2">
+                            <Loader2 className="w-4 h-4 animate-spin text-pink-500" />
+                            <span className="text-sm text-slate-400">正在思考...</span>
+                         </div>
+                    </div>
+                ) : (
                     <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                         <div className={`max-w-[90%] md:max-w-[98%] rounded-2xl px-4 py-3 text-[15px] leading-relaxed shadow-sm ${
                             msg.role === 'user' ? 'bg-pink-600 text-white rounded-br-sm' : 'bg-white border border-slate-200 text-slate-700 rounded-bl-sm markdown-body'
                         }`}>
-                            {msg.role === 'assistant' ? <ReactMarkdown>{msg.content}</ReactMarkdown> : msg.content}
+                            {msg.role === 'assistant' ? <ReactMarkdown>{msg.status ? closeOpenFence(msg.content) : msg.content}</ReactMarkdown> : msg.content}
+                            {msg.status === 'streaming' && (
+                                <span className="inline-block w-1.5 h-4 bg-pink-400 animate-pulse align-middle ml-0.5 rounded-sm" />
+                            )}
+                            {msg.status === 'stopped' && (
+                                <p className="text-[11px] text-slate-400 mt-2">（已停止生成）</p>
+                            )}
+                            {msg.status === 'interrupted' && (
+                                <p className="text-[11px] text-amber-600 mt-2">（回答中断，内容可能不完整）</p>
+                            )}
                         </div>
                     </div>
                 ))}
-                {isThinking && (
-                    <div className="flex justify-start">
-                         <div className="bg-white border border-slate-200 rounded-2xl rounded-bl-sm px-4 py-3 shadow-sm flex items-center gap-2">
-                            <Loader2 className="w-4 h-4 animate-spin text-pink-500" />
-                            <span className="text-sm text-slate-400">正在思考...</span>
-                         </div>
-                    </div>
-                )}
                 <div ref={messagesEndRef} />
             </div>
 
+            {/* Context changed: let the user pick a thread */}
+            {pendingContext !== null && (
+                <div className="px-4 py-3 bg-amber-50 border-t border-amber-100 shrink-0 space-y-2">
+                    <p className="text-xs text-amber-800">
+                        {typeLabel}已变为「{shorten(pendingContext)}」，要怎么继续？
+                    </p>
+                    <div className="flex gap-2">
+                        <button onClick={() => openThreadFor(pendingContext)} className="flex-1 flex items-center justify-center gap-1.5 text-xs font-medium bg-white border border-amber-200 text-amber-800 hover:bg-amber-100 px-3 py-1.5 rounded-lg transition-colors">
+                            {pendingThread
+                                ? <><MessagesSquare className="w-3.5 h-3.5" /> 切换到该内容的对话</>
+                                : <><MessageSquarePlus className="w-3.5 h-3.5" /> 开始新对话</>}
+                        </button>
+                        <button onClick={continueThread} className="flex-1 flex items-center justify-center gap-1.5 text-xs font-medium bg-white border border-amber-200 text-amber-800 hover:bg-amber-100 px-3 py-1.5 rounded-lg transition-colors">
+                            <ArrowRightLeft className="w-3.5 h-3.5" /> 继续当前对话
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {/* Suggestions */}
-            {!isThinking && messages.length > 0 && messages[messages.length - 1].role === 'assistant' && (
+            {!isThinking && pendingContext === null && messages.length > 0 && messages[messages.length - 1].role === 'assistant' && (
                 <div className="px-4 py-2 bg-slate-50 flex gap-2 overflow-x-auto no-scrollbar shrink-0 border-t border-slate-50">
                     {renderSuggestions()}
                 </div>
@@ -158,9 +307,15 @@ export const AiAssistant: React.FC<AiAssistantProps> = ({ currentContext, contex
                         placeholder="输入你的问题..."
                         className="w-full pl-5 pr-12 py-3 rounded-full bg-slate-100 text-slate-700 focus:outline-none focus:ring-2 focus:ring-pink-200 focus:bg-white transition-all text-sm"
                     />
-                    <button type="submit" disabled={!inputValue.trim() || isThinking} className="absolute right-1.5 p-2 bg-pink-600 hover:bg-pink-700 rounded-full text-white disabled:opacity-50 transition-all">
-                        <Send className="w-4 h-4" />
-                    </button>
+                    {isThinking ? (
+                        <button type="button" onClick={stopGenerating} title="停止生成" className="absolute right-1.5 p-2 bg-slate-700 hover:bg-slate-800 rounded-full text-white transition-all">
+                            <Square className="w-4 h-4 fill-current" />
+                        </button>
+                    ) : (
+                        <button type="submit" disabled={!inputValue.trim()} className="absolute right-1.5 p-2 bg-pink-600 hover:bg-pink-700 rounded-full text-white disabled:opacity-50 transition-all">
+                            <Send className="w-4 h-4" />
+                        </button>
+                    )}
                 </div>
             </form>
         </div>
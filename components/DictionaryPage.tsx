@@ -1,40 +1,161 @@
 
-import React, { useState, useRef } from 'react';
-import { Search, Volume2, Book, Loader2, AlertCircle, ChevronRight, BarChart3, Sparkles, Link2 } from 'lucide-react';
-import { DictionaryResult, ModelLevel } from '../types';
-import { lookupWord, generateSpeech } from '../services/geminiService';
+import React, { useState, useRef, useEffect } from 'react';
+import { Search, Volume2, Book, Loader2, AlertCircle, ChevronRight, BarChart3, Sparkles, Link2, RefreshCw, X, Quote, Target, Bookmark, BookmarkCheck, HardDrive, Wand, Scale } from 'lucide-react';
+import { ComparisonResult, DictionaryResult, DictionarySource, ModelLevel, NotebookItem } from '../types';
+import { lookupWord, compareWords, parseComparisonQuery, generateSpeech, MIN_COMPARE_WORDS, MAX_COMPARE_WORDS } from '../services/geminiService';
+import { isCancelled } from '../services/errors';
+import { dictionaryExport } from '../services/exportService';
+import { NewNotebookItem, notebookKey, headwordItem, definitionItem, collocationItem } from '../services/notebookService';
+import { isLocalOnly } from '../services/offlineDictionary';
+import { ExportMenu } from './ExportMenu';
+import { WordRelations } from './WordRelations';
+import { WordComparison } from './WordComparison';
+
+// A word or phrase picked from an analyzed sentence, looked up in that sentence's context
+export interface DictionaryLookup {
+  word: string;
+  context: string;
+}
 
 interface DictionaryPageProps {
   initialResult: DictionaryResult | null;
   onResultChange: (result: DictionaryResult | null) => void;
   modelLevel: ModelLevel;
+  pendingLookup?: DictionaryLookup | null;
+  onPendingLookupHandled?: () => void;
+  notebook?: NotebookItem[];
+  onToggleNotebook?: (item: NewNotebookItem) => void;
 }
 
-export const DictionaryPage: React.FC<DictionaryPageProps> = ({ initialResult, onResultChange, modelLevel }) => {
+const SOURCE_BADGES: Record<DictionarySource, { label: string; className: string; icon: React.ReactNode }> = {
+  local: { label: '本地词典', className: 'bg-sky-50 text-sky-700 border-sky-200', icon: <HardDrive className="w-3.5 h-3.5" /> },
+  ai: { label: 'AI 生成', className: 'bg-pink-50 text-pink-600 border-pink-200', icon: <Sparkles className="w-3.5 h-3.5" /> },
+};
+
+// Looking up one word, or comparing two to four confusable ones
+type DictionaryMode = 'lookup' | 'compare';
+
+const MODES: { mode: DictionaryMode; label: string }[] = [
+  { mode: 'lookup', label: '查词' },
+  { mode: 'compare', label: '易混词辨析' },
+];
+
+// Bookmark toggle for the headword, a sense or a collocation
+const SaveButton: React.FC<{ saved: boolean; onClick: () => void; className?: string }> = ({ saved, onClick, className = '' }) => (
+  <button
+    onClick={onClick}
+    title={saved ? '已收藏，点击移出生词本' : '收藏到生词本'}
+    aria-pressed={saved}
+    className={`${saved ? 'text-pink-600' : 'text-slate-300 hover:text-pink-500'} transition-colors ${className}`}
+  >
+    {saved ? <BookmarkCheck className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+  </button>
+);
+
+export const DictionaryPage: React.FC<DictionaryPageProps> = ({ initialResult, onResultChange, modelLevel, pendingLookup, onPendingLookupHandled, notebook, onToggleNotebook }) => {
   const [query, setQuery] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isAudioPlaying, setIsAudioPlaying] = useState(false);
+  const [mode, setMode] = useState<DictionaryMode>('lookup');
+  const [comparison, setComparison] = useState<ComparisonResult | null>(null);
   
   const audioContextRef = useRef<AudioContext | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!query.trim()) return;
+    if (mode === 'compare') runCompare(query);
+    else runLookup(query);
+  };
 
+  // Aborts the previous request; returns the new one's controller
+  const startRequest = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
     setError(null);
-    
+    return controller;
+  };
+
+  const finishRequest = (controller: AbortController) => {
+    if (abortRef.current === controller) {
+      abortRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const runCompare = async (input: string, fresh = false) => {
+    const words = parseComparisonQuery(input);
+    if (words.length < MIN_COMPARE_WORDS || words.length > MAX_COMPARE_WORDS) {
+      setError(`请输入 ${MIN_COMPARE_WORDS} 到 ${MAX_COMPARE_WORDS} 个不同的单词或词组，用 / 或逗号分隔。`);
+      return;
+    }
+
+    const controller = startRequest();
+    try {
+      const data = await compareWords(words, modelLevel, { fresh, signal: controller.signal });
+      if (!controller.signal.aborted) setComparison(data);
+    } catch (err: any) {
+      if (isCancelled(err) || controller.signal.aborted) return;
+      setError(err.message || "辨析失败，请稍后再试。");
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  const runLookup = async (word: string, fresh = false, context?: string, enrich = false) => {
+    if (!word.trim()) return;
+
+    const controller = startRequest();
     try {
-      const data = await lookupWord(query, modelLevel);
-      onResultChange(data);
+      const data = await lookupWord(word, modelLevel, { fresh, context, enrich, signal: controller.signal });
+      if (!controller.signal.aborted) onResultChange(data);
     } catch (err: any) {
+      if (isCancelled(err) || controller.signal.aborted) return;
       setError(err.message || "查询失败，请稍后再试。");
     } finally {
-      setIsLoading(false);
+      finishRequest(controller);
     }
   };
 
+  useEffect(() => {
+    if (!pendingLookup) return;
+    setMode('lookup');
+    setQuery(pendingLookup.word);
+    runLookup(pendingLookup.word, false, pendingLookup.context);
+    onPendingLookupHandled?.();
+  }, [pendingLookup]);
+
+  const savedKeys = new Set(notebook?.map(notebookKey));
+
+  // Renders nothing when the page isn't connected to a notebook
+  const saveButton = (item: NewNotebookItem, className?: string) => onToggleNotebook && (
+    <SaveButton saved={savedKeys.has(notebookKey(item))} onClick={() => onToggleNotebook(item)} className={className} />
+  );
+
+  // A word from the family, synonym or antonym lists, or from a comparison, starts a new lookup
+  const lookupRelated = (word: string) => {
+    setMode('lookup');
+    setQuery(word);
+    runLookup(word);
+  };
+
+  const switchMode = (next: DictionaryMode) => {
+    if (next === mode) return;
+    cancelLookup();
+    setMode(next);
+    setQuery(next === 'compare' && comparison ? comparison.items.map(i => i.word).join(' / ') : '');
+    setError(null);
+  };
+
+  const cancelLookup = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsLoading(false);
+  };
+
   const playAudio = async (text: string) => {
       if (isAudioPlaying) return;
       setIsAudioPlaying(true);
@@ -59,6 +180,9 @@ export const DictionaryPage: React.FC<DictionaryPageProps> = ({ initialResult, o
   };
 
   const result = initialResult;
+  // Entries without a source predate the offline dictionary and came from the model
+  const localOnly = !!result && isLocalOnly(result);
+  const hasLocal = !!result?.entries.some(e => e.source === 'local');
 
   return (
     <div className="w-full max-w-4xl mx-auto animate-fade-in pb-12">
@@ -73,12 +197,29 @@ export const DictionaryPage: React.FC<DictionaryPageProps> = ({ initialResult, o
 
         {/* Search Box */}
         <div className="max-w-xl mx-auto mb-12">
+            <div className="flex justify-center mb-4">
+                <div className="flex gap-1 p-1 bg-slate-100 rounded-lg" role="tablist">
+                    {MODES.map(({ mode: m, label }) => (
+                        <button
+                            key={m}
+                            role="tab"
+                            aria-selected={mode === m}
+                            onClick={() => switchMode(m)}
+                            className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${
+                                mode === m ? 'bg-white text-pink-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                            }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
             <form onSubmit={handleSearch} className="relative">
                 <input
                     type="text"
                     value={query}
                     onChange={(e) => setQuery(e.target.value)}
-                    placeholder="输入单词或词组 (例如: take up, resilience)"
+                    placeholder={mode === 'compare' ? '输入 2–4 个易混词，用 / 分隔 (例如: affect / effect)' : '输入单词或词组 (例如: take up, resilience)'}
                     className="w-full pl-5 pr-14 py-4 text-lg rounded-2xl bg-white border border-slate-200 shadow-lg shadow-slate-200/50 focus:border-pink-400 focus:ring-4 focus:ring-pink-50 transition-all outline-none"
                     disabled={isLoading}
                 />
@@ -90,6 +231,16 @@ export const DictionaryPage: React.FC<DictionaryPageProps> = ({ initialResult, o
                     {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Search className="w-5 h-5" />}
                 </button>
             </form>
+            {isLoading && (
+                <div className="flex justify-center mt-3">
+                    <button
+                        onClick={cancelLookup}
+                        className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-700 bg-white border border-slate-200 hover:bg-slate-50 px-3 py-1.5 rounded-lg transition-colors"
+                    >
+                        <X className="w-3.5 h-3.5" /> 取消查询
+                    </button>
+                </div>
+            )}
         </div>
 
         {error && (
@@ -99,7 +250,18 @@ export const DictionaryPage: React.FC<DictionaryPageProps> = ({ initialResult, o
             </div>
         )}
 
-        {!result && !isLoading && !error && (
+        {mode === 'compare' && !comparison && !isLoading && !error && (
+            <div className="text-center py-12 opacity-40 flex flex-col items-center">
+              <Scale className="w-16 h-16 mb-4 text-slate-300" />
+              <p>输入几个容易混淆的词，对比用法并做填空自测</p>
+            </div>
+        )}
+
+        {mode === 'compare' && comparison && !isLoading && (
+            <WordComparison result={comparison} onLookup={lookupRelated} />
+        )}
+
+        {mode === 'lookup' && !result && !isLoading && !error && (
             <div className="text-center py-12 opacity-40 flex flex-col items-center">
               <Book className="w-16 h-16 mb-4 text-slate-300" />
               <p>输入单词开始查询</p>
@@ -107,7 +269,7 @@ export const DictionaryPage: React.FC<DictionaryPageProps> = ({ initialResult, o
         )}
 
         {/* Result Display */}
-        {result && !isLoading && (
+        {mode === 'lookup' && result && !isLoading && (
             <div className="bg-white rounded-[2rem] shadow-xl shadow-slate-200/40 border border-slate-100 overflow-hidden">
                 {/* Header */}
                 <div className="bg-slate-50/50 border-b border-slate-100 px-6 py-8 md:px-10 md:py-10 flex flex-col md:flex-row md:items-center justify-between gap-6">
@@ -116,16 +278,60 @@ export const DictionaryPage: React.FC<DictionaryPageProps> = ({ initialResult, o
                         <div className="text-xl text-slate-500 font-sans flex items-center gap-2 font-medium">
                             <span>{result.phonetic}</span>
                         </div>
+                        {result.examTags && result.examTags.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5 mt-3">
+                                {result.examTags.map(tag => (
+                                    <span key={tag} className="text-xs font-medium px-2 py-0.5 rounded-full bg-slate-100 text-slate-500">{tag}</span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                        {localOnly && (
+                            <button
+                                onClick={() => runLookup(result.word, false, undefined, true)}
+                                className="h-10 px-4 rounded-full flex items-center gap-1.5 bg-pink-50 text-pink-600 text-sm font-medium hover:bg-pink-100 transition-colors"
+                                title="用 AI 补充例句、搭配和更多释义"
+                            >
+                                <Wand className="w-4 h-4" /> AI 补充
+                            </button>
+                        )}
+                        {saveButton(headwordItem(result), 'w-10 h-10 rounded-full flex items-center justify-center bg-white border border-slate-200 hover:border-pink-300')}
+                        <ExportMenu
+                            document={() => dictionaryExport(result)}
+                            className="w-10 h-10 rounded-full flex items-center justify-center bg-white border border-slate-200 text-slate-400 hover:text-pink-600 hover:border-pink-300 transition-all"
+                        />
+                        {!localOnly && (
+                        <button
+                            onClick={() => runLookup(result.word, true, result.context, hasLocal)}
+                            className="w-10 h-10 rounded-full flex items-center justify-center bg-white border border-slate-200 text-slate-400 hover:text-pink-600 hover:border-pink-300 transition-all"
+                            title="重新生成"
+                        >
+                            <RefreshCw className="w-4 h-4" />
+                        </button>
+                        )}
+                        <button 
+                            onClick={() => playAudio(result.word)}
+                            className={`w-14 h-14 rounded-full flex items-center justify-center transition-all shadow-sm ${isAudioPlaying ? 'bg-pink-100 text-pink-600 ring-4 ring-pink-50' : 'bg-white border border-slate-200 text-slate-700 hover:text-pink-600 hover:border-pink-300 hover:shadow-md'}`}
+                            title="播放发音"
+                        >
+                            {isAudioPlaying ? <Loader2 className="w-6 h-6 animate-spin" /> : <Volume2 className="w-7 h-7" />}
+                        </button>
                     </div>
-                    <button 
-                        onClick={() => playAudio(result.word)}
-                        className={`w-14 h-14 rounded-full flex items-center justify-center transition-all shadow-sm ${isAudioPlaying ? 'bg-pink-100 text-pink-600 ring-4 ring-pink-50' : 'bg-white border border-slate-200 text-slate-700 hover:text-pink-600 hover:border-pink-300 hover:shadow-md'}`}
-                        title="播放发音"
-                    >
-                        {isAudioPlaying ? <Loader2 className="w-6 h-6 animate-spin" /> : <Volume2 className="w-7 h-7" />}
-                    </button>
                 </div>
 
+                {/* Sentence the word was picked from */}
+                {result.context && (
+                    <div className="border-b border-amber-100 bg-amber-50/50 px-6 py-5 md:px-10 flex gap-3">
+                        <Quote className="w-4 h-4 mt-1 text-amber-400 shrink-0" />
+                        <div className="space-y-1.5">
+                            <p className="text-xs font-bold text-amber-600 uppercase tracking-wider">句中语境</p>
+                            <p className="font-serif text-slate-800 leading-relaxed">{result.context}</p>
+                            {result.contextNote && <p className="text-sm text-slate-600">{result.contextNote}</p>}
+                        </div>
+                    </div>
+                )}
+
                 {/* Entries */}
                 <div className="p-6 md:p-10 space-y-12">
                     {result.entries.map((entry, idx) => (
@@ -144,13 +350,20 @@ export const DictionaryPage: React.FC<DictionaryPageProps> = ({ initialResult, o
                                     </span>
                                 )}
                                 
+                                {hasLocal && (
+                                    <span className={`text-xs font-bold px-3 py-1.5 rounded-lg border flex items-center gap-1.5 ${SOURCE_BADGES[entry.source ?? 'ai'].className}`}>
+                                        {SOURCE_BADGES[entry.source ?? 'ai'].icon}
+                                        {SOURCE_BADGES[entry.source ?? 'ai'].label}
+                                    </span>
+                                )}
+
                                 <div className="h-px bg-slate-100 flex-grow ml-2"></div>
                             </div>
 
                             {/* Definitions List */}
                             <div className="space-y-8 pl-1 md:pl-2">
                                 {entry.definitions.map((def, dIdx) => (
-                                    <div key={dIdx} className="relative grid grid-cols-[auto_1fr] gap-4">
+                                    <div key={dIdx} data-in-context={def.inContext || undefined} className={`relative grid grid-cols-[auto_1fr] gap-4 ${def.inContext ? 'rounded-2xl ring-2 ring-amber-200 bg-amber-50/30 p-3 -m-3' : ''}`}>
                                         {/* Index Number */}
                                         <div className="flex justify-center pt-1">
                                             <span className="text-slate-300 font-bold text-lg font-serif select-none">{dIdx + 1}.</span>
@@ -159,13 +372,24 @@ export const DictionaryPage: React.FC<DictionaryPageProps> = ({ initialResult, o
                                         <div className="flex flex-col gap-2">
                                             {/* Meaning & Explanation */}
                                             <div>
-                                                <h3 className="text-lg font-bold text-slate-800 mb-1 leading-snug">{def.meaning}</h3>
+                                                <h3 className="text-lg font-bold text-slate-800 mb-1 leading-snug flex flex-wrap items-center gap-2">
+                                                    {def.meaning}
+                                                    {def.inContext && (
+                                                        <span className="inline-flex items-center gap-1 text-xs font-bold text-amber-700 bg-amber-100 px-2 py-0.5 rounded-md">
+                                                            <Target className="w-3 h-3" /> 本句词义
+                                                        </span>
+                                                    )}
+                                                    {saveButton(definitionItem(result, entry.partOfSpeech, def))}
+                                                </h3>
+                                                {def.explanation && (
                                                 <p className="text-slate-500 text-sm leading-relaxed">
                                                     {def.explanation}
                                                 </p>
+                                                )}
                                             </div>
 
-                                            {/* Example Box */}
+                                            {/* Example Box; offline entries have none */}
+                                            {def.example && (
                                             <div className="mt-2 bg-slate-50 rounded-xl p-5 border border-slate-100 group-hover/def hover:border-pink-100 hover:bg-pink-50/30 transition-colors">
                                                 <p className="font-serif text-lg text-slate-800 mb-2 leading-relaxed">
                                                     {def.example}
@@ -175,6 +399,7 @@ export const DictionaryPage: React.FC<DictionaryPageProps> = ({ initialResult, o
                                                     {def.exampleTranslation}
                                                 </p>
                                             </div>
+                                            )}
                                         </div>
                                     </div>
                                 ))}
@@ -200,7 +425,10 @@ export const DictionaryPage: React.FC<DictionaryPageProps> = ({ initialResult, o
                             {result.collocations.map((col, idx) => (
                                 <div key={idx} className="bg-white border border-slate-200 rounded-xl p-5 hover:border-violet-200 hover:shadow-lg hover:shadow-violet-100/20 transition-all group">
                                     <div className="flex flex-col gap-1 mb-3">
-                                        <span className="font-bold text-lg text-slate-800 group-hover:text-violet-700 transition-colors">{col.phrase}</span>
+                                        <span className="flex items-center justify-between gap-2">
+                                            <span className="font-bold text-lg text-slate-800 group-hover:text-violet-700 transition-colors">{col.phrase}</span>
+                                            {saveButton(collocationItem(result, col))}
+                                        </span>
                                         <span className="text-sm font-medium text-slate-500">{col.meaning}</span>
                                     </div>
                                     
@@ -217,6 +445,9 @@ export const DictionaryPage: React.FC<DictionaryPageProps> = ({ initialResult, o
                         </div>
                     </div>
                 )}
+
+                {/* Word family, synonyms, antonyms and etymology */}
+                <WordRelations result={result} onLookup={lookupRelated} />
             </div>
         )}
     </div>
@@ -0,0 +1,74 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Download, FileText, Printer, Layers } from 'lucide-react';
+import { ExportDocument, exportMarkdown, exportAnki, printDocument } from '../services/exportService';
+
+interface ExportMenuProps {
+  // Built lazily so large batches are only assembled when the user actually exports
+  document: () => ExportDocument;
+  className: string;
+  iconClassName?: string;
+  label?: string;
+  disabled?: boolean;
+  withCards?: boolean;   // Offer the Anki export; off for results without vocabulary
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ document: buildDocument, className, iconClassName = 'w-4 h-4', label, disabled, withCards = true }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', close);
+    return () => window.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  const run = (action: (doc: ExportDocument) => void) => {
+    setIsOpen(false);
+    action(buildDocument());
+  };
+
+  const print = (doc: ExportDocument) => {
+    if (!printDocument(doc)) alert("浏览器阻止了打印窗口，请允许弹出窗口后重试。");
+  };
+
+  const exportCards = (doc: ExportDocument) => {
+    if (doc.cards.length) exportAnki(doc);
+    else alert("该内容没有可制作成卡片的词汇。");
+  };
+
+  const itemClass = "w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-slate-600 hover:bg-pink-50 hover:text-pink-600 transition-colors";
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className={className}
+        title="导出"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <Download className={iconClassName} />
+        {label && <span>{label}</span>}
+      </button>
+      {isOpen && (
+        <div role="menu" className="absolute right-0 mt-2 w-52 bg-white rounded-xl border border-slate-100 shadow-lg py-1 z-30 animate-fade-in">
+          <button role="menuitem" onClick={() => run(exportMarkdown)} className={itemClass}>
+            <FileText className="w-4 h-4" /> Markdown 笔记 (.md)
+          </button>
+          <button role="menuitem" onClick={() => run(print)} className={itemClass}>
+            <Printer className="w-4 h-4" /> 打印 / 保存为 PDF
+          </button>
+          {withCards && (
+            <button role="menuitem" onClick={() => run(exportCards)} className={itemClass}>
+              <Layers className="w-4 h-4" /> Anki 卡片 (.txt)
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,25 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { clearCache } from '../services/cacheService';
 
 export const Footer: React.FC = () => {
+  const [clearStatus, setClearStatus] = useState<'cleared' | 'failed' | null>(null);
+
+  const handleClearCache = async () => {
+    setClearStatus(await clearCache() ? 'cleared' : 'failed');
+    setTimeout(() => setClearStatus(null), 2000);
+  };
+
   return (
-    <footer className="py-6 text-center text-slate-400 text-sm">
+    <footer className="py-6 text-center text-slate-400 text-sm space-y-2">
       <p>© {new Date().getFullYear()} GrammaViz. Powered by Google Gemini.</p>
+      <button
+        onClick={handleClearCache}
+        className="inline-flex items-center gap-1 text-xs text-slate-400 hover:text-pink-600 transition-colors"
+      >
+        <Trash2 className="w-3 h-3" />
+        {clearStatus === 'cleared' ? '缓存已清除' : clearStatus === 'failed' ? '清除失败，请重试' : '清除缓存'}
+      </button>
     </footer>
   );
-};
\ No newline at end of file
+};
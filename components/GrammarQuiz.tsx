@@ -0,0 +1,181 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { CheckCircle2, XCircle, RotateCcw, Trophy, GitMerge, Clock } from 'lucide-react';
+import { AnalysisResult, QuizQuestion, QuizItemKind, QuizAttempt } from '../types';
+import {
+  buildQuiz, gradeQuiz, QuizGrade, GradedItem, loadQuizAttempts, saveQuizAttempts, addQuizAttempt, quizProgress, QUIZ_KIND_LABELS,
+} from '../services/quizService';
+
+interface GrammarQuizProps {
+  result: AnalysisResult;
+}
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+// One labeled select; after grading it turns green or red and shows the answer and why
+const QuizSelect: React.FC<{
+  question: QuizQuestion;
+  label: string;
+  placeholder: string;
+  value: string;
+  onChange: (value: string) => void;
+  graded?: GradedItem;
+}> = ({ question, label, placeholder, value, onChange, graded }) => (
+  <div className="flex flex-col gap-1 text-left">
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={!!graded}
+      aria-label={label}
+      className={`px-2 py-1.5 rounded-lg border text-sm bg-white outline-none focus:ring-2 focus:ring-pink-100 ${
+        !graded ? 'border-slate-200' : graded.correct ? 'border-green-300 bg-green-50 text-green-700' : 'border-red-300 bg-red-50 text-red-700'
+      }`}
+    >
+      <option value="">{placeholder}</option>
+      {question.options.map(option => <option key={option} value={option}>{option}</option>)}
+    </select>
+    {graded && (
+      <div className={`text-xs leading-relaxed max-w-[16rem] ${graded.correct ? 'text-green-700' : 'text-red-700'}`} data-correct={graded.correct}>
+        <span className="inline-flex items-center gap-1 font-bold">
+          {graded.correct ? <CheckCircle2 className="w-3.5 h-3.5" /> : <XCircle className="w-3.5 h-3.5" />}
+          {graded.correct ? '正确' : `正确答案：${question.answer}`}
+        </span>
+        <p className="text-slate-500 mt-0.5">{question.explanation}</p>
+      </div>
+    )}
+  </div>
+);
+
+const ProgressSummary: React.FC<{ attempts: QuizAttempt[] }> = ({ attempts }) => {
+  const progress = useMemo(() => quizProgress(attempts), [attempts]);
+  if (!progress.attempts) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-500">
+      <span className="flex items-center gap-1 font-bold text-slate-700">
+        <Trophy className="w-3.5 h-3.5 text-amber-500" />
+        已练习 {progress.attempts} 次 · 总正确率 {percent(progress.accuracy)}
+      </span>
+      {(Object.entries(progress.byKind) as [QuizItemKind, number][]).map(([kind, accuracy]) => (
+        <span key={kind} className="px-1.5 py-0.5 rounded bg-slate-100">{QUIZ_KIND_LABELS[kind]} {percent(accuracy)}</span>
+      ))}
+      {/* Scores of the latest attempts, oldest on the left */}
+      <span className="flex items-end gap-0.5 h-5" title="最近的练习得分">
+        {progress.recent.map((score, i) => (
+          <span key={i} className="w-1.5 rounded-sm bg-pink-300" style={{ height: `${Math.max(score, 0.08) * 100}%` }} />
+        ))}
+      </span>
+    </div>
+  );
+};
+
+export const GrammarQuiz: React.FC<GrammarQuizProps> = ({ result }) => {
+  // Bumped by "try again" so the options are shuffled anew
+  const [round, setRound] = useState(0);
+  const questions = useMemo(() => buildQuiz(result), [result, round]);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [grade, setGrade] = useState<QuizGrade | null>(null);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>(loadQuizAttempts);
+
+  useEffect(() => {
+    setAnswers({});
+    setGrade(null);
+  }, [result]);
+
+  const gradedById = useMemo(
+    () => new Map(grade?.items.map(item => [item.question.id, item]) ?? []),
+    [grade],
+  );
+
+  const answer = (id: string, value: string) => setAnswers(prev => ({ ...prev, [id]: value }));
+
+  const submit = () => {
+    const next = gradeQuiz(questions, answers);
+    setGrade(next);
+    const updated = addQuizAttempt(attempts, result.englishSentence, next);
+    setAttempts(updated);
+    saveQuizAttempts(updated);
+  };
+
+  const retry = () => {
+    setAnswers({});
+    setGrade(null);
+    setRound(r => r + 1);
+  };
+
+  const question = (id: string) => questions.find(q => q.id === id);
+  const pattern = question('pattern');
+  const tense = question('tense');
+  const answeredCount = questions.filter(q => answers[q.id]).length;
+
+  return (
+    <div className="w-full space-y-8">
+      <p className="text-sm text-slate-500 text-center">为每个意群选择它的句子成分和词性，再判断整句的句型和时态。</p>
+
+      <div className="flex flex-wrap items-start justify-center gap-x-8 gap-y-10">
+        {result.chunks.map((chunk, index) => (
+          <div key={index} className="flex flex-col items-center gap-3">
+            <div className="text-3xl md:text-4xl font-serif font-medium tracking-tight text-slate-800 border-b-[3px] border-pink-100 px-2 pb-3">
+              {chunk.text}
+            </div>
+            <QuizSelect
+              question={question(`role-${index}`)!}
+              label={`${chunk.text} 句子成分`}
+              placeholder="句子成分…"
+              value={answers[`role-${index}`] || ''}
+              onChange={(v) => answer(`role-${index}`, v)}
+              graded={gradedById.get(`role-${index}`)}
+            />
+            <QuizSelect
+              question={question(`pos-${index}`)!}
+              label={`${chunk.text} 词性`}
+              placeholder="词性…"
+              value={answers[`pos-${index}`] || ''}
+              onChange={(v) => answer(`pos-${index}`, v)}
+              graded={gradedById.get(`pos-${index}`)}
+            />
+          </div>
+        ))}
+      </div>
+
+      {(pattern || tense) && (
+        <div className="flex flex-wrap justify-center gap-8 border-t border-slate-100 pt-6">
+          {pattern && (
+            <div className="flex flex-col gap-2">
+              <span className="flex items-center gap-1.5 text-xs font-bold text-indigo-600"><GitMerge className="w-3.5 h-3.5" /> 句型</span>
+              <QuizSelect question={pattern} label="整句句型" placeholder="选择句型…" value={answers.pattern || ''} onChange={(v) => answer('pattern', v)} graded={gradedById.get('pattern')} />
+            </div>
+          )}
+          {tense && (
+            <div className="flex flex-col gap-2">
+              <span className="flex items-center gap-1.5 text-xs font-bold text-teal-600"><Clock className="w-3.5 h-3.5" /> 时态</span>
+              <QuizSelect question={tense} label="整句时态" placeholder="选择时态…" value={answers.tense || ''} onChange={(v) => answer('tense', v)} graded={gradedById.get('tense')} />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-col items-center gap-4 border-t border-slate-100 pt-6">
+        {grade ? (
+          <div className="flex items-center gap-4">
+            <span className="text-lg font-bold text-slate-800">得分 {grade.correct} / {grade.total}</span>
+            <button
+              onClick={retry}
+              className="flex items-center gap-1 text-sm font-medium text-pink-600 bg-pink-50 hover:bg-pink-100 px-4 py-2 rounded-lg transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" /> 再练一次
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={submit}
+            disabled={answeredCount === 0}
+            className="text-sm font-medium text-white bg-pink-600 hover:bg-pink-700 disabled:opacity-50 px-6 py-2 rounded-lg transition-colors"
+          >
+            提交答案（{answeredCount}/{questions.length}）
+          </button>
+        )}
+        <ProgressSummary attempts={attempts} />
+      </div>
+    </div>
+  );
+};
@@ -1,16 +1,25 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Sparkles, Book, PenTool, Zap, Brain, Rocket, ChevronDown } from 'lucide-react';
-import { ModelLevel } from '../types';
+import { Sparkles, Book, PenTool, Zap, Brain, Rocket, ChevronDown, Settings, History, NotebookPen, Repeat } from 'lucide-react';
+import { AppTab, ModelLevel } from '../types';
+import { getModelConfig } from '../services/geminiService';
 
 interface HeaderProps {
-  activeTab: 'analyzer' | 'dictionary' | 'writing';
-  onNavigate: (tab: 'analyzer' | 'dictionary' | 'writing') => void;
+  activeTab: AppTab;
+  onNavigate: (tab: AppTab) => void;
   modelLevel: ModelLevel;
   onModelChange: (level: ModelLevel) => void;
+  reviewDueCount?: number;
 }
 
-export const Header: React.FC<HeaderProps> = ({ activeTab, onNavigate, modelLevel, onModelChange }) => {
+// Items due for review, over the review button
+const DueBadge: React.FC<{ count: number }> = ({ count }) => count > 0 ? (
+  <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-pink-600 text-white text-[10px] font-bold leading-[1.1rem] text-center" aria-label={`${count} 项待复习`}>
+    {count > 99 ? '99+' : count}
+  </span>
+) : null;
+
+export const Header: React.FC<HeaderProps> = ({ activeTab, onNavigate, modelLevel, onModelChange, reviewDueCount = 0 }) => {
   const [isModelMenuOpen, setIsModelMenuOpen] = useState(false);
   const modelMenuRef = useRef<HTMLDivElement>(null);
 
@@ -40,6 +49,12 @@ export const Header: React.FC<HeaderProps> = ({ activeTab, onNavigate, modelLeve
     }
   };
 
+  // Reflects the model mapping from the settings page
+  const getModelDetail = (level: ModelLevel) => {
+    const { model, thinkingBudget } = getModelConfig(level);
+    return thinkingBudget > 0 ? `${model} + Budget ${thinkingBudget}` : model;
+  };
+
   const getModelLabel = (level: ModelLevel) => {
     switch (level) {
       case 'mini': return '迷你 (Flash)';
@@ -97,6 +112,17 @@ export const Header: React.FC<HeaderProps> = ({ activeTab, onNavigate, modelLeve
               <PenTool className="w-4 h-4 hidden sm:block" />
               写作
             </button>
+            <button
+              onClick={() => onNavigate('notebook')}
+              className={`px-3 md:px-4 py-1.5 rounded-lg text-sm font-medium transition-all flex items-center gap-1.5 ${
+                  activeTab === 'notebook' 
+                  ? 'bg-white text-pink-600 shadow-sm' 
+                  : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              <NotebookPen className="w-4 h-4 hidden sm:block" />
+              生词本
+            </button>
           </nav>
 
           {/* Model Selector */}
@@ -122,7 +148,7 @@ export const Header: React.FC<HeaderProps> = ({ activeTab, onNavigate, modelLeve
                         </div>
                         <div>
                         <div className="font-bold text-sm">迷你思考</div>
-                        <div className="text-[10px] opacity-70">Gemini 2.5 Flash (快)</div>
+                        <div className="text-[10px] opacity-70">{getModelDetail('mini')}</div>
                         </div>
                     </button>
                     <button onClick={() => handleModelSelect('quick')} className={`w-full text-left px-3 py-2.5 rounded-lg flex items-center gap-3 transition-colors ${modelLevel === 'quick' ? 'bg-blue-50 text-blue-700' : 'hover:bg-slate-50 text-slate-700'}`}>
@@ -131,7 +157,7 @@ export const Header: React.FC<HeaderProps> = ({ activeTab, onNavigate, modelLeve
                         </div>
                         <div>
                         <div className="font-bold text-sm">快速思考</div>
-                        <div className="text-[10px] opacity-70">Pro + Budget 500</div>
+                        <div className="text-[10px] opacity-70">{getModelDetail('quick')}</div>
                         </div>
                     </button>
                     <button onClick={() => handleModelSelect('deep')} className={`w-full text-left px-3 py-2.5 rounded-lg flex items-center gap-3 transition-colors ${modelLevel === 'deep' ? 'bg-purple-50 text-purple-700' : 'hover:bg-slate-50 text-slate-700'}`}>
@@ -140,16 +166,72 @@ export const Header: React.FC<HeaderProps> = ({ activeTab, onNavigate, modelLeve
                         </div>
                         <div>
                         <div className="font-bold text-sm">深度思考</div>
-                        <div className="text-[10px] opacity-70">Pro + Budget 2000</div>
+                        <div className="text-[10px] opacity-70">{getModelDetail('deep')}</div>
                         </div>
                     </button>
                 </div>
              )}
           </div>
+
+          <button
+            onClick={() => onNavigate('review')}
+            className={`hidden md:flex relative p-2 rounded-lg transition-colors ${
+                activeTab === 'review'
+                ? 'bg-pink-50 text-pink-600'
+                : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+            }`}
+            title="复习"
+          >
+            <Repeat className="w-5 h-5" />
+            <DueBadge count={reviewDueCount} />
+          </button>
+
+          <button
+            onClick={() => onNavigate('history')}
+            className={`hidden md:flex p-2 rounded-lg transition-colors ${
+                activeTab === 'history'
+                ? 'bg-pink-50 text-pink-600'
+                : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+            }`}
+            title="历史记录"
+          >
+            <History className="w-5 h-5" />
+          </button>
+
+          <button
+            onClick={() => onNavigate('settings')}
+            className={`hidden md:flex p-2 rounded-lg transition-colors ${
+                activeTab === 'settings'
+                ? 'bg-pink-50 text-pink-600'
+                : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+            }`}
+            title="设置"
+          >
+            <Settings className="w-5 h-5" />
+          </button>
         </div>
         
         {/* Mobile Model Toggle (Simplified) */}
-        <div className="md:hidden flex items-center">
+        <div className="md:hidden flex items-center gap-1">
+            <button
+                onClick={() => onNavigate('review')}
+                className={`relative p-2 rounded-lg ${activeTab === 'review' ? 'bg-pink-50 text-pink-600' : 'text-slate-500'}`}
+            >
+                <Repeat className="w-4 h-4" />
+                <DueBadge count={reviewDueCount} />
+            </button>
+            <button
+                onClick={() => onNavigate('history')}
+                className={`p-2 rounded-lg ${activeTab === 'history' ? 'bg-pink-50 text-pink-600' : 'text-slate-500'}`}
+            >
+                <History className="w-4 h-4" />
+            </button>
+            <button
+                onClick={() => onNavigate('settings')}
+                className={`p-2 rounded-lg ${activeTab === 'settings' ? 'bg-pink-50 text-pink-600' : 'text-slate-500'}`}
+            >
+                <Settings className="w-4 h-4" />
+            </button>
             <button 
                 onClick={() => {
                     const next = modelLevel === 'mini' ? 'quick' : modelLevel === 'quick' ? 'deep' : 'mini';
@@ -0,0 +1,180 @@
+import React, { useState, useMemo } from 'react';
+import { History, Search, Sparkles, Book, PenTool, Trash2, GitMerge, Clock, ChevronRight } from 'lucide-react';
+import { HistoryEntry, HistoryTab, ModelLevel } from '../types';
+import {
+  HistoryFilter, HistoryRange, EMPTY_FILTER, filterHistory, historyPatterns, historyTitle, historySummary,
+} from '../services/historyService';
+import { historyExport } from '../services/exportService';
+import { ExportMenu } from './ExportMenu';
+
+interface HistoryPageProps {
+  entries: HistoryEntry[];
+  onOpen: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}
+
+const TABS: { tab: HistoryTab | 'all'; label: string }[] = [
+  { tab: 'all', label: '全部' },
+  { tab: 'analyzer', label: '句法' },
+  { tab: 'dictionary', label: '词典' },
+  { tab: 'writing', label: '写作' },
+];
+
+const RANGES: { range: HistoryRange; label: string }[] = [
+  { range: 'all', label: '全部时间' },
+  { range: 'today', label: '今天' },
+  { range: 'week', label: '最近 7 天' },
+  { range: 'month', label: '最近 30 天' },
+];
+
+const LEVEL_LABELS: Record<ModelLevel, string> = { mini: '迷你', quick: '快速', deep: '深度' };
+
+const TabIcon: React.FC<{ tab: HistoryTab }> = ({ tab }) => {
+  switch (tab) {
+    case 'analyzer': return <Sparkles className="w-4 h-4" />;
+    case 'dictionary': return <Book className="w-4 h-4" />;
+    case 'writing': return <PenTool className="w-4 h-4" />;
+  }
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('zh-CN', {
+  month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit',
+});
+
+export const HistoryPage: React.FC<HistoryPageProps> = ({ entries, onOpen, onDelete, onClear }) => {
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_FILTER);
+
+  const patterns = useMemo(() => historyPatterns(entries), [entries]);
+  const visible = useMemo(() => filterHistory(entries, filter), [entries, filter]);
+
+  const update = (patch: Partial<HistoryFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  // Only analyzer entries have a sentence pattern, so other tabs drop that filter
+  const selectTab = (tab: HistoryFilter['tab']) =>
+    update({ tab, pattern: tab === 'dictionary' || tab === 'writing' ? '' : filter.pattern });
+
+  const handleClear = () => {
+    if (window.confirm('确定要清空全部历史记录吗？')) onClear();
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-6 animate-fade-in">
+      <div className="text-center space-y-3 mb-2">
+        <div className="inline-flex items-center justify-center p-2 bg-slate-100 rounded-full text-slate-600">
+          <History className="w-5 h-5 mr-2" />
+          <span className="text-sm font-medium">历史记录</span>
+        </div>
+        <h1 className="text-3xl font-bold tracking-tight text-slate-900 font-serif">分析历史</h1>
+        <p className="text-slate-500">句法分析、词典查询和写作批改的结果都会保存在本浏览器中，点击即可重新打开。</p>
+      </div>
+
+      {/* Filters */}
+      <section className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3">
+        <div className="relative">
+          <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={filter.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="搜索句子、单词、翻译或句型..."
+            className="w-full pl-9 pr-3 py-2 rounded-lg border border-slate-200 text-sm outline-none focus:border-pink-300 focus:ring-2 focus:ring-pink-100"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex gap-1 p-1 bg-slate-100 rounded-lg">
+            {TABS.map(({ tab, label }) => (
+              <button
+                key={tab}
+                onClick={() => selectTab(tab)}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${
+                  filter.tab === tab ? 'bg-white text-pink-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={filter.range}
+            onChange={(e) => update({ range: e.target.value as HistoryRange })}
+            className="px-2 py-1.5 rounded-lg border border-slate-200 text-xs text-slate-600 bg-white outline-none"
+            aria-label="时间范围"
+          >
+            {RANGES.map(({ range, label }) => <option key={range} value={range}>{label}</option>)}
+          </select>
+          {patterns.length > 0 && filter.tab !== 'dictionary' && filter.tab !== 'writing' && (
+            <select
+              value={filter.pattern}
+              onChange={(e) => update({ pattern: e.target.value })}
+              className="px-2 py-1.5 rounded-lg border border-slate-200 text-xs text-slate-600 bg-white outline-none max-w-[14rem]"
+              aria-label="句型"
+            >
+              <option value="">全部句型</option>
+              {patterns.map(pattern => <option key={pattern} value={pattern}>{pattern}</option>)}
+            </select>
+          )}
+          <div className="ml-auto flex items-center gap-3">
+            {visible.length > 0 && (
+              <ExportMenu
+                document={() => historyExport(visible)}
+                label={`导出 ${visible.length} 条`}
+                iconClassName="w-3.5 h-3.5"
+                className="flex items-center gap-1 text-xs text-slate-400 hover:text-pink-600 transition-colors"
+              />
+            )}
+            {entries.length > 0 && (
+              <button
+                onClick={handleClear}
+                className="flex items-center gap-1 text-xs text-slate-400 hover:text-red-500 transition-colors"
+              >
+                <Trash2 className="w-3.5 h-3.5" /> 清空
+              </button>
+            )}
+          </div>
+        </div>
+      </section>
+
+      {/* Entries */}
+      {visible.length > 0 ? (
+        <ul className="space-y-3">
+          {visible.map(entry => (
+            <li key={entry.id} className="group bg-white rounded-2xl border border-slate-100 shadow-sm hover:border-pink-200 hover:shadow-md transition-all flex items-stretch">
+              <button onClick={() => onOpen(entry)} className="flex-1 min-w-0 text-left p-4 flex gap-3 items-start">
+                <span className="shrink-0 w-8 h-8 rounded-lg bg-pink-50 text-pink-600 flex items-center justify-center">
+                  <TabIcon tab={entry.tab} />
+                </span>
+                <span className="flex-1 min-w-0 space-y-1">
+                  <span className="block font-serif text-slate-800 truncate">{historyTitle(entry)}</span>
+                  <span className="block text-sm text-slate-500 truncate">{historySummary(entry)}</span>
+                  <span className="flex flex-wrap items-center gap-2 text-[10px] text-slate-400">
+                    <span className="flex items-center gap-1"><Clock className="w-3 h-3" />{formatTime(entry.createdAt)}</span>
+                    <span className="px-1.5 py-0.5 rounded bg-slate-100">{LEVEL_LABELS[entry.modelLevel]}</span>
+                    {entry.tab === 'analyzer' && entry.result.sentencePattern && (
+                      <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600">
+                        <GitMerge className="w-3 h-3" />{entry.result.sentencePattern}
+                      </span>
+                    )}
+                  </span>
+                </span>
+                <ChevronRight className="shrink-0 w-4 h-4 text-slate-300 group-hover:text-pink-400 self-center" />
+              </button>
+              <button
+                onClick={() => onDelete(entry.id)}
+                className="shrink-0 px-3 text-slate-300 hover:text-red-500 transition-colors"
+                title="删除"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-center py-12 opacity-40 flex flex-col items-center">
+          <History className="w-16 h-16 mb-4 text-slate-300" />
+          <p>{entries.length ? '没有符合条件的记录。' : '还没有历史记录。'}</p>
+        </div>
+      )}
+    </div>
+  );
+};
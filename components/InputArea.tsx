@@ -1,21 +1,16 @@
 import React, { useState } from 'react';
-import { Send, Shuffle } from 'lucide-react';
+import { Send, Shuffle, Library } from 'lucide-react';
+import { SentenceLibrary } from './SentenceLibrary';
+import { CURATED_SECTIONS, ALL_CURATED_SENTENCES, randomSentence } from '../services/sentenceLibrary';
 
 interface InputAreaProps {
   onAnalyze: (sentence: string) => void;
   isLoading: boolean;
 }
 
-const PRESETS = [
-  "Regular exercise can improve confidence.",
-  "The quick brown fox jumps over the lazy dog.",
-  "To learn a new language requires patience.",
-  "Rich countries can provide people with many job opportunities.",
-  "Reading books expands your mind."
-];
-
 export const InputArea: React.FC<InputAreaProps> = ({ onAnalyze, isLoading }) => {
   const [text, setText] = useState("");
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -24,24 +19,37 @@ export const InputArea: React.FC<InputAreaProps> = ({ onAnalyze, isLoading }) =>
     }
   };
 
+  // Enter analyzes, Shift+Enter adds a line break for pasted paragraphs
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      handleSubmit(e);
+    }
+  };
+
   const handlePreset = () => {
-    const random = PRESETS[Math.floor(Math.random() * PRESETS.length)];
-    setText(random);
+    setText(randomSentence(ALL_CURATED_SENTENCES, text) ?? '');
+  };
+
+  // Picking from the library fills the input and analyzes right away, like the chips below
+  const handlePick = (sentence: string) => {
+    setText(sentence);
+    onAnalyze(sentence);
   };
 
   return (
     <div className="bg-white rounded-2xl shadow-xl shadow-slate-200/50 p-6 border border-slate-100">
       <form onSubmit={handleSubmit} className="relative">
-        <div className="relative flex items-center">
-          <input
-            type="text"
+        <div className="relative flex items-start">
+          <textarea
             value={text}
             onChange={(e) => setText(e.target.value)}
-            placeholder="请输入英语句子..."
+            onKeyDown={handleKeyDown}
+            placeholder="请输入英语句子或段落..."
             disabled={isLoading}
-            className="w-full pl-6 pr-32 py-4 text-lg rounded-xl bg-slate-50 border border-slate-200 focus:border-pink-400 focus:ring-4 focus:ring-pink-100 transition-all outline-none text-slate-800 placeholder:text-slate-400 disabled:opacity-60 disabled:cursor-not-allowed"
+            rows={text.length > 80 || text.includes('\n') ? 4 : 1}
+            className="w-full pl-6 pr-44 py-4 text-lg rounded-xl bg-slate-50 border border-slate-200 focus:border-pink-400 focus:ring-4 focus:ring-pink-100 transition-all outline-none text-slate-800 placeholder:text-slate-400 disabled:opacity-60 disabled:cursor-not-allowed resize-none leading-relaxed"
           />
-          <div className="absolute right-2 flex items-center gap-2">
+          <div className="absolute right-2 top-2.5 flex items-center gap-2">
              <button
                 type="button"
                 onClick={handlePreset}
@@ -51,6 +59,15 @@ export const InputArea: React.FC<InputAreaProps> = ({ onAnalyze, isLoading }) =>
               >
                 <Shuffle className="w-5 h-5" />
              </button>
+             <button
+                type="button"
+                onClick={() => setIsLibraryOpen(open => !open)}
+                title="例句库"
+                aria-expanded={isLibraryOpen}
+                className={`p-2 rounded-lg transition-all ${isLibraryOpen ? 'text-pink-600 bg-pink-50' : 'text-slate-400 hover:text-pink-500 hover:bg-pink-50'}`}
+              >
+                <Library className="w-5 h-5" />
+             </button>
             <button
               type="submit"
               disabled={isLoading || !text.trim()}
@@ -65,16 +82,18 @@ export const InputArea: React.FC<InputAreaProps> = ({ onAnalyze, isLoading }) =>
       
       <div className="mt-4 flex flex-wrap gap-2 justify-center">
         <span className="text-xs font-medium text-slate-400 uppercase tracking-wider self-center mr-2">试一试:</span>
-        {PRESETS.slice(0, 3).map((preset, idx) => (
+        {CURATED_SECTIONS[0].sentences.slice(0, 3).map((preset, idx) => (
             <button 
                 key={idx}
-                onClick={() => { setText(preset); onAnalyze(preset); }}
+                onClick={() => handlePick(preset)}
                 className="text-xs bg-slate-100 hover:bg-white border border-transparent hover:border-pink-200 text-slate-600 hover:text-pink-600 px-3 py-1.5 rounded-full transition-all cursor-pointer truncate max-w-[200px]"
             >
                 {preset}
             </button>
         ))}
       </div>
+
+      {isLibraryOpen && <SentenceLibrary currentText={text} onPick={handlePick} />}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,258 @@
+import React, { useState, useMemo } from 'react';
+import { NotebookPen, Search, Trash2, Clock, Tag, X, Quote, Sparkles, ExternalLink } from 'lucide-react';
+import { NotebookItem, NotebookItemKind } from '../types';
+import {
+  NotebookFilter, NotebookSort, EMPTY_NOTEBOOK_FILTER, filterNotebook, notebookTags, parseTags,
+} from '../services/notebookService';
+
+interface NotebookPageProps {
+  items: NotebookItem[];
+  onUpdate: (id: string, patch: Partial<Pick<NotebookItem, 'tags' | 'note'>>) => void;
+  onDelete: (ids: string[]) => void;
+  onLookup: (word: string, source?: string) => void;
+}
+
+const KINDS: { kind: NotebookItemKind | 'all'; label: string }[] = [
+  { kind: 'all', label: '全部' },
+  { kind: 'word', label: '单词' },
+  { kind: 'definition', label: '释义' },
+  { kind: 'collocation', label: '搭配' },
+];
+
+const KIND_LABELS: Record<NotebookItemKind, string> = { word: '单词', definition: '释义', collocation: '搭配' };
+
+const SORTS: { sort: NotebookSort; label: string }[] = [
+  { sort: 'newest', label: '最近添加' },
+  { sort: 'oldest', label: '最早添加' },
+  { sort: 'alphabetical', label: '按字母' },
+];
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString('zh-CN', {
+  year: 'numeric', month: 'numeric', day: 'numeric',
+});
+
+const itemTitle = (item: NotebookItem) => item.phrase || item.word;
+
+const NotebookCard: React.FC<{
+  item: NotebookItem;
+  selected: boolean;
+  onSelect: (selected: boolean) => void;
+  onUpdate: NotebookPageProps['onUpdate'];
+  onDelete: () => void;
+  onLookup: () => void;
+}> = ({ item, selected, onSelect, onUpdate, onDelete, onLookup }) => {
+  const [tagInput, setTagInput] = useState('');
+
+  const addTags = () => {
+    const tags = parseTags(tagInput);
+    if (tags.length) onUpdate(item.id, { tags: [...new Set([...item.tags, ...tags])] });
+    setTagInput('');
+  };
+
+  return (
+    <li className={`bg-white rounded-2xl border shadow-sm p-4 flex gap-3 transition-colors ${selected ? 'border-pink-300' : 'border-slate-100'}`}>
+      <input
+        type="checkbox"
+        checked={selected}
+        onChange={(e) => onSelect(e.target.checked)}
+        aria-label={`选择 ${itemTitle(item)}`}
+        className="mt-1.5 accent-pink-600 shrink-0"
+      />
+      <div className="flex-1 min-w-0 space-y-2">
+        <div className="flex flex-wrap items-baseline gap-2">
+          <span className="font-serif text-xl font-bold text-slate-800">{itemTitle(item)}</span>
+          {item.kind !== 'collocation' && item.phonetic && <span className="text-sm text-slate-400">{item.phonetic}</span>}
+          <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-pink-50 text-pink-600">{KIND_LABELS[item.kind]}</span>
+          {item.partOfSpeech && <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-slate-900 text-white uppercase">{item.partOfSpeech}</span>}
+          {item.kind === 'collocation' && <span className="text-xs text-slate-400">{item.word}</span>}
+        </div>
+
+        <p className="text-slate-700 font-medium">{item.meaning}</p>
+        {item.explanation && <p className="text-sm text-slate-500">{item.explanation}</p>}
+        {item.example && (
+          <div className="bg-slate-50 rounded-lg px-3 py-2 border border-slate-100">
+            <p className="font-serif text-slate-700 text-sm">{item.example}</p>
+            {item.exampleTranslation && (
+              <p className="text-xs text-slate-400 flex items-start gap-1.5 mt-1">
+                <Sparkles className="w-3 h-3 mt-0.5 text-pink-400 shrink-0" />{item.exampleTranslation}
+              </p>
+            )}
+          </div>
+        )}
+        {item.source && (
+          <p className="text-sm text-slate-600 flex items-start gap-1.5">
+            <Quote className="w-3.5 h-3.5 mt-0.5 text-amber-400 shrink-0" />
+            <span className="font-serif">{item.source}</span>
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-1.5">
+          {item.tags.map(tag => (
+            <span key={tag} className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-violet-50 text-violet-700">
+              {tag}
+              <button onClick={() => onUpdate(item.id, { tags: item.tags.filter(t => t !== tag) })} title={`移除标签 ${tag}`} className="text-violet-300 hover:text-violet-600">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <span className="flex items-center gap-1 text-xs text-slate-400">
+            <Tag className="w-3 h-3" />
+            <input
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && !e.nativeEvent.isComposing) addTags(); }}
+              onBlur={addTags}
+              placeholder="添加标签"
+              aria-label={`${itemTitle(item)} 标签`}
+              className="w-24 bg-transparent outline-none placeholder:text-slate-300 text-slate-600"
+            />
+          </span>
+        </div>
+
+        <textarea
+          defaultValue={item.note}
+          onBlur={(e) => { if (e.target.value !== item.note) onUpdate(item.id, { note: e.target.value }); }}
+          placeholder="写点笔记…"
+          aria-label={`${itemTitle(item)} 笔记`}
+          rows={item.note ? 2 : 1}
+          className="w-full text-sm px-3 py-1.5 rounded-lg bg-amber-50/40 border border-amber-100 focus:border-amber-300 outline-none resize-y text-slate-700 placeholder:text-slate-300"
+        />
+
+        <div className="flex items-center gap-3 text-[10px] text-slate-400">
+          <span className="flex items-center gap-1"><Clock className="w-3 h-3" />{formatDate(item.addedAt)}</span>
+          <button onClick={onLookup} className="flex items-center gap-1 hover:text-pink-600 transition-colors">
+            <ExternalLink className="w-3 h-3" /> 在词典中查看
+          </button>
+          <button onClick={onDelete} className="ml-auto flex items-center gap-1 hover:text-red-500 transition-colors" title="删除">
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+};
+
+export const NotebookPage: React.FC<NotebookPageProps> = ({ items, onUpdate, onDelete, onLookup }) => {
+  const [filter, setFilter] = useState<NotebookFilter>(EMPTY_NOTEBOOK_FILTER);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const tags = useMemo(() => notebookTags(items), [items]);
+  const visible = useMemo(() => filterNotebook(items, filter), [items, filter]);
+
+  // Only visible items count as selected, so a filter change can't delete hidden ones
+  const selectedVisible = visible.filter(item => selected.has(item.id));
+  const allSelected = visible.length > 0 && selectedVisible.length === visible.length;
+
+  const update = (patch: Partial<NotebookFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  const select = (id: string, on: boolean) => setSelected(prev => {
+    const next = new Set(prev);
+    if (on) next.add(id); else next.delete(id);
+    return next;
+  });
+
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(visible.map(item => item.id)));
+
+  const deleteSelected = () => {
+    if (!window.confirm(`确定要删除选中的 ${selectedVisible.length} 条吗？`)) return;
+    onDelete(selectedVisible.map(item => item.id));
+    setSelected(new Set());
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-6 animate-fade-in">
+      <div className="text-center space-y-3 mb-2">
+        <div className="inline-flex items-center justify-center p-2 bg-pink-50 rounded-full text-pink-600">
+          <NotebookPen className="w-5 h-5 mr-2" />
+          <span className="text-sm font-medium">生词本</span>
+        </div>
+        <h1 className="text-3xl font-bold tracking-tight text-slate-900 font-serif">我的生词本</h1>
+        <p className="text-slate-500">在词典中点击书签即可收藏单词、释义和搭配，可添加标签和笔记。</p>
+      </div>
+
+      {/* Filters */}
+      <section className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3">
+        <div className="relative">
+          <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={filter.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="搜索单词、释义、例句或笔记..."
+            className="w-full pl-9 pr-3 py-2 rounded-lg border border-slate-200 text-sm outline-none focus:border-pink-300 focus:ring-2 focus:ring-pink-100"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex gap-1 p-1 bg-slate-100 rounded-lg">
+            {KINDS.map(({ kind, label }) => (
+              <button
+                key={kind}
+                onClick={() => update({ kind })}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${
+                  filter.kind === kind ? 'bg-white text-pink-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {tags.length > 0 && (
+            <select
+              value={filter.tag}
+              onChange={(e) => update({ tag: e.target.value })}
+              className="px-2 py-1.5 rounded-lg border border-slate-200 text-xs text-slate-600 bg-white outline-none max-w-[12rem]"
+              aria-label="标签"
+            >
+              <option value="">全部标签</option>
+              {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+          )}
+          <select
+            value={filter.sort}
+            onChange={(e) => update({ sort: e.target.value as NotebookSort })}
+            className="px-2 py-1.5 rounded-lg border border-slate-200 text-xs text-slate-600 bg-white outline-none"
+            aria-label="排序"
+          >
+            {SORTS.map(({ sort, label }) => <option key={sort} value={sort}>{label}</option>)}
+          </select>
+          {visible.length > 0 && (
+            <div className="ml-auto flex items-center gap-3">
+              <label className="flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer">
+                <input type="checkbox" checked={allSelected} onChange={toggleAll} className="accent-pink-600" />
+                全选
+              </label>
+              <button
+                onClick={deleteSelected}
+                disabled={!selectedVisible.length}
+                className="flex items-center gap-1 text-xs text-slate-400 hover:text-red-500 disabled:opacity-40 disabled:hover:text-slate-400 transition-colors"
+              >
+                <Trash2 className="w-3.5 h-3.5" /> 删除所选（{selectedVisible.length}）
+              </button>
+            </div>
+          )}
+        </div>
+      </section>
+
+      {visible.length > 0 ? (
+        <ul className="space-y-3">
+          {visible.map(item => (
+            <NotebookCard
+              key={item.id}
+              item={item}
+              selected={selected.has(item.id)}
+              onSelect={(on) => select(item.id, on)}
+              onUpdate={onUpdate}
+              onDelete={() => onDelete([item.id])}
+              onLookup={() => onLookup(item.word, item.source)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <div className="text-center py-12 opacity-40 flex flex-col items-center">
+          <NotebookPen className="w-16 h-16 mb-4 text-slate-300" />
+          <p>{items.length ? '没有符合条件的条目。' : '生词本还是空的。'}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useState, useRef } from 'react';
+import { HardDrive, Upload, Trash2, Loader2 } from 'lucide-react';
+import {
+  OfflineDictionaryInfo, loadOfflineDictionaryInfo, importOfflineDictionary, clearOfflineDictionary,
+} from '../services/offlineDictionary';
+import { toServiceError } from '../services/errors';
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString('zh-CN', {
+  year: 'numeric', month: 'numeric', day: 'numeric',
+});
+
+// Imports an ECDICT-style CSV that the dictionary then answers from before asking the model
+export const OfflineDictionarySettings: React.FC = () => {
+  const [info, setInfo] = useState<OfflineDictionaryInfo | null>(loadOfflineDictionaryInfo);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMessage(null);
+    setProgress(0);
+    try {
+      const count = await importOfflineDictionary(await file.text(), file.name, setProgress);
+      setInfo(loadOfflineDictionaryInfo());
+      setMessage(`已从 ${file.name} 导入 ${count.toLocaleString()} 个词条`);
+    } catch (err) {
+      setMessage(toServiceError(err).message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('确定要删除已导入的离线词典吗？')) return;
+    try {
+      await clearOfflineDictionary();
+      setInfo(null);
+      setMessage('离线词典已删除');
+    } catch (err) {
+      setMessage(toServiceError(err).message);
+    }
+  };
+
+  const busy = progress !== null;
+
+  return (
+    <section className="bg-white p-6 rounded-2xl border border-slate-100 shadow-sm space-y-3" aria-label="离线词典">
+      <h2 className="font-bold text-slate-800 flex items-center gap-2">
+        <HardDrive className="w-4 h-4 text-sky-500" /> 离线词典
+      </h2>
+      <p className="text-sm text-slate-500">
+        导入 ECDICT 格式的 CSV 词典后，查词优先从本地返回，不消耗 API 额度；词典中没有的词和短语仍由 AI 生成。
+      </p>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => fileRef.current?.click()}
+          disabled={busy}
+          className="flex items-center gap-1.5 px-4 py-2 rounded-xl text-sm font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 disabled:opacity-50 transition-colors"
+        >
+          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          {busy ? `已导入 ${progress.toLocaleString()} 条…` : '导入 CSV'}
+        </button>
+        <input ref={fileRef} type="file" accept="text/csv,.csv" onChange={handleImport} className="hidden" data-testid="offline-dictionary-import" />
+        {info && (
+          <>
+            <span className="text-xs text-slate-400">
+              {info.fileName} · {info.count.toLocaleString()} 个词条 · {formatDate(info.importedAt)}
+            </span>
+            <button
+              onClick={handleClear}
+              disabled={busy}
+              className="ml-auto flex items-center gap-1 text-xs text-slate-400 hover:text-red-500 disabled:opacity-40 transition-colors"
+            >
+              <Trash2 className="w-3.5 h-3.5" /> 删除离线词典
+            </button>
+          </>
+        )}
+      </div>
+      {message && <p className="text-xs text-slate-500">{message}</p>}
+    </section>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { FileCode2, X, Copy, Check } from 'lucide-react';
+import { AppTab, WritingMode } from '../types';
+import { PROMPT_TEMPLATES, PromptId, renderPrompt, promptVersion, WRITING_MODE_INSTRUCTIONS, CHAT_CONTEXT_LABELS } from '../services/prompts';
+
+// --- Dev-only Prompt Preview ---
+// Shows exactly what would be sent to the model for the current input. Rendered only
+// when the build sets PROMPT_PREVIEW (on by default under `npm run dev`).
+
+export const isPromptPreviewEnabled = () => process.env.PROMPT_PREVIEW === 'true';
+
+interface PromptPreviewProps {
+  activeTab: AppTab;
+  sentence: string;
+  word: string;
+  writingText: string;
+  writingMode?: WritingMode;
+}
+
+const TAB_TEMPLATES: Partial<Record<AppTab, PromptId>> = {
+  analyzer: 'analyzeSentence',
+  dictionary: 'lookupWord',
+  writing: 'evaluateWriting',
+};
+
+export const PromptPreview: React.FC<PromptPreviewProps> = ({ activeTab, sentence, word, writingText, writingMode = 'fix' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [templateId, setTemplateId] = useState<PromptId>('analyzeSentence');
+  const [vars, setVars] = useState<Record<string, string>>({});
+  const [copied, setCopied] = useState(false);
+
+  // Pre-fill the variables from whatever the user is working on
+  const defaultVars = (id: PromptId): Record<string, string> => {
+    switch (id) {
+      case 'analyzeSentence': return { sentence };
+      case 'lookupWord': return { word, contextSection: '' };
+      case 'evaluateWriting': return { modeInstructions: WRITING_MODE_INSTRUCTIONS[writingMode], text: writingText };
+      case 'chatAssistant': return {
+        contextLabel: CHAT_CONTEXT_LABELS.sentence.label,
+        context: sentence || CHAT_CONTEXT_LABELS.sentence.empty,
+        summarySection: '',
+      };
+      default:
+        return Object.fromEntries(Object.keys(PROMPT_TEMPLATES[id].vars).map(name => [name, '']));
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const id = TAB_TEMPLATES[activeTab] || templateId;
+    setTemplateId(id);
+    setVars(defaultVars(id));
+  }, [isOpen, activeTab, sentence, word, writingText, writingMode]);
+
+  const selectTemplate = (id: PromptId) => {
+    setTemplateId(id);
+    setVars(defaultVars(id));
+  };
+
+  const preview = useMemo(() => {
+    try {
+      return { text: renderPrompt(templateId, vars), error: null };
+    } catch (err: any) {
+      return { text: '', error: err.message as string };
+    }
+  }, [templateId, vars]);
+
+  const copyPrompt = () => {
+    navigator.clipboard.writeText(preview.text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-6 left-6 z-40 flex items-center gap-1.5 px-3 py-2 rounded-full bg-slate-800 text-white text-xs font-mono shadow-lg hover:bg-slate-700 transition-colors"
+        title="预览提示词 (仅开发环境)"
+      >
+        <FileCode2 className="w-4 h-4" /> Prompt
+      </button>
+    );
+  }
+
+  const template = PROMPT_TEMPLATES[templateId];
+
+  return (
+    <div className="fixed bottom-6 left-6 z-40 w-[min(42rem,calc(100vw-3rem))] max-h-[80vh] flex flex-col bg-slate-900 text-slate-100 rounded-2xl shadow-2xl border border-slate-700 overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-700 shrink-0">
+        <FileCode2 className="w-4 h-4 text-pink-400" />
+        <select
+          value={templateId}
+          onChange={(e) => selectTemplate(e.target.value as PromptId)}
+          className="bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-xs font-mono outline-none"
+        >
+          {(Object.keys(PROMPT_TEMPLATES) as PromptId[]).map(id => (
+            <option key={id} value={id}>{id}</option>
+          ))}
+        </select>
+        <span className="text-[10px] font-mono text-slate-400">{promptVersion(templateId)}</span>
+        <span className="text-[10px] text-slate-500 truncate">{template.description}</span>
+        <div className="ml-auto flex items-center gap-1">
+          <button onClick={copyPrompt} disabled={!preview.text} className="p-1.5 rounded-md hover:bg-slate-700 disabled:opacity-30" title="复制">
+            {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+          </button>
+          <button onClick={() => setIsOpen(false)} className="p-1.5 rounded-md hover:bg-slate-700" title="关闭">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="px-4 py-3 space-y-2 border-b border-slate-700 shrink-0 max-h-48 overflow-y-auto">
+        {Object.entries(template.vars).map(([name, kind]) => (
+          <label key={name} className="block">
+            <span className="text-[10px] font-mono text-slate-400">
+              {name} <span className={kind === 'input' ? 'text-amber-400' : 'text-sky-400'}>({kind})</span>
+            </span>
+            <textarea
+              value={vars[name] ?? ''}
+              onChange={(e) => setVars(prev => ({ ...prev, [name]: e.target.value }))}
+              rows={kind === 'input' ? 2 : 1}
+              className="w-full mt-0.5 bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-xs font-mono outline-none focus:border-pink-400 resize-y"
+            />
+          </label>
+        ))}
+        {Object.keys(template.vars).length === 0 && (
+          <p className="text-xs text-slate-500">该模板没有变量。</p>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3">
+        {preview.error ? (
+          <p className="text-xs text-red-400 font-mono">{preview.error}</p>
+        ) : (
+          <pre className="text-xs font-mono whitespace-pre-wrap break-words text-slate-200">{preview.text}</pre>
+        )}
+      </div>
+      <div className="px-4 py-2 border-t border-slate-700 text-[10px] text-slate-500 font-mono shrink-0">
+        {preview.text.length} chars
+      </div>
+    </div>
+  );
+};
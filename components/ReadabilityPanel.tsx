@@ -0,0 +1,162 @@
+import React, { useMemo } from 'react';
+import { Gauge, ArrowRight } from 'lucide-react';
+import { analyzeReadability, readingEaseLabel, CefrLevel, CEFR_LEVELS, ReadabilityStats } from '../services/readability';
+
+const LEVEL_STYLES: Record<CefrLevel, string> = {
+  A1: 'bg-emerald-100 text-emerald-700',
+  A2: 'bg-lime-100 text-lime-700',
+  B1: 'bg-sky-100 text-sky-700',
+  B2: 'bg-amber-100 text-amber-700',
+  C1: 'bg-rose-100 text-rose-700',
+};
+
+const levelLabel = (level: CefrLevel) => level === 'C1' ? 'C1+' : level;
+
+const LevelBadge: React.FC<{ level: CefrLevel; className?: string }> = ({ level, className = '' }) => (
+  <span className={`inline-flex items-center px-1.5 py-0.5 rounded-md text-xs font-bold ${LEVEL_STYLES[level]} ${className}`}>
+    {levelLabel(level)}
+  </span>
+);
+
+// Share of rated words at each level, as one stacked bar
+const LevelBar: React.FC<{ counts: Record<CefrLevel, number> }> = ({ counts }) => {
+  const total = CEFR_LEVELS.reduce((sum, level) => sum + counts[level], 0);
+  if (!total) return null;
+  return (
+    <div className="flex h-2 rounded-full overflow-hidden bg-slate-100" title={CEFR_LEVELS.map(l => `${levelLabel(l)}: ${counts[l]}`).join('  ')}>
+      {CEFR_LEVELS.map(level => counts[level] > 0 && (
+        <div key={level} className={LEVEL_STYLES[level].split(' ')[0]} style={{ width: `${(counts[level] / total) * 100}%` }} />
+      ))}
+    </div>
+  );
+};
+
+// The text with every rare word marked with its level
+const HighlightedText: React.FC<{ text: string; stats: ReadabilityStats }> = ({ text, stats }) => {
+  const rare = new Map(stats.rareWords.map(w => [w.word.toLowerCase(), w.level]));
+  return (
+    <p className="font-serif text-slate-700 leading-relaxed">
+      {text.split(/([A-Za-z]+(?:['’][A-Za-z]+)*)/).map((part, i) => {
+        const level = rare.get(part.toLowerCase());
+        return level
+          ? <mark key={i} className={`rounded px-0.5 ${LEVEL_STYLES[level]}`} title={levelLabel(level)}>{part}</mark>
+          : <React.Fragment key={i}>{part}</React.Fragment>;
+      })}
+    </p>
+  );
+};
+
+const Metric: React.FC<{ label: string; value: React.ReactNode; hint?: string }> = ({ label, value, hint }) => (
+  <div className="flex flex-col gap-0.5" title={hint}>
+    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</span>
+    <span className="text-sm font-bold text-slate-700">{value}</span>
+  </div>
+);
+
+const Metrics: React.FC<{ stats: ReadabilityStats }> = ({ stats }) => (
+  <div className="grid grid-cols-3 sm:grid-cols-6 gap-3">
+    <Metric label="词汇等级" value={<LevelBadge level={stats.cefr} />} hint="90% 的单词处于该等级或以下" />
+    <Metric label="Flesch 易读度" value={`${stats.fleschReadingEase} · ${readingEaseLabel(stats.fleschReadingEase)}`} />
+    <Metric label="FK 年级" value={stats.fleschKincaidGrade} hint="Flesch-Kincaid Grade Level" />
+    <Metric label="词数 / 音节" value={`${stats.words} / ${stats.syllables}`} />
+    <Metric label="平均句长" value={stats.avgSentenceLength} />
+    <Metric label="平均从句长" value={stats.avgClauseLength} hint="按从属连词、关系词和并列连词估算" />
+  </div>
+);
+
+// Difficulty of one sentence or text, with its rare words highlighted
+export const ReadabilityCard: React.FC<{ text: string }> = ({ text }) => {
+  const stats = useMemo(() => analyzeReadability(text), [text]);
+
+  return (
+    <div className="bg-white border border-slate-100 shadow-lg shadow-slate-200/30 rounded-[2rem] p-8 space-y-5">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 rounded-xl bg-sky-50 flex items-center justify-center text-sky-600">
+          <Gauge className="w-6 h-6" />
+        </div>
+        <div>
+          <h3 className="font-bold text-slate-800 text-xl">难度指标</h3>
+          <p className="text-slate-400 text-sm">本地计算的易读度与 CEFR 词汇等级，仅供参考</p>
+        </div>
+      </div>
+      <Metrics stats={stats} />
+      <LevelBar counts={stats.levelCounts} />
+      {stats.rareWords.length > 0 && <HighlightedText text={text} stats={stats} />}
+    </div>
+  );
+};
+
+const Delta: React.FC<{ before: number; after: number; higherIsHarder?: boolean }> = ({ before, after, higherIsHarder = true }) => {
+  const diff = Math.round((after - before) * 10) / 10;
+  if (!diff) return <span className="text-slate-400">±0</span>;
+  const harder = higherIsHarder ? diff > 0 : diff < 0;
+  return <span className={harder ? 'text-indigo-600' : 'text-green-600'}>{diff > 0 ? `+${diff}` : diff}</span>;
+};
+
+// Original essay next to its revision, so the change in level is visible
+export const ReadabilityComparison: React.FC<{ original: string; revised: string }> = ({ original, revised }) => {
+  const before = useMemo(() => analyzeReadability(original), [original]);
+  const after = useMemo(() => analyzeReadability(revised), [revised]);
+
+  const rows: { label: string; key: 'fleschReadingEase' | 'fleschKincaidGrade' | 'avgSentenceLength' | 'avgClauseLength' | 'words'; higherIsHarder?: boolean }[] = [
+    { label: 'Flesch 易读度', key: 'fleschReadingEase', higherIsHarder: false },
+    { label: 'FK 年级', key: 'fleschKincaidGrade' },
+    { label: '平均句长', key: 'avgSentenceLength' },
+    { label: '平均从句长', key: 'avgClauseLength' },
+    { label: '词数', key: 'words' },
+  ];
+
+  const newRare = after.rareWords.filter(w => !before.rareWords.some(b => b.word.toLowerCase() === w.word.toLowerCase()));
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-5 space-y-4" aria-label="难度对比">
+      <h4 className="flex items-center gap-2 text-sm font-bold text-slate-700">
+        <Gauge className="w-4 h-4 text-sky-500" /> 难度对比
+      </h4>
+
+      <div className="flex items-center gap-3 text-sm">
+        <span className="text-slate-500">词汇等级</span>
+        <LevelBadge level={before.cefr} />
+        <ArrowRight className="w-4 h-4 text-slate-300" />
+        <LevelBadge level={after.cefr} />
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-slate-400">
+            <th className="text-left font-medium pb-1"></th>
+            <th className="text-right font-medium pb-1">原文</th>
+            <th className="text-right font-medium pb-1">修改后</th>
+            <th className="text-right font-medium pb-1">变化</th>
+          </tr>
+        </thead>
+        <tbody className="text-slate-700">
+          {rows.map(({ label, key, higherIsHarder }) => (
+            <tr key={key} className="border-t border-slate-50">
+              <td className="py-1.5 text-slate-500">{label}</td>
+              <td className="py-1.5 text-right">{before[key]}</td>
+              <td className="py-1.5 text-right font-bold">{after[key]}</td>
+              <td className="py-1.5 text-right font-bold"><Delta before={before[key]} after={after[key]} higherIsHarder={higherIsHarder} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="space-y-1.5">
+        <LevelBar counts={before.levelCounts} />
+        <LevelBar counts={after.levelCounts} />
+      </div>
+
+      {newRare.length > 0 && (
+        <div className="space-y-1.5">
+          <p className="text-xs text-slate-500">修改后新增的高阶词汇</p>
+          <div className="flex flex-wrap gap-1.5">
+            {newRare.map(({ word, level }) => (
+              <span key={word} className={`px-2 py-0.5 rounded-md text-xs font-medium ${LEVEL_STYLES[level]}`} title={levelLabel(level)}>{word}</span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,17 +1,37 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { AnalysisResult, AnalysisChunk, Correction } from '../types';
-import { Volume2, Copy, BookOpen, Loader2, Sparkles, AlertTriangle, CheckCircle2, GitMerge, Clock } from 'lucide-react';
+import { AnalysisResult, AnalysisChunk, Correction, SyntaxNode, ClauseBreakdown } from '../types';
+import { Volume2, Copy, BookOpen, Loader2, Sparkles, AlertTriangle, CheckCircle2, GitMerge, Clock, RefreshCw, Network, Layers, GraduationCap } from 'lucide-react';
+import { SyntaxTree, linkedIndices } from './SyntaxTree';
+import { ShareButton } from './ShareButton';
+import { ExportMenu } from './ExportMenu';
+import { GrammarQuiz } from './GrammarQuiz';
+import { ReadabilityCard } from './ReadabilityPanel';
 import { generateSpeech } from '../services/geminiService';
+import { isCancelled } from '../services/errors';
+import { analysisExport } from '../services/exportService';
 
 interface ResultDisplayProps {
   result: AnalysisResult;
   compact?: boolean;
+  onRegenerate?: () => void;  // Re-run the analysis, bypassing the cache
+  readOnly?: boolean;         // Opened from a share link: no audio pre-fetch, no share button
+  onLookup?: (text: string, sentence: string) => void;  // Chunks and tokens link to the dictionary
 }
 
-export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, compact = false }) => {
+export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, compact = false, onRegenerate, readOnly = false, onLookup }) => {
   const [isAudioPlaying, setIsAudioPlaying] = useState(false);
   const [isAudioLoading, setIsAudioLoading] = useState(false);
+  // Syntax tree node under the pointer; its chunks and token cards are highlighted too
+  const [highlightedNode, setHighlightedNode] = useState<SyntaxNode | null>(null);
+  const highlighted = linkedIndices(highlightedNode);
+  // Quiz mode hides every label the learner is asked to fill in
+  const [isQuizMode, setIsQuizMode] = useState(false);
+  const showAnswers = !isQuizMode;
+
+  useEffect(() => {
+    setIsQuizMode(false);
+  }, [result]);
   
   // Cache audio buffer for the current sentence
   const audioCacheRef = useRef<AudioBuffer | null>(null);
@@ -35,10 +55,13 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, compact =
     audioCacheRef.current = null;
     audioPromiseRef.current = null;
     currentSentenceRef.current = result.englishSentence;
+    // A shared result shouldn't cost the viewer a TTS call until they press play
+    if (readOnly) return;
+    const controller = new AbortController();
 
     const prefetchAudio = async () => {
         try {
-            const promise = generateSpeech(result.englishSentence);
+            const promise = generateSpeech(result.englishSentence, { signal: controller.signal });
             audioPromiseRef.current = promise;
             
             const buffer = await promise;
@@ -48,13 +71,16 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, compact =
                 audioCacheRef.current = buffer;
             }
         } catch (err) {
-            console.error("Audio pre-fetch failed:", err);
+            if (!isCancelled(err)) console.error("Audio pre-fetch failed:", err);
         }
     };
 
     prefetchAudio();
 
-  }, [result.englishSentence]);
+    // Stop the pre-fetch if the sentence changes before it finishes
+    return () => controller.abort();
+
+  }, [result.englishSentence, readOnly]);
 
   const playAudio = async () => {
     if (isAudioPlaying) return;
@@ -135,20 +161,22 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, compact =
                     </div>
                     
                     {/* Sentence Tags: Pattern & Tense */}
-                    <div className="flex flex-wrap gap-2 mt-3">
-                        {result.sentencePattern && (
-                            <div className="inline-flex items-center gap-1.5 px-2 py-0.5 rounded-md bg-indigo-50 border border-indigo-100 text-indigo-700 text-[10px] md:text-xs font-bold shadow-sm">
-                                <GitMerge className="w-3 h-3" />
-                                <span>{result.sentencePattern}</span>
-                            </div>
-                        )}
-                        {result.mainTense && (
-                            <div className="inline-flex items-center gap-1.5 px-2 py-0.5 rounded-md bg-teal-50 border border-teal-100 text-teal-700 text-[10px] md:text-xs font-bold shadow-sm">
-                                <Clock className="w-3 h-3" />
-                                <span>{result.mainTense}</span>
-                            </div>
-                        )}
-                    </div>
+                    {showAnswers && (
+                        <div className="flex flex-wrap gap-2 mt-3">
+                            {result.sentencePattern && (
+                                <div className="inline-flex items-center gap-1.5 px-2 py-0.5 rounded-md bg-indigo-50 border border-indigo-100 text-indigo-700 text-[10px] md:text-xs font-bold shadow-sm">
+                                    <GitMerge className="w-3 h-3" />
+                                    <span>{result.sentencePattern}</span>
+                                </div>
+                            )}
+                            {result.mainTense && (
+                                <div className="inline-flex items-center gap-1.5 px-2 py-0.5 rounded-md bg-teal-50 border border-teal-100 text-teal-700 text-[10px] md:text-xs font-bold shadow-sm">
+                                    <Clock className="w-3 h-3" />
+                                    <span>{result.mainTense}</span>
+                                </div>
+                            )}
+                        </div>
+                    )}
                 </div>
 
                 <div className="flex items-center gap-2 self-start md:self-center">
@@ -160,6 +188,34 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, compact =
                         {isAudioLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Volume2 className={`w-3 h-3 ${isAudioPlaying ? 'animate-pulse' : ''}`} />}
                         <span>{isAudioLoading ? '加载...' : '朗读'}</span>
                     </button>
+                    {!compact && (
+                        <button
+                            onClick={() => setIsQuizMode(on => !on)}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full font-medium transition-all text-xs ${isQuizMode ? 'bg-pink-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-pink-50 hover:text-pink-600'}`}
+                            title="语法练习"
+                            aria-pressed={isQuizMode}
+                        >
+                            <GraduationCap className="w-3.5 h-3.5" />
+                            <span>{isQuizMode ? '查看解析' : '练习'}</span>
+                        </button>
+                    )}
+                    {!compact && onRegenerate && (
+                        <button onClick={onRegenerate} className="p-2.5 rounded-full bg-slate-100 text-slate-500 hover:bg-slate-200 hover:text-slate-700 transition-all" title="重新分析">
+                            <RefreshCw className="w-4 h-4" />
+                        </button>
+                    )}
+                    {!compact && !readOnly && (
+                        <ShareButton
+                            snapshot={{ tab: 'analyzer', result }}
+                            className="p-2.5 rounded-full bg-slate-100 text-slate-500 hover:bg-slate-200 hover:text-slate-700 transition-all"
+                        />
+                    )}
+                    {!compact && (
+                        <ExportMenu
+                            document={() => analysisExport(result)}
+                            className="p-2.5 rounded-full bg-slate-100 text-slate-500 hover:bg-slate-200 hover:text-slate-700 transition-all"
+                        />
+                    )}
                     {!compact && (
                         <button onClick={copyToClipboard} className="p-2.5 rounded-full bg-slate-100 text-slate-500 hover:bg-slate-200 hover:text-slate-700 transition-all" title="复制">
                             <Copy className="w-4 h-4" />
@@ -169,83 +225,138 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ result, compact =
              </div>
         </div>
 
+        {/* Quiz: the chunks again, with their labels to fill in */}
+        {isQuizMode && (
+            <div className="bg-white p-8 md:p-12">
+                <GrammarQuiz result={result} />
+            </div>
+        )}
+
         {/* Main Visualizer (Chunks) */}
-        <div className={`flex flex-col justify-center items-center bg-white ${compact ? 'p-6 overflow-x-auto' : 'p-8 md:p-16'}`}>
-            <div className={`flex flex-wrap items-start justify-center leading-none ${compact ? 'gap-x-4 gap-y-8' : 'gap-x-8 gap-y-14'}`}>
-                {result.chunks.map((chunk, index) => (
-                    <ChunkColumn key={index} chunk={chunk} compact={compact} />
-                ))}
+        {showAnswers && (
+            <div className={`flex flex-col justify-center items-center bg-white ${compact ? 'p-6 overflow-x-auto' : 'p-8 md:p-16'}`}>
+                <div className={`flex flex-wrap items-start justify-center leading-none ${compact ? 'gap-x-4 gap-y-8' : 'gap-x-8 gap-y-14'}`}>
+                    {result.chunks.map((chunk, index) => (
+                        <ChunkColumn
+                            key={index}
+                            chunk={chunk}
+                            compact={compact}
+                            highlighted={highlighted.chunks.has(index)}
+                            onLookup={onLookup && (() => onLookup(chunk.text, result.englishSentence))}
+                        />
+                    ))}
+                </div>
             </div>
-        </div>
+        )}
+
+        {/* Syntax Tree */}
+        {result.syntaxTree && !compact && showAnswers && (
+            <div className="border-t border-slate-100 px-4 md:px-8 py-6">
+                <div className="flex items-center justify-between gap-4 mb-2 px-2">
+                    <h3 className="text-xs font-bold text-indigo-500 uppercase tracking-widest flex items-center gap-1.5">
+                        <Network className="w-4 h-4" /> 句法树
+                    </h3>
+                    <span className="text-xs text-slate-400">点击节点折叠/展开，悬停可高亮对应意群与词卡</span>
+                </div>
+                <SyntaxTree root={result.syntaxTree} highlightedId={highlightedNode?.id ?? null} onHighlight={setHighlightedNode} />
+            </div>
+        )}
       </div>
 
+      {/* Long Sentence Breakdown (Conditional) */}
+      {result.clauseBreakdown && !compact && showAnswers && (
+          <ClauseBreakdownCard breakdown={result.clauseBreakdown} pattern={result.sentencePattern} tense={result.mainTense} />
+      )}
+
+      {/* Readability & CEFR level */}
+      {!compact && showAnswers && <ReadabilityCard text={result.englishSentence} />}
+
       {/* Detailed Breakdown Table (Lexical Units) */}
-      <div className={`bg-white border border-slate-100 shadow-lg shadow-slate-200/30 ${compact ? 'rounded-2xl p-4' : 'rounded-[2rem] p-8'}`}>
-         <div className={`flex items-center gap-3 border-b border-slate-100 ${compact ? 'mb-4 pb-2' : 'mb-8 pb-4'}`}>
-            <div className={`rounded-xl bg-pink-50 flex items-center justify-center text-pink-600 ${compact ? 'w-8 h-8' : 'w-10 h-10'}`}>
-                <BookOpen className={`${compact ? 'w-4 h-4' : 'w-6 h-6'}`} />
-            </div>
-            <div>
-                <h3 className={`font-bold text-slate-800 ${compact ? 'text-sm' : 'text-xl'}`}>逐词/意群详解</h3>
-                {!compact && <p className="text-slate-400 text-sm">深入理解重点词组与固定搭配</p>}
-            </div>
-         </div>
+      {showAnswers && (
+        <div className={`bg-white border border-slate-100 shadow-lg shadow-slate-200/30 ${compact ? 'rounded-2xl p-4' : 'rounded-[2rem] p-8'}`}>
+           <div className={`flex items-center gap-3 border-b border-slate-100 ${compact ? 'mb-4 pb-2' : 'mb-8 pb-4'}`}>
+              <div className={`rounded-xl bg-pink-50 flex items-center justify-center text-pink-600 ${compact ? 'w-8 h-8' : 'w-10 h-10'}`}>
+                  <BookOpen className={`${compact ? 'w-4 h-4' : 'w-6 h-6'}`} />
+              </div>
+              <div>
+                  <h3 className={`font-bold text-slate-800 ${compact ? 'text-sm' : 'text-xl'}`}>逐词/意群详解</h3>
+                  {!compact && <p className="text-slate-400 text-sm">深入理解重点词组与固定搭配</p>}
+              </div>
+           </div>
          
-         <div className={`grid gap-4 ${compact ? 'grid-cols-1' : 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3'}`}>
-            {result.detailedTokens.map((token, idx) => (
-                <div key={idx} className="group flex flex-col bg-slate-50/50 rounded-2xl border border-slate-100 hover:border-pink-200 hover:bg-white hover:shadow-xl hover:shadow-pink-100/20 transition-all duration-300 overflow-hidden">
-                    {/* Card Header */}
-                    <div className={`border-b border-slate-100/50 group-hover:border-pink-50 ${compact ? 'p-3' : 'p-5'}`}>
-                        <div className="flex justify-between items-start mb-1 gap-2">
-                            <span className={`font-serif text-slate-800 font-medium tracking-tight leading-tight break-words ${compact ? 'text-lg' : 'text-2xl'}`}>{token.text}</span>
-                            <span className="flex-shrink-0 px-2 py-1 rounded-md bg-slate-200 text-slate-500 text-[10px] font-bold uppercase tracking-wider group-hover:bg-pink-100 group-hover:text-pink-600 transition-colors">
-                                {token.partOfSpeech}
-                            </span>
-                        </div>
-                        <div className={`text-pink-600 font-medium mt-1 ${compact ? 'text-sm' : 'text-base'}`}>
-                            {token.meaning}
-                        </div>
-                    </div>
+           <div className={`grid gap-4 ${compact ? 'grid-cols-1' : 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3'}`}>
+              {result.detailedTokens.map((token, idx) => (
+                  <div key={idx} data-highlighted={highlighted.tokens.has(idx) || undefined} className={`group flex flex-col rounded-2xl border hover:border-pink-200 hover:bg-white hover:shadow-xl hover:shadow-pink-100/20 transition-all duration-300 overflow-hidden ${highlighted.tokens.has(idx) ? 'bg-white border-pink-300 ring-2 ring-pink-200' : 'bg-slate-50/50 border-slate-100'}`}>
+                      {/* Card Header */}
+                      <div className={`border-b border-slate-100/50 group-hover:border-pink-50 ${compact ? 'p-3' : 'p-5'}`}>
+                          <div className="flex justify-between items-start mb-1 gap-2">
+                              {onLookup ? (
+                                  <button
+                                      onClick={() => onLookup(token.text, result.englishSentence)}
+                                      className={`font-serif text-slate-800 font-medium tracking-tight leading-tight break-words text-left underline decoration-dotted decoration-slate-300 underline-offset-4 hover:text-pink-600 hover:decoration-pink-400 transition-colors ${compact ? 'text-lg' : 'text-2xl'}`}
+                                      title="在词典中查看"
+                                  >
+                                      {token.text}
+                                  </button>
+                              ) : (
+                                  <span className={`font-serif text-slate-800 font-medium tracking-tight leading-tight break-words ${compact ? 'text-lg' : 'text-2xl'}`}>{token.text}</span>
+                              )}
+                              <span className="flex-shrink-0 px-2 py-1 rounded-md bg-slate-200 text-slate-500 text-[10px] font-bold uppercase tracking-wider group-hover:bg-pink-100 group-hover:text-pink-600 transition-colors">
+                                  {token.partOfSpeech}
+                              </span>
+                          </div>
+                          <div className={`text-pink-600 font-medium mt-1 ${compact ? 'text-sm' : 'text-base'}`}>
+                              {token.meaning}
+                          </div>
+                      </div>
 
-                    {/* Card Body */}
-                    <div className={`bg-white flex-grow flex flex-col gap-2 ${compact ? 'p-3' : 'p-5'}`}>
-                        {!compact && (
-                            <div className="flex items-center gap-2">
-                                <span className="w-1.5 h-1.5 rounded-full bg-pink-400"></span>
-                                <span className="text-xs font-bold text-slate-500 uppercase">句法成分</span>
-                            </div>
-                        )}
-                        <div className="text-xs text-slate-800 font-medium bg-slate-50 inline-block self-start px-2 py-1 rounded-lg border border-slate-100">
-                            {token.role}
-                        </div>
+                      {/* Card Body */}
+                      <div className={`bg-white flex-grow flex flex-col gap-2 ${compact ? 'p-3' : 'p-5'}`}>
+                          {!compact && (
+                              <div className="flex items-center gap-2">
+                                  <span className="w-1.5 h-1.5 rounded-full bg-pink-400"></span>
+                                  <span className="text-xs font-bold text-slate-500 uppercase">句法成分</span>
+                              </div>
+                          )}
+                          <div className="text-xs text-slate-800 font-medium bg-slate-50 inline-block self-start px-2 py-1 rounded-lg border border-slate-100">
+                              {token.role}
+                          </div>
                         
-                        <div className={`${compact ? 'mt-1' : 'mt-2'}`}>
-                             {!compact && (
-                                 <div className="flex items-center gap-2 mb-1.5">
-                                     <span className="w-1.5 h-1.5 rounded-full bg-indigo-400"></span>
-                                     <span className="text-xs font-bold text-slate-500 uppercase">解析</span>
-                                </div>
-                             )}
-                            <p className="text-xs text-slate-600 leading-relaxed">
-                                {token.explanation}
-                            </p>
-                        </div>
-                    </div>
-                </div>
-            ))}
-         </div>
-      </div>
+                          <div className={`${compact ? 'mt-1' : 'mt-2'}`}>
+                               {!compact && (
+                                   <div className="flex items-center gap-2 mb-1.5">
+                                       <span className="w-1.5 h-1.5 rounded-full bg-indigo-400"></span>
+                                       <span className="text-xs font-bold text-slate-500 uppercase">解析</span>
+                                  </div>
+                               )}
+                              <p className="text-xs text-slate-600 leading-relaxed">
+                                  {token.explanation}
+                              </p>
+                          </div>
+                      </div>
+                  </div>
+              ))}
+           </div>
+        </div>
+      )}
     </div>
   );
 };
 
-const ChunkColumn: React.FC<{ chunk: AnalysisChunk; compact: boolean }> = ({ chunk, compact }) => {
+const ChunkColumn: React.FC<{ chunk: AnalysisChunk; compact: boolean; highlighted?: boolean; onLookup?: () => void }> = ({ chunk, compact, highlighted = false, onLookup }) => {
+  const textClass = `${compact ? 'text-xl md:text-2xl pb-2 mb-2' : 'text-4xl md:text-5xl px-2 pb-4 mb-4'} font-serif border-b-[3px] group-hover:border-pink-300 transition-colors font-medium tracking-tight ${highlighted ? 'text-pink-700 border-pink-400' : 'text-slate-800 border-pink-100'}`;
   return (
-    <div className="flex flex-col items-center text-center group">
+    <div className="flex flex-col items-center text-center group" data-highlighted={highlighted || undefined}>
       {/* Top: English Text */}
-      <div className={`${compact ? 'text-xl md:text-2xl pb-2 mb-2' : 'text-4xl md:text-5xl px-2 pb-4 mb-4'} font-serif text-slate-800 border-b-[3px] border-pink-100 group-hover:border-pink-300 transition-colors font-medium tracking-tight`}>
-        {chunk.text}
-      </div>
+      {onLookup ? (
+        <button onClick={onLookup} className={`${textClass} hover:text-pink-600`} title="在词典中查看">
+          {chunk.text}
+        </button>
+      ) : (
+        <div className={textClass}>
+          {chunk.text}
+        </div>
+      )}
       
       {/* Bottom: Grammar Annotation */}
       <div className="flex flex-col gap-1.5">
@@ -260,6 +371,102 @@ const ChunkColumn: React.FC<{ chunk: AnalysisChunk; compact: boolean }> = ({ chu
   );
 };
 
+// Cycles through these for the numbered clause badges
+const CLAUSE_COLORS = [
+  'bg-indigo-100 text-indigo-700',
+  'bg-teal-100 text-teal-700',
+  'bg-amber-100 text-amber-700',
+  'bg-sky-100 text-sky-700',
+  'bg-rose-100 text-rose-700',
+];
+
+const ClauseBreakdownCard: React.FC<{ breakdown: ClauseBreakdown; pattern?: string; tense?: string }> = ({ breakdown, pattern, tense }) => {
+  return (
+    <div className="bg-white border border-slate-100 shadow-lg shadow-slate-200/30 rounded-[2rem] p-8">
+       <div className="flex items-center gap-3 border-b border-slate-100 mb-8 pb-4">
+          <div className="w-10 h-10 rounded-xl bg-indigo-50 flex items-center justify-center text-indigo-600">
+              <Layers className="w-6 h-6" />
+          </div>
+          <div>
+              <h3 className="font-bold text-slate-800 text-xl">长难句拆解</h3>
+              <p className="text-slate-400 text-sm">先抓主干，再逐个理解从句与修饰成分</p>
+          </div>
+       </div>
+
+       <div className="space-y-8">
+          {/* Main clause skeleton */}
+          <div>
+              <div className="flex items-center gap-2 mb-3">
+                  <span className="w-1.5 h-1.5 rounded-full bg-pink-400"></span>
+                  <span className="text-xs font-bold text-slate-500 uppercase">主句主干</span>
+              </div>
+              <div className="bg-pink-50/50 border border-pink-100 rounded-2xl p-5">
+                  <p className="font-serif text-2xl text-slate-800 leading-snug">{breakdown.skeleton}</p>
+                  {breakdown.skeletonTranslation && (
+                      <p className="text-sm text-slate-500 mt-2">{breakdown.skeletonTranslation}</p>
+                  )}
+                  <div className="flex flex-wrap gap-2 mt-3">
+                      {pattern && <span className="px-2 py-0.5 rounded-md bg-white border border-indigo-100 text-indigo-700 text-xs font-bold">{pattern}</span>}
+                      {tense && <span className="px-2 py-0.5 rounded-md bg-white border border-teal-100 text-teal-700 text-xs font-bold">{tense}</span>}
+                  </div>
+              </div>
+          </div>
+
+          {/* Subordinate clauses */}
+          <div>
+              <div className="flex items-center gap-2 mb-3">
+                  <span className="w-1.5 h-1.5 rounded-full bg-indigo-400"></span>
+                  <span className="text-xs font-bold text-slate-500 uppercase">从句与非谓语结构</span>
+              </div>
+              <div className="space-y-3">
+                  {breakdown.clauses.map((clause, idx) => (
+                      <div key={idx} className="flex gap-4 items-start bg-slate-50/50 border border-slate-100 rounded-2xl p-4">
+                          <span className={`shrink-0 w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold ${CLAUSE_COLORS[idx % CLAUSE_COLORS.length]}`}>
+                              {idx + 1}
+                          </span>
+                          <div className="flex-grow min-w-0 space-y-2">
+                              <p className="font-serif text-lg text-slate-800 leading-snug">{clause.text}</p>
+                              <div className="flex flex-wrap items-center gap-2 text-xs">
+                                  <span className="px-2 py-0.5 rounded-md bg-indigo-50 text-indigo-700 font-bold">{clause.type}</span>
+                                  <span className="text-slate-500">{clause.attachesTo}</span>
+                              </div>
+                              {(clause.pattern || clause.tense) && (
+                                  <div className="flex flex-wrap gap-2 text-[10px] md:text-xs text-slate-500">
+                                      {clause.pattern && <span className="px-2 py-0.5 rounded-md bg-white border border-slate-200">{clause.pattern}</span>}
+                                      {clause.tense && <span className="px-2 py-0.5 rounded-md bg-white border border-slate-200">{clause.tense}</span>}
+                                  </div>
+                              )}
+                          </div>
+                      </div>
+                  ))}
+              </div>
+          </div>
+
+          {/* Step-by-step simplified rewrite */}
+          {breakdown.simplification.length > 0 && (
+              <div>
+                  <div className="flex items-center gap-2 mb-3">
+                      <span className="w-1.5 h-1.5 rounded-full bg-teal-400"></span>
+                      <span className="text-xs font-bold text-slate-500 uppercase">逐步简化</span>
+                  </div>
+                  <ol className="relative border-l-2 border-slate-100 ml-3 space-y-5">
+                      {breakdown.simplification.map((step, idx) => (
+                          <li key={idx} className="pl-6 relative">
+                              <span className="absolute -left-[11px] top-0.5 w-5 h-5 rounded-full bg-teal-100 text-teal-700 text-[10px] font-bold flex items-center justify-center">
+                                  {idx + 1}
+                              </span>
+                              <p className="text-xs text-teal-700 font-bold mb-1">{step.note}</p>
+                              <p className="font-serif text-base text-slate-700 leading-relaxed">{step.sentence}</p>
+                          </li>
+                      ))}
+                  </ol>
+              </div>
+          )}
+       </div>
+    </div>
+  );
+};
+
 const CorrectionCard: React.FC<{ correction: Correction }> = ({ correction }) => {
   return (
     <div className="bg-amber-50 border border-amber-200/60 rounded-2xl p-5 md:p-6 mb-8 relative overflow-hidden">
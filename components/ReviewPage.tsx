@@ -0,0 +1,210 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { Repeat, Volume2, Loader2, Eye, Flame, Quote, Sparkles, CheckCircle2, NotebookPen } from 'lucide-react';
+import { NotebookItem, ReviewGrade, ReviewLogEntry } from '../types';
+import { buildReviewQueue, scheduleReview, reviewStats, formatInterval, REVIEW_GRADES } from '../services/reviewService';
+import { generateSpeech } from '../services/geminiService';
+
+interface ReviewPageProps {
+  items: NotebookItem[];
+  log: ReviewLogEntry[];
+  onGrade: (itemId: string, grade: ReviewGrade) => void;
+  onOpenNotebook: () => void;
+}
+
+const GRADE_STYLES: Record<ReviewGrade, { label: string; className: string }> = {
+  again: { label: '忘记', className: 'bg-red-50 text-red-600 hover:bg-red-100 border-red-100' },
+  hard: { label: '困难', className: 'bg-amber-50 text-amber-700 hover:bg-amber-100 border-amber-100' },
+  good: { label: '良好', className: 'bg-green-50 text-green-700 hover:bg-green-100 border-green-100' },
+  easy: { label: '简单', className: 'bg-sky-50 text-sky-700 hover:bg-sky-100 border-sky-100' },
+};
+
+const StatsPanel: React.FC<{ items: NotebookItem[]; log: ReviewLogEntry[] }> = ({ items, log }) => {
+  const stats = useMemo(() => reviewStats(items, log), [items, log]);
+  const peak = Math.max(1, ...stats.upcoming);
+
+  const figures: [string, React.ReactNode][] = [
+    ['今日已复习', stats.reviewedToday],
+    ['连续天数', <span className="flex items-center gap-1"><Flame className="w-4 h-4 text-orange-500" />{stats.streakDays}</span>],
+    ['30 天记忆率', stats.retention === null ? '—' : `${Math.round(stats.retention * 100)}%`],
+    ['新词 / 学习中 / 已掌握', `${stats.newCount} / ${stats.learningCount} / ${stats.matureCount}`],
+  ];
+
+  return (
+    <section className="bg-white p-5 rounded-2xl border border-slate-100 shadow-sm space-y-4" aria-label="复习统计">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        {figures.map(([label, value]) => (
+          <div key={label} className="flex flex-col gap-0.5">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</span>
+            <span className="text-lg font-bold text-slate-700">{value}</span>
+          </div>
+        ))}
+      </div>
+      <div className="space-y-1">
+        <p className="text-xs text-slate-400">未来 7 天待复习</p>
+        <div className="flex items-end gap-2 h-12">
+          {stats.upcoming.map((count, i) => (
+            <div key={i} className="flex-1 flex flex-col items-center gap-1" title={`${i + 1} 天后：${count}`}>
+              <div className="w-full rounded-t bg-pink-200" style={{ height: `${(count / peak) * 100}%`, minHeight: count ? 4 : 1 }} />
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export const ReviewPage: React.FC<ReviewPageProps> = ({ items, log, onGrade, onOpenNotebook }) => {
+  // The session's queue is fixed when it starts; forgotten items go to the back of it
+  const [queue, setQueue] = useState<string[]>(() => buildReviewQueue(items, log).map(i => i.id));
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isAudioPlaying, setIsAudioPlaying] = useState(false);
+  const audioContextRef = useRef<AudioContext | null>(null);
+
+  // Items deleted from the notebook mid-session drop out of the queue
+  const remaining = queue.filter(id => items.some(i => i.id === id));
+  const current = items.find(i => i.id === remaining[0]);
+
+  const grade = (value: ReviewGrade) => {
+    if (!current) return;
+    onGrade(current.id, value);
+    setQueue(value === 'again' ? [...remaining.slice(1), current.id] : remaining.slice(1));
+    setReviewedCount(n => n + 1);
+    setIsRevealed(false);
+  };
+
+  const restart = () => {
+    setQueue(buildReviewQueue(items, log).map(i => i.id));
+    setReviewedCount(0);
+  };
+
+  const playAudio = async (text: string) => {
+      if (isAudioPlaying) return;
+      setIsAudioPlaying(true);
+
+      try {
+        if (!audioContextRef.current) {
+            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+        }
+        const ctx = audioContextRef.current;
+        if (ctx.state === 'suspended') await ctx.resume();
+
+        const buffer = await generateSpeech(text);
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.connect(ctx.destination);
+        source.onended = () => setIsAudioPlaying(false);
+        source.start(0);
+      } catch (e) {
+          console.error(e);
+          setIsAudioPlaying(false);
+      }
+  };
+
+  const headword = current ? current.phrase || current.word : '';
+
+  return (
+    <div className="w-full max-w-2xl mx-auto space-y-6 animate-fade-in">
+      <div className="text-center space-y-3 mb-2">
+        <div className="inline-flex items-center justify-center p-2 bg-pink-50 rounded-full text-pink-600">
+          <Repeat className="w-5 h-5 mr-2" />
+          <span className="text-sm font-medium">间隔复习</span>
+        </div>
+        <h1 className="text-3xl font-bold tracking-tight text-slate-900 font-serif">每日复习</h1>
+        <p className="text-slate-500">按 SM-2 算法安排生词本中的复习，全部在本地计算。</p>
+      </div>
+
+      {current ? (
+        <section className="bg-white rounded-[2rem] border border-slate-100 shadow-xl shadow-slate-200/50 overflow-hidden">
+          <div className="px-6 pt-4 text-xs text-slate-400 flex justify-between">
+            <span>剩余 {remaining.length}</span>
+            <span>本次已复习 {reviewedCount}</span>
+          </div>
+
+          <div className="px-6 py-10 text-center space-y-3">
+            <h2 className="text-4xl md:text-5xl font-bold text-slate-900 font-serif tracking-tight">{headword}</h2>
+            {current.kind === 'collocation' && <p className="text-sm text-slate-400">{current.word}</p>}
+            {isRevealed && (
+              <div className="flex items-center justify-center gap-3 text-slate-500">
+                {current.kind !== 'collocation' && current.phonetic && <span className="text-lg">{current.phonetic}</span>}
+                {current.partOfSpeech && <span className="text-xs font-bold px-2 py-0.5 rounded bg-slate-900 text-white uppercase">{current.partOfSpeech}</span>}
+                <button
+                  onClick={() => playAudio(headword)}
+                  className={`w-9 h-9 rounded-full flex items-center justify-center transition-all ${isAudioPlaying ? 'bg-pink-100 text-pink-600' : 'bg-slate-50 text-slate-500 hover:text-pink-600'}`}
+                  title="播放发音"
+                >
+                  {isAudioPlaying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Volume2 className="w-4 h-4" />}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {isRevealed ? (
+            <>
+              <div className="border-t border-slate-100 px-6 py-6 space-y-3">
+                <p className="text-lg font-bold text-slate-800">{current.meaning}</p>
+                {current.explanation && <p className="text-sm text-slate-500">{current.explanation}</p>}
+                {current.example && (
+                  <div className="bg-slate-50 rounded-xl p-4 border border-slate-100">
+                    <p className="font-serif text-slate-800">{current.example}</p>
+                    {current.exampleTranslation && (
+                      <p className="text-sm text-slate-500 flex items-start gap-2 mt-1">
+                        <Sparkles className="w-3.5 h-3.5 mt-0.5 text-pink-400 shrink-0" />{current.exampleTranslation}
+                      </p>
+                    )}
+                  </div>
+                )}
+                {current.source && (
+                  <p className="text-sm text-slate-600 flex items-start gap-1.5">
+                    <Quote className="w-3.5 h-3.5 mt-0.5 text-amber-400 shrink-0" />
+                    <span className="font-serif">{current.source}</span>
+                  </p>
+                )}
+                {current.note && <p className="text-sm text-slate-600 bg-amber-50/60 rounded-lg px-3 py-2">{current.note}</p>}
+              </div>
+              <div className="grid grid-cols-4 gap-2 p-4 bg-slate-50 border-t border-slate-100">
+                {REVIEW_GRADES.map(value => (
+                  <button
+                    key={value}
+                    onClick={() => grade(value)}
+                    className={`flex flex-col items-center gap-0.5 py-2 rounded-xl border font-bold text-sm transition-colors ${GRADE_STYLES[value].className}`}
+                  >
+                    {GRADE_STYLES[value].label}
+                    <span className="text-[10px] font-medium opacity-70">{formatInterval(scheduleReview(current.review, value))}</span>
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div className="p-4 bg-slate-50 border-t border-slate-100">
+              <button
+                onClick={() => setIsRevealed(true)}
+                className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-pink-600 hover:bg-pink-700 text-white font-medium transition-colors"
+              >
+                <Eye className="w-4 h-4" /> 显示答案
+              </button>
+            </div>
+          )}
+        </section>
+      ) : (
+        <div className="text-center py-12 flex flex-col items-center gap-3">
+          {items.length ? (
+            <>
+              <CheckCircle2 className="w-14 h-14 text-green-400" />
+              <p className="text-slate-600">{reviewedCount ? `本次复习了 ${reviewedCount} 张卡片，` : ''}今天没有待复习的内容了。</p>
+              <button onClick={restart} className="text-sm text-slate-400 hover:text-pink-600 transition-colors">重新检查</button>
+            </>
+          ) : (
+            <>
+              <NotebookPen className="w-14 h-14 text-slate-300" />
+              <p className="text-slate-500">生词本还是空的，先在词典中收藏一些单词吧。</p>
+              <button onClick={onOpenNotebook} className="text-sm font-medium text-pink-600 bg-pink-50 hover:bg-pink-100 px-4 py-2 rounded-lg transition-colors">打开生词本</button>
+            </>
+          )}
+        </div>
+      )}
+
+      {items.length > 0 && <StatsPanel items={items} log={log} />}
+    </div>
+  );
+};
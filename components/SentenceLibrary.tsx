@@ -0,0 +1,207 @@
+import React, { useState, useRef } from 'react';
+import { Shuffle, BookmarkPlus, Upload, Download, Trash2, X } from 'lucide-react';
+import { LibraryGroup, SentenceCollection } from '../types';
+import {
+  CURATED_SECTIONS, loadCollections, findCollection, saveCollections, addToCollection, removeFromCollection, deleteCollection,
+  exportCollectionsJson, importCollections, randomSentence,
+} from '../services/sentenceLibrary';
+import { downloadFile } from '../services/exportService';
+import { toServiceError } from '../services/errors';
+
+interface SentenceLibraryProps {
+  currentText: string;
+  onPick: (sentence: string) => void;
+}
+
+type LibraryView = LibraryGroup | 'mine';
+
+const VIEWS: { id: LibraryView; label: string }[] = [
+  { id: 'topic', label: '语法专题' },
+  { id: 'exam', label: '考试' },
+  { id: 'mine', label: '我的例句集' },
+];
+
+const DEFAULT_COLLECTION = '我的收藏';
+
+const pillClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-medium transition-colors ${active ? 'bg-pink-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-pink-50 hover:text-pink-600'}`;
+
+const toolClass = "flex items-center gap-1 text-xs font-medium text-slate-500 hover:text-pink-600 px-2 py-1 rounded-lg hover:bg-pink-50 transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-500";
+
+export const SentenceLibrary: React.FC<SentenceLibraryProps> = ({ currentText, onPick }) => {
+  const [view, setView] = useState<LibraryView>('topic');
+  const [sectionId, setSectionId] = useState(CURATED_SECTIONS[0].id);
+  const [collections, setCollections] = useState<SentenceCollection[]>(loadCollections);
+  const [collectionId, setCollectionId] = useState<string | null>(() => loadCollections()[0]?.id ?? null);
+  const [saveTarget, setSaveTarget] = useState(DEFAULT_COLLECTION);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const update = (next: SentenceCollection[]) => {
+    setCollections(next);
+    saveCollections(next);
+  };
+
+  const sections = CURATED_SECTIONS.filter(s => s.group === view);
+  const section = sections.find(s => s.id === sectionId) ?? sections[0];
+  const collection = collections.find(c => c.id === collectionId) ?? collections[0];
+
+  const switchView = (next: LibraryView) => {
+    setView(next);
+    setMessage(null);
+    if (next !== 'mine') setSectionId(CURATED_SECTIONS.find(s => s.group === next)!.id);
+  };
+
+  const pickRandom = (sentences: string[]) => {
+    const sentence = randomSentence(sentences, currentText);
+    if (sentence) onPick(sentence);
+  };
+
+  const handleSave = () => {
+    const name = saveTarget.trim() || DEFAULT_COLLECTION;
+    const next = addToCollection(collections, name, currentText);
+    update(next);
+    const saved = findCollection(next, name)!;
+    setCollectionId(saved.id);
+    setMessage(`已收藏到「${saved.name}」`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const next = importCollections(collections, await file.text());
+      update(next);
+      setCollectionId(id => id ?? next[0]?.id ?? null);
+      setMessage(`已导入 ${file.name}`);
+    } catch (err) {
+      setMessage(toServiceError(err).message);
+    }
+  };
+
+  const handleExport = () =>
+    downloadFile('grammaviz-sentences.json', exportCollectionsJson(collections), 'application/json;charset=utf-8');
+
+  const handleDelete = (target: SentenceCollection) => {
+    if (!window.confirm(`确定要删除例句集「${target.name}」吗？`)) return;
+    const next = deleteCollection(collections, target.id);
+    update(next);
+    setCollectionId(next[0]?.id ?? null);
+  };
+
+  return (
+    <div className="mt-4 border-t border-slate-100 pt-4 space-y-4 text-left" aria-label="例句库">
+      <div className="flex flex-wrap items-center gap-2">
+        {VIEWS.map(v => (
+          <button key={v.id} onClick={() => switchView(v.id)} className={`text-sm font-bold px-2 py-1 rounded-lg transition-colors ${view === v.id ? 'text-pink-600 bg-pink-50' : 'text-slate-400 hover:text-slate-600'}`}>
+            {v.label}
+          </button>
+        ))}
+      </div>
+
+      {view !== 'mine' && section && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {sections.map(s => (
+              <button key={s.id} onClick={() => setSectionId(s.id)} className={pillClass(s.id === section.id)}>{s.name}</button>
+            ))}
+          </div>
+          <SentenceList sentences={section.sentences.map(text => ({ id: text, text }))} onPick={onPick} />
+          <button onClick={() => pickRandom(section.sentences)} className={toolClass}>
+            <Shuffle className="w-3.5 h-3.5" /> 从「{section.name}」随机一句
+          </button>
+        </>
+      )}
+
+      {view === 'mine' && (
+        <>
+          {collections.length ? (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {collections.map(c => (
+                  <button key={c.id} onClick={() => setCollectionId(c.id)} className={pillClass(c.id === collection?.id)}>
+                    {c.name} <span className="opacity-60">{c.sentences.length}</span>
+                  </button>
+                ))}
+              </div>
+              {collection && (
+                <>
+                  {collection.sentences.length ? (
+                    <SentenceList
+                      sentences={collection.sentences}
+                      onPick={onPick}
+                      onRemove={(id) => update(removeFromCollection(collections, collection.id, id))}
+                    />
+                  ) : (
+                    <p className="text-xs text-slate-400">这个例句集还是空的。</p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-1">
+                    <button onClick={() => pickRandom(collection.sentences.map(s => s.text))} disabled={!collection.sentences.length} className={toolClass}>
+                      <Shuffle className="w-3.5 h-3.5" /> 从「{collection.name}」随机一句
+                    </button>
+                    <button onClick={() => handleDelete(collection)} className={`${toolClass} hover:!text-red-500 hover:!bg-red-50`}>
+                      <Trash2 className="w-3.5 h-3.5" /> 删除例句集
+                    </button>
+                  </div>
+                </>
+              )}
+            </>
+          ) : (
+            <p className="text-xs text-slate-400">还没有自己的例句集。输入句子后点击下方“收藏”，或导入 JSON 文件。</p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 border-t border-slate-100 pt-3">
+            <input
+              value={saveTarget}
+              onChange={(e) => setSaveTarget(e.target.value)}
+              list="sentence-collections"
+              aria-label="例句集名称"
+              className="px-3 py-1.5 rounded-lg border border-slate-200 text-sm outline-none focus:border-pink-300 w-40"
+            />
+            <datalist id="sentence-collections">
+              {collections.map(c => <option key={c.id} value={c.name} />)}
+            </datalist>
+            <button onClick={handleSave} disabled={!currentText.trim()} className={toolClass}>
+              <BookmarkPlus className="w-3.5 h-3.5" /> 收藏当前句子
+            </button>
+            <span className="flex-1" />
+            <button onClick={() => fileRef.current?.click()} className={toolClass}>
+              <Upload className="w-3.5 h-3.5" /> 导入
+            </button>
+            <button onClick={handleExport} disabled={!collections.length} className={toolClass}>
+              <Download className="w-3.5 h-3.5" /> 导出
+            </button>
+            <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" data-testid="library-import" />
+          </div>
+        </>
+      )}
+
+      {message && <p className="text-xs text-slate-500" role="status">{message}</p>}
+    </div>
+  );
+};
+
+const SentenceList: React.FC<{
+  sentences: { id: string; text: string }[];
+  onPick: (sentence: string) => void;
+  onRemove?: (id: string) => void;
+}> = ({ sentences, onPick, onRemove }) => (
+  <ul className="space-y-1 max-h-64 overflow-y-auto">
+    {sentences.map(s => (
+      <li key={s.id} className="group flex items-start gap-2">
+        <button
+          onClick={() => onPick(s.text)}
+          className="flex-1 text-left font-serif text-slate-700 hover:text-pink-600 hover:bg-pink-50/50 px-2 py-1 rounded-lg transition-colors"
+        >
+          {s.text}
+        </button>
+        {onRemove && (
+          <button onClick={() => onRemove(s.id)} title="移除" className="p-1 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </li>
+    ))}
+  </ul>
+);
@@ -0,0 +1,78 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, ListOrdered } from 'lucide-react';
+import { SentenceAnalysis } from '../types';
+
+interface SentenceNavigatorProps {
+  sentences: SentenceAnalysis[];
+  currentIndex: number;
+  onSelect: (index: number) => void;
+}
+
+const dotClass = (status: SentenceAnalysis['status'], isCurrent: boolean) => {
+  if (isCurrent) return 'bg-pink-500 ring-2 ring-pink-200 w-6';
+  switch (status) {
+    case 'done': return 'bg-pink-200 hover:bg-pink-300 w-2.5';
+    case 'loading': return 'bg-slate-300 animate-pulse w-2.5';
+    case 'error': return 'bg-red-300 hover:bg-red-400 w-2.5';
+    default: return 'bg-slate-200 hover:bg-slate-300 w-2.5';
+  }
+};
+
+export const SentenceNavigator: React.FC<SentenceNavigatorProps> = ({ sentences, currentIndex, onSelect }) => {
+  const total = sentences.length;
+  const doneCount = sentences.filter(s => s.status === 'done').length;
+  const current = sentences[currentIndex];
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4 mb-6 space-y-3">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => onSelect(currentIndex - 1)}
+          disabled={currentIndex === 0}
+          className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+          title="上一句"
+        >
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between text-xs mb-1.5">
+            <span className="flex items-center gap-1.5 font-bold text-slate-700">
+              <ListOrdered className="w-3.5 h-3.5 text-pink-500" />
+              第 {currentIndex + 1} / {total} 句
+            </span>
+            <span className="text-slate-400">已分析 {doneCount}/{total}</span>
+          </div>
+          <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-pink-400 to-rose-400 transition-all duration-500"
+              style={{ width: `${(doneCount / total) * 100}%` }}
+            />
+          </div>
+        </div>
+
+        <button
+          onClick={() => onSelect(currentIndex + 1)}
+          disabled={currentIndex === total - 1}
+          className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+          title="下一句"
+        >
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      <p className="text-sm text-slate-600 font-serif px-2 line-clamp-2">{current?.sentence}</p>
+
+      <div className="flex flex-wrap items-center gap-1.5 px-2">
+        {sentences.map((s, idx) => (
+          <button
+            key={idx}
+            onClick={() => onSelect(idx)}
+            className={`h-2.5 rounded-full transition-all ${dotClass(s.status, idx === currentIndex)}`}
+            title={`${idx + 1}. ${s.sentence}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useState, useMemo } from 'react';
+import { Settings, KeyRound, Eye, EyeOff, Cpu, Thermometer, Volume2, Save, RotateCcw, Check, Info } from 'lucide-react';
+import { AppSettings, ModelLevel } from '../types';
+import { DEFAULT_SETTINGS, GEMINI_VOICES } from '../services/settingsService';
+import { getProviderDefaults } from '../services/providers';
+import { isProxyMode } from '../services/proxyClient';
+import { OfflineDictionarySettings } from './OfflineDictionarySettings';
+
+interface SettingsPageProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+}
+
+const LEVELS: { level: ModelLevel; label: string }[] = [
+  { level: 'mini', label: '迷你思考' },
+  { level: 'quick', label: '快速思考' },
+  { level: 'deep', label: '深度思考' },
+];
+
+// Gemini 2.5 Flash accepts thinking budgets up to 24576 tokens
+const MAX_THINKING_BUDGET = 24576;
+
+export const SettingsPage: React.FC<SettingsPageProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [showKey, setShowKey] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const defaults = useMemo(() => getProviderDefaults(), []);
+  const proxyMode = isProxyMode();
+
+  const update = (patch: Partial<AppSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setSaved(false);
+  };
+
+  const updateModel = (level: ModelLevel, patch: Partial<{ model: string; thinkingBudget: number }>) => {
+    const current = draft.models[level] || defaults.models[level];
+    update({ models: { ...draft.models, [level]: { ...current, ...patch } } });
+  };
+
+  const resetModel = (level: ModelLevel) => {
+    const { [level]: _, ...rest } = draft.models;
+    update({ models: rest });
+  };
+
+  const handleSave = () => {
+    // Blank model names mean "use the default" rather than an empty override
+    const models = Object.fromEntries(
+      Object.entries(draft.models).filter(([, config]) => config && config.model.trim())
+    ) as AppSettings['models'];
+    const cleaned = { ...draft, apiKey: draft.apiKey.trim(), ttsVoice: draft.ttsVoice.trim(), models };
+    setDraft(cleaned);
+    onSave(cleaned);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const handleReset = () => {
+    update(DEFAULT_SETTINGS);
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-6 animate-fade-in">
+      <div className="text-center space-y-3 mb-2">
+        <div className="inline-flex items-center justify-center p-2 bg-slate-100 rounded-full text-slate-600">
+          <Settings className="w-5 h-5 mr-2" />
+          <span className="text-sm font-medium">设置</span>
+        </div>
+        <h1 className="text-3xl font-bold tracking-tight text-slate-900 font-serif">模型与语音设置</h1>
+        <p className="text-slate-500">设置仅保存在本浏览器中，保存后立即用于所有请求。</p>
+      </div>
+
+      {proxyMode && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-start gap-3 text-amber-800 text-sm">
+          <Info className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <p>当前通过后端服务器调用模型，API Key 与模型设置由服务器管理，以下设置不会生效。</p>
+        </div>
+      )}
+
+      {/* API Key */}
+      <section className="bg-white p-6 rounded-2xl border border-slate-100 shadow-sm space-y-3">
+        <h2 className="font-bold text-slate-800 flex items-center gap-2">
+          <KeyRound className="w-4 h-4 text-pink-500" /> API Key
+        </h2>
+        <div className="flex gap-2">
+          <input
+            type={showKey ? 'text' : 'password'}
+            value={draft.apiKey}
+            onChange={(e) => update({ apiKey: e.target.value })}
+            placeholder={process.env.API_KEY ? '留空则使用构建时配置的 Key' : '粘贴你的 API Key'}
+            autoComplete="off"
+            spellCheck={false}
+            className="flex-1 px-3 py-2 rounded-lg border border-slate-200 focus:border-pink-300 focus:ring-2 focus:ring-pink-100 outline-none font-mono text-sm"
+          />
+          <button
+            onClick={() => setShowKey(!showKey)}
+            className="px-3 rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50 transition-colors"
+            title={showKey ? '隐藏' : '显示'}
+          >
+            {showKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+          </button>
+        </div>
+        <p className="text-xs text-slate-400">Key 以明文保存在本机 localStorage 中，请勿在公共设备上保存。</p>
+      </section>
+
+      {/* Models */}
+      <section className="bg-white p-6 rounded-2xl border border-slate-100 shadow-sm space-y-4">
+        <h2 className="font-bold text-slate-800 flex items-center gap-2">
+          <Cpu className="w-4 h-4 text-blue-500" /> 模型与思考预算
+        </h2>
+        {LEVELS.map(({ level, label }) => {
+          const config = draft.models[level];
+          const fallback = defaults.models[level];
+          return (
+            <div key={level} className="grid grid-cols-1 md:grid-cols-[7rem_1fr_9rem_auto] gap-2 md:items-center">
+              <span className="text-sm font-medium text-slate-600">{label}</span>
+              <input
+                type="text"
+                value={config?.model ?? ''}
+                onChange={(e) => updateModel(level, { model: e.target.value })}
+                placeholder={fallback.model}
+                spellCheck={false}
+                className="px-3 py-2 rounded-lg border border-slate-200 focus:border-blue-300 focus:ring-2 focus:ring-blue-100 outline-none font-mono text-sm"
+              />
+              <input
+                type="number"
+                min={0}
+                max={MAX_THINKING_BUDGET}
+                step={100}
+                value={config?.thinkingBudget ?? fallback.thinkingBudget}
+                onChange={(e) => updateModel(level, {
+                  thinkingBudget: Math.min(MAX_THINKING_BUDGET, Math.max(0, Number(e.target.value) || 0)),
+                  model: config?.model || fallback.model,
+                })}
+                title="思考预算 (tokens)，0 表示不思考"
+                className="px-3 py-2 rounded-lg border border-slate-200 focus:border-blue-300 focus:ring-2 focus:ring-blue-100 outline-none text-sm"
+              />
+              <button
+                onClick={() => resetModel(level)}
+                disabled={!config}
+                className="text-xs text-slate-400 hover:text-slate-600 disabled:opacity-30 transition-colors"
+              >
+                默认
+              </button>
+            </div>
+          );
+        })}
+        <p className="text-xs text-slate-400">思考预算为模型在回答前可用于推理的 token 数，0 表示关闭思考。</p>
+      </section>
+
+      {/* Temperature */}
+      <section className="bg-white p-6 rounded-2xl border border-slate-100 shadow-sm space-y-3">
+        <h2 className="font-bold text-slate-800 flex items-center gap-2">
+          <Thermometer className="w-4 h-4 text-orange-500" /> 温度 (Temperature)
+        </h2>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={draft.temperature === null}
+            onChange={(e) => update({ temperature: e.target.checked ? null : 1 })}
+            className="accent-pink-500"
+          />
+          使用模型默认值
+        </label>
+        {draft.temperature !== null && (
+          <div className="flex items-center gap-4">
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={draft.temperature}
+              onChange={(e) => update({ temperature: Number(e.target.value) })}
+              className="flex-1 accent-pink-500"
+            />
+            <span className="w-10 text-right font-mono text-sm text-slate-700">{draft.temperature.toFixed(1)}</span>
+          </div>
+        )}
+        <p className="text-xs text-slate-400">较低的温度输出更稳定，较高的温度输出更多样。</p>
+      </section>
+
+      {/* TTS Voice */}
+      <section className="bg-white p-6 rounded-2xl border border-slate-100 shadow-sm space-y-3">
+        <h2 className="font-bold text-slate-800 flex items-center gap-2">
+          <Volume2 className="w-4 h-4 text-violet-500" /> 朗读音色
+        </h2>
+        {defaults.id === 'gemini' ? (
+          <select
+            value={draft.ttsVoice || defaults.ttsVoice}
+            onChange={(e) => update({ ttsVoice: e.target.value === defaults.ttsVoice ? '' : e.target.value })}
+            className="w-full md:w-64 px-3 py-2 rounded-lg border border-slate-200 focus:border-violet-300 focus:ring-2 focus:ring-violet-100 outline-none text-sm bg-white"
+          >
+            {GEMINI_VOICES.map(voice => (
+              <option key={voice} value={voice}>{voice}{voice === defaults.ttsVoice ? '（默认）' : ''}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            value={draft.ttsVoice}
+            onChange={(e) => update({ ttsVoice: e.target.value })}
+            placeholder={defaults.ttsVoice}
+            className="w-full md:w-64 px-3 py-2 rounded-lg border border-slate-200 focus:border-violet-300 focus:ring-2 focus:ring-violet-100 outline-none text-sm"
+          />
+        )}
+      </section>
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={handleReset}
+          className="flex items-center gap-1.5 px-4 py-2 rounded-xl text-sm font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 transition-colors"
+        >
+          <RotateCcw className="w-4 h-4" /> 恢复默认
+        </button>
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-1.5 px-5 py-2 rounded-xl text-sm font-bold text-white bg-pink-600 hover:bg-pink-700 shadow-md shadow-pink-200 transition-colors"
+        >
+          {saved ? <Check className="w-4 h-4" /> : <Save className="w-4 h-4" />}
+          {saved ? '已保存' : '保存设置'}
+        </button>
+      </div>
+
+      {/* Offline dictionary; imported and cleared on its own, not with the settings above */}
+      <OfflineDictionarySettings />
+    </div>
+  );
+};
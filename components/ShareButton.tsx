@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { Share2, Check, Loader2 } from 'lucide-react';
+import { buildShareLink, SharedSnapshot } from '../services/shareService';
+
+interface ShareButtonProps {
+  snapshot: SharedSnapshot;
+  className: string;
+  iconClassName?: string;
+  label?: string;
+}
+
+// Copies a link that opens this result read-only
+export const ShareButton: React.FC<ShareButtonProps> = ({ snapshot, className, iconClassName = 'w-4 h-4', label }) => {
+  const [state, setState] = useState<'idle' | 'working' | 'copied'>('idle');
+
+  const share = async () => {
+    setState('working');
+    try {
+      const link = await buildShareLink(snapshot);
+      try {
+        await navigator.clipboard.writeText(link);
+      } catch {
+        // Clipboard access can be denied; let the user copy it by hand
+        window.prompt('复制以下分享链接：', link);
+      }
+      setState('copied');
+      setTimeout(() => setState('idle'), 2000);
+    } catch (err) {
+      console.error("Share failed:", err);
+      setState('idle');
+      alert("生成分享链接失败，请稍后再试。");
+    }
+  };
+
+  return (
+    <button onClick={share} disabled={state === 'working'} className={className} title="复制分享链接">
+      {state === 'working'
+        ? <Loader2 className={`${iconClassName} animate-spin`} />
+        : state === 'copied' ? <Check className={`${iconClassName} text-green-500`} /> : <Share2 className={iconClassName} />}
+      {label && <span>{state === 'copied' ? '已复制链接' : label}</span>}
+    </button>
+  );
+};
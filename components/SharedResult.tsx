@@ -0,0 +1,53 @@
+import React from 'react';
+import { Link2, AlertCircle, X } from 'lucide-react';
+import { ModelLevel } from '../types';
+import { SharedSnapshot } from '../services/shareService';
+import { ResultDisplay } from './ResultDisplay';
+import { WritingPage } from './WritingPage';
+
+interface SharedResultProps {
+  snapshot: SharedSnapshot | null;  // null while decoding or when the link is broken
+  error: string | null;
+  modelLevel: ModelLevel;
+  onExit: () => void;
+}
+
+// A result opened from a share link, rendered read-only from the snapshot in the URL
+export const SharedResult: React.FC<SharedResultProps> = ({ snapshot, error, modelLevel, onExit }) => {
+  return (
+    <div className="w-full flex flex-col gap-6 animate-fade-in">
+      <div className="bg-indigo-50 border border-indigo-100 rounded-xl px-4 py-3 flex items-center gap-3 text-indigo-800 text-sm">
+        <Link2 className="w-4 h-4 flex-shrink-0" />
+        <p className="flex-grow">你正在查看他人分享的{snapshot?.tab === 'writing' ? '写作批改' : '句法分析'}结果（只读）。</p>
+        <button
+          onClick={onExit}
+          className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 bg-white border border-indigo-100 px-3 py-1.5 rounded-lg transition-colors"
+        >
+          <X className="w-3.5 h-3.5" /> 关闭
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 flex items-start gap-3 text-red-700 max-w-2xl mx-auto">
+          <AlertCircle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <div>
+            <h3 className="font-medium">无法打开分享内容</h3>
+            <p className="text-sm mt-1 opacity-90">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {!snapshot && !error && (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-pink-500"></div>
+        </div>
+      )}
+
+      {snapshot?.tab === 'analyzer' && <ResultDisplay result={snapshot.result} readOnly />}
+
+      {snapshot?.tab === 'writing' && (
+        <WritingPage initialResult={snapshot.result} onResultChange={() => {}} modelLevel={modelLevel} readOnly />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { SyntaxNode } from '../types';
+
+interface SyntaxTreeProps {
+  root: SyntaxNode;
+  highlightedId: string | null;
+  onHighlight: (node: SyntaxNode | null) => void;
+}
+
+const LEVEL_HEIGHT = 88;
+const NODE_HEIGHT = 26;
+const LEAF_GAP = 20;
+const PADDING = 24;
+const MAX_LEAF_CHARS = 28;
+
+const KIND_STYLES: Record<SyntaxNode['kind'], { fill: string; stroke: string; text: string }> = {
+  clause: { fill: '#eef2ff', stroke: '#a5b4fc', text: '#4338ca' },
+  phrase: { fill: '#fdf2f8', stroke: '#f9a8d4', text: '#db2777' },
+  word: { fill: '#f8fafc', stroke: '#cbd5e1', text: '#475569' },
+};
+
+// Rough text widths; good enough to keep neighbouring leaves from overlapping
+const labelWidth = (node: SyntaxNode) => node.label.length * 8 + (node.children.length ? 30 : 18);
+const leafText = (text: string) => text.length > MAX_LEAF_CHARS ? `${text.slice(0, MAX_LEAF_CHARS - 1)}…` : text;
+const leafTextWidth = (text: string) => leafText(text).length * 8.5;
+
+interface PlacedNode {
+  node: SyntaxNode;
+  x: number;
+  y: number;
+  isLeaf: boolean;      // No children, or collapsed
+  collapsed: boolean;
+  parent?: PlacedNode;
+}
+
+// Visible leaves are laid out left to right in sentence order and every parent sits centred
+// over its children, so the tree reads like the sentence above it.
+const layoutTree = (root: SyntaxNode, collapsed: Set<string>) => {
+  const placed: PlacedNode[] = [];
+  let cursor = PADDING;
+  let maxDepth = 0;
+
+  const place = (node: SyntaxNode, depth: number, parent?: PlacedNode): PlacedNode => {
+    maxDepth = Math.max(maxDepth, depth);
+    const isCollapsed = collapsed.has(node.id) && node.children.length > 0;
+    const entry: PlacedNode = {
+      node,
+      x: 0,
+      y: PADDING + depth * LEVEL_HEIGHT + NODE_HEIGHT / 2,
+      isLeaf: isCollapsed || node.children.length === 0,
+      collapsed: isCollapsed,
+      parent,
+    };
+    placed.push(entry);
+
+    if (entry.isLeaf) {
+      const span = Math.max(labelWidth(node), leafTextWidth(node.text)) + LEAF_GAP;
+      entry.x = cursor + span / 2;
+      cursor += span;
+    } else {
+      const children = node.children.map(child => place(child, depth + 1, entry));
+      entry.x = (children[0].x + children[children.length - 1].x) / 2;
+    }
+    return entry;
+  };
+
+  place(root, 0);
+  return {
+    placed,
+    width: cursor + PADDING,
+    height: PADDING * 2 + maxDepth * LEVEL_HEIGHT + NODE_HEIGHT + 28,
+  };
+};
+
+// Chunk and token indices covered by a node, including those of its descendants
+export const linkedIndices = (node: SyntaxNode | null) => {
+  const chunks = new Set<number>();
+  const tokens = new Set<number>();
+  const walk = (n: SyntaxNode) => {
+    if (n.chunkIndex !== undefined) chunks.add(n.chunkIndex);
+    if (n.tokenIndex !== undefined) tokens.add(n.tokenIndex);
+    n.children.forEach(walk);
+  };
+  if (node) walk(node);
+  return { chunks, tokens };
+};
+
+const isWithin = (entry: PlacedNode | undefined, id: string | null): boolean => {
+  for (let e = entry; e && id; e = e.parent) {
+    if (e.node.id === id) return true;
+  }
+  return false;
+};
+
+export const SyntaxTree: React.FC<SyntaxTreeProps> = ({ root, highlightedId, onHighlight }) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setCollapsed(new Set());
+  }, [root]);
+
+  const { placed, width, height } = useMemo(() => layoutTree(root, collapsed), [root, collapsed]);
+
+  const toggle = (node: SyntaxNode) => {
+    if (!node.children.length) return;
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(node.id)) next.delete(node.id);
+      else next.add(node.id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <svg
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        className="mx-auto block select-none"
+        onMouseLeave={() => onHighlight(null)}
+        role="tree"
+        aria-label="句法树"
+      >
+        {/* Edges first so nodes paint over them */}
+        {placed.filter(e => e.parent).map(entry => {
+          const active = isWithin(entry, highlightedId);
+          return (
+            <line
+              key={`edge-${entry.node.id}`}
+              x1={entry.parent!.x}
+              y1={entry.parent!.y + NODE_HEIGHT / 2}
+              x2={entry.x}
+              y2={entry.y - NODE_HEIGHT / 2 - (entry.node.relation ? 20 : 0)}
+              stroke={active ? '#ec4899' : entry.node.isHead ? '#94a3b8' : '#e2e8f0'}
+              strokeWidth={entry.node.isHead ? 2.5 : 1.5}
+            />
+          );
+        })}
+
+        {placed.map(entry => {
+          const { node } = entry;
+          const style = KIND_STYLES[node.kind];
+          const active = isWithin(entry, highlightedId);
+          const boxWidth = labelWidth(node);
+          const hasChildren = node.children.length > 0;
+
+          return (
+            <g
+              key={node.id}
+              transform={`translate(${entry.x}, ${entry.y})`}
+              onMouseEnter={() => onHighlight(node)}
+              onFocus={() => onHighlight(node)}
+              onClick={() => toggle(node)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  toggle(node);
+                }
+              }}
+              tabIndex={0}
+              role="treeitem"
+              aria-expanded={hasChildren ? !entry.collapsed : undefined}
+              aria-label={`${node.label} ${node.relation} ${node.text}`}
+              className={`outline-none ${hasChildren ? 'cursor-pointer' : 'cursor-default'}`}
+            >
+              <title>{`${node.text}${node.isHead ? '（中心词）' : ''}`}</title>
+              {node.relation && (
+                <text y={-NODE_HEIGHT / 2 - 5} textAnchor="middle" fontSize={11} fill={active ? '#db2777' : '#94a3b8'}>
+                  {node.relation}
+                </text>
+              )}
+              <rect
+                x={-boxWidth / 2}
+                y={-NODE_HEIGHT / 2}
+                width={boxWidth}
+                height={NODE_HEIGHT}
+                rx={8}
+                fill={active ? '#fce7f3' : style.fill}
+                stroke={active ? '#ec4899' : style.stroke}
+                strokeWidth={node.isHead ? 2 : 1}
+              />
+              <text
+                x={hasChildren ? -6 : 0}
+                y={4}
+                textAnchor="middle"
+                fontSize={12}
+                fontWeight={700}
+                fontFamily="ui-monospace, monospace"
+                fill={style.text}
+              >
+                {node.label}
+              </text>
+              {hasChildren && (
+                <text x={boxWidth / 2 - 10} y={4} textAnchor="middle" fontSize={12} fontWeight={700} fill="#94a3b8">
+                  {entry.collapsed ? '+' : '−'}
+                </text>
+              )}
+              {entry.isLeaf && (
+                <text
+                  y={NODE_HEIGHT / 2 + 20}
+                  textAnchor="middle"
+                  fontSize={15}
+                  fontFamily="Georgia, serif"
+                  fill={active ? '#be185d' : '#1e293b'}
+                  fontStyle={entry.collapsed ? 'italic' : 'normal'}
+                >
+                  {leafText(node.text)}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
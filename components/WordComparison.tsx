@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Scale, Sparkles, ListChecks, CheckCircle2, XCircle, RotateCcw } from 'lucide-react';
+import { ComparisonQuizItem, ComparisonResult } from '../types';
+
+interface WordComparisonProps {
+  result: ComparisonResult;
+  onLookup: (word: string) => void;
+}
+
+// Column colours, in the order the words were given
+const ACCENTS = [
+  'border-pink-200 bg-pink-50 text-pink-700',
+  'border-sky-200 bg-sky-50 text-sky-700',
+  'border-emerald-200 bg-emerald-50 text-emerald-700',
+  'border-amber-200 bg-amber-50 text-amber-700',
+];
+
+const GRID_COLUMNS = ['', 'md:grid-cols-1', 'md:grid-cols-2', 'md:grid-cols-3', 'md:grid-cols-2 xl:grid-cols-4'];
+
+const sameWord = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// The quiz sentence with its blank shown as the chosen word once answered
+const QuizSentence: React.FC<{ sentence: string; filled: string | null; correct: boolean }> = ({ sentence, filled, correct }) => {
+  const [before, ...rest] = sentence.split('___');
+  return (
+    <p className="font-serif text-slate-800 leading-relaxed">
+      {before}
+      <span className={`inline-block min-w-[4rem] px-1 border-b-2 text-center font-bold ${
+        filled === null ? 'border-slate-300 text-transparent' : correct ? 'border-green-400 text-green-700' : 'border-red-400 text-red-600'
+      }`}>
+        {filled ?? '____'}
+      </span>
+      {rest.join('___')}
+    </p>
+  );
+};
+
+const SelfCheck: React.FC<{ quiz: ComparisonQuizItem[]; words: string[] }> = ({ quiz, words }) => {
+  const [answers, setAnswers] = useState<(string | null)[]>(() => quiz.map(() => null));
+
+  const answered = answers.filter(a => a !== null).length;
+  const score = answers.filter((a, i) => a !== null && sameWord(a, quiz[i].answer)).length;
+
+  const choose = (index: number, word: string) =>
+    setAnswers(prev => prev.map((a, i) => i === index && a === null ? word : a));
+
+  return (
+    <div className="border-t border-slate-100 p-6 md:p-10 space-y-5" aria-label="填空自测">
+      <div className="flex items-center gap-3">
+        <ListChecks className="w-5 h-5 text-violet-500" />
+        <h3 className="text-lg font-bold text-slate-900">填空自测</h3>
+        <span className="text-sm text-slate-400">{answered === quiz.length ? `得分 ${score} / ${quiz.length}` : `${answered} / ${quiz.length}`}</span>
+        {answered > 0 && (
+          <button
+            onClick={() => setAnswers(quiz.map(() => null))}
+            className="ml-auto flex items-center gap-1 text-xs text-slate-400 hover:text-pink-600 transition-colors"
+          >
+            <RotateCcw className="w-3.5 h-3.5" /> 重做
+          </button>
+        )}
+      </div>
+
+      <ol className="space-y-4">
+        {quiz.map((item, i) => {
+          const chosen = answers[i];
+          const correct = chosen !== null && sameWord(chosen, item.answer);
+          return (
+            <li key={i} className="bg-slate-50 rounded-xl p-4 border border-slate-100 space-y-3">
+              <div className="flex gap-2">
+                <span className="text-slate-300 font-bold font-serif select-none">{i + 1}.</span>
+                <QuizSentence sentence={item.sentence} filled={chosen} correct={correct} />
+              </div>
+              <div className="flex flex-wrap gap-2 pl-6">
+                {words.map(word => (
+                  <button
+                    key={word}
+                    onClick={() => choose(i, word)}
+                    disabled={chosen !== null}
+                    className={`px-3 py-1 rounded-lg border text-sm font-medium transition-colors ${
+                      chosen === null ? 'bg-white border-slate-200 text-slate-600 hover:border-pink-300 hover:text-pink-600'
+                        : sameWord(word, item.answer) ? 'bg-green-50 border-green-200 text-green-700'
+                        : word === chosen ? 'bg-red-50 border-red-200 text-red-600'
+                        : 'bg-white border-slate-100 text-slate-300'
+                    }`}
+                  >
+                    {word}
+                  </button>
+                ))}
+              </div>
+              {chosen !== null && (
+                <p className="pl-6 text-sm text-slate-600 flex items-start gap-1.5">
+                  {correct
+                    ? <CheckCircle2 className="w-4 h-4 mt-0.5 text-green-500 shrink-0" />
+                    : <XCircle className="w-4 h-4 mt-0.5 text-red-500 shrink-0" />}
+                  <span>{correct ? '正确。' : `应填 ${item.answer}。`}{item.explanation}</span>
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export const WordComparison: React.FC<WordComparisonProps> = ({ result, onLookup }) => {
+  const words = result.items.map(item => item.word);
+
+  return (
+    <div className="bg-white rounded-[2rem] shadow-xl shadow-slate-200/40 border border-slate-100 overflow-hidden">
+      {/* Header and core difference */}
+      <div className="bg-slate-50/50 border-b border-slate-100 px-6 py-8 md:px-10 space-y-4">
+        <h2 className="text-3xl md:text-4xl font-bold text-slate-900 font-serif tracking-tight flex flex-wrap items-center gap-x-3 gap-y-1">
+          {words.map((word, i) => (
+            <React.Fragment key={word}>
+              {i > 0 && <span className="text-slate-300 font-sans text-2xl">/</span>}
+              <span>{word}</span>
+            </React.Fragment>
+          ))}
+        </h2>
+        <div className="flex items-start gap-3 bg-white rounded-xl border border-slate-100 p-4">
+          <Scale className="w-5 h-5 mt-0.5 text-pink-500 shrink-0" />
+          <div className="space-y-1">
+            <p className="text-xs font-bold text-pink-600 uppercase tracking-wider">核心区别</p>
+            <p className="text-slate-700 leading-relaxed">{result.coreDifference}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Side by side */}
+      <div className={`grid grid-cols-1 ${GRID_COLUMNS[result.items.length] ?? ''} gap-4 p-6 md:p-10`}>
+        {result.items.map((item, i) => (
+          <section key={item.word} className="rounded-2xl border border-slate-200 p-5 space-y-4" aria-label={item.word}>
+            <div className="space-y-1.5">
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => onLookup(item.word)}
+                  title={`查询 ${item.word}`}
+                  className={`font-serif text-xl font-bold px-2.5 py-0.5 rounded-lg border hover:shadow-sm transition-shadow ${ACCENTS[i % ACCENTS.length]}`}
+                >
+                  {item.word}
+                </button>
+                {item.partOfSpeech && <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-slate-900 text-white uppercase">{item.partOfSpeech}</span>}
+              </div>
+              <p className="font-bold text-slate-800">{item.meaning}</p>
+            </div>
+
+            {item.patterns.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">语法搭配</p>
+                <ul className="space-y-1">
+                  {item.patterns.map(pattern => (
+                    <li key={pattern} className="text-sm font-mono text-slate-700 bg-slate-50 rounded px-2 py-1">{pattern}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {item.register && (
+              <div className="space-y-1">
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">语体</p>
+                <p className="text-sm text-slate-600">{item.register}</p>
+              </div>
+            )}
+
+            <div className="bg-slate-50 rounded-xl p-4 border border-slate-100">
+              <p className="font-serif text-slate-800 mb-1.5 leading-relaxed">{item.example}</p>
+              {item.exampleTranslation && (
+                <p className="text-sm text-slate-500 flex items-start gap-2">
+                  <Sparkles className="w-3.5 h-3.5 mt-0.5 text-pink-400 shrink-0" />
+                  {item.exampleTranslation}
+                </p>
+              )}
+            </div>
+          </section>
+        ))}
+      </div>
+
+      {result.quiz.length > 0 && <SelfCheck key={words.join('/')} quiz={result.quiz} words={words} />}
+    </div>
+  );
+};
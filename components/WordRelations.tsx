@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { ChevronDown, GitBranch, Equal, ArrowLeftRight, Sprout, Lightbulb } from 'lucide-react';
+import { DictionaryResult, RelatedWord } from '../types';
+
+interface WordRelationsProps {
+  result: DictionaryResult;
+  onLookup: (word: string) => void;
+}
+
+const Section: React.FC<{
+  title: string;
+  icon: React.ReactNode;
+  count?: number;
+  defaultOpen?: boolean;
+  children: React.ReactNode;
+}> = ({ title, icon, count, defaultOpen = false, children }) => {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  return (
+    <div className="border-t border-slate-100">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="w-full flex items-center gap-3 px-6 md:px-10 py-4 text-left hover:bg-slate-50/60 transition-colors"
+      >
+        {icon}
+        <span className="font-bold text-slate-800">{title}</span>
+        {count !== undefined && <span className="text-xs text-slate-400">{count}</span>}
+        <ChevronDown className={`w-4 h-4 ml-auto text-slate-400 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && <div className="px-6 md:px-10 pb-6">{children}</div>}
+    </div>
+  );
+};
+
+// A related word that opens its own dictionary entry
+const WordLink: React.FC<{ word: string; onLookup: (word: string) => void }> = ({ word, onLookup }) => (
+  <button
+    onClick={() => onLookup(word)}
+    title={`查询 ${word}`}
+    className="font-serif font-bold text-slate-800 hover:text-pink-600 underline decoration-slate-200 hover:decoration-pink-300 underline-offset-4 transition-colors"
+  >
+    {word}
+  </button>
+);
+
+const RelatedList: React.FC<{ words: RelatedWord[]; onLookup: (word: string) => void }> = ({ words, onLookup }) => (
+  <ul className="space-y-3">
+    {words.map(w => (
+      <li key={w.word} className="space-y-0.5">
+        <div className="flex flex-wrap items-baseline gap-2">
+          <WordLink word={w.word} onLookup={onLookup} />
+          <span className="text-sm text-slate-500">{w.meaning}</span>
+        </div>
+        {w.note && <p className="text-sm text-slate-500 bg-slate-50 rounded-lg px-3 py-1.5">{w.note}</p>}
+      </li>
+    ))}
+  </ul>
+);
+
+// Word family, synonyms, antonyms and roots; results from before these fields existed show none
+export const WordRelations: React.FC<WordRelationsProps> = ({ result, onLookup }) => {
+  const { wordFamily = [], synonyms = [], antonyms = [], etymology } = result;
+  if (!wordFamily.length && !synonyms.length && !antonyms.length && !etymology) return null;
+
+  return (
+    <div className="bg-white">
+      {wordFamily.length > 0 && (
+        <Section title="词族派生" icon={<GitBranch className="w-4 h-4 text-emerald-500" />} count={wordFamily.length} defaultOpen>
+          <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {wordFamily.map(member => (
+              <li key={`${member.word}-${member.partOfSpeech}`} className="flex flex-wrap items-baseline gap-2 bg-slate-50 rounded-xl px-4 py-2.5 border border-slate-100">
+                <WordLink word={member.word} onLookup={onLookup} />
+                <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-slate-900 text-white uppercase">{member.partOfSpeech}</span>
+                <span className="text-sm text-slate-500">{member.meaning}</span>
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      {synonyms.length > 0 && (
+        <Section title="近义词辨析" icon={<Equal className="w-4 h-4 text-sky-500" />} count={synonyms.length}>
+          <RelatedList words={synonyms} onLookup={onLookup} />
+        </Section>
+      )}
+
+      {antonyms.length > 0 && (
+        <Section title="反义词" icon={<ArrowLeftRight className="w-4 h-4 text-orange-500" />} count={antonyms.length}>
+          <RelatedList words={antonyms} onLookup={onLookup} />
+        </Section>
+      )}
+
+      {etymology && (
+        <Section title="词源与记忆" icon={<Sprout className="w-4 h-4 text-lime-600" />}>
+          <div className="space-y-2">
+            <p className="text-slate-700 leading-relaxed">{etymology.explanation}</p>
+            {etymology.mnemonic && (
+              <p className="text-sm text-amber-800 bg-amber-50 rounded-lg px-3 py-2 flex items-start gap-2">
+                <Lightbulb className="w-4 h-4 mt-0.5 text-amber-500 shrink-0" />
+                {etymology.mnemonic}
+              </p>
+            )}
+          </div>
+        </Section>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,22 @@
 
-import React, { useState, useEffect } from 'react';
-import { PenTool, Copy, CheckCircle2, AlertTriangle, Lightbulb, Sparkles, Loader2, Wand2, ArrowRight, X, Quote, MousePointerClick, Info, FileText, ArrowDown, ChevronDown, Split } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { PenTool, Copy, CheckCircle2, AlertTriangle, Lightbulb, Sparkles, Loader2, Wand2, ArrowRight, X, Quote, MousePointerClick, Info, FileText, ArrowDown, ChevronDown, Split, RefreshCw } from 'lucide-react';
 import { WritingResult, WritingMode, WritingSegment, AnalysisResult, ModelLevel } from '../types';
 import { evaluateWriting, analyzeSentence } from '../services/geminiService';
+import { isCancelled } from '../services/errors';
+import { writingExport } from '../services/exportService';
+import { writingSourceText } from '../services/historyService';
+import { segmentSentences } from '../services/textSegmentation';
 import { ResultDisplay } from './ResultDisplay';
+import { ShareButton } from './ShareButton';
+import { ExportMenu } from './ExportMenu';
+import { ReadabilityComparison } from './ReadabilityPanel';
 
 interface WritingPageProps {
     initialResult: WritingResult | null;
     onResultChange: (result: WritingResult | null) => void;
     modelLevel: ModelLevel;
+    readOnly?: boolean;  // Opened from a share link: no regenerate, rewrite or share
 }
 
 const MODES: { value: WritingMode; label: string; shortLabel: string }[] = [
@@ -23,11 +31,12 @@ const MODES: { value: WritingMode; label: string; shortLabel: string }[] = [
 
 type ViewMode = 'diff' | 'syntax';
 
-export const WritingPage: React.FC<WritingPageProps> = ({ initialResult, onResultChange, modelLevel }) => {
-    const [inputText, setInputText] = useState("");
+export const WritingPage: React.FC<WritingPageProps> = ({ initialResult, onResultChange, modelLevel, readOnly = false }) => {
+    // A result opened from history or a share link brings its essay along
+    const [inputText, setInputText] = useState(() => initialResult ? writingSourceText(initialResult) : "");
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [mode, setMode] = useState<WritingMode>('fix');
+    const [mode, setMode] = useState<WritingMode>(initialResult?.mode || 'fix');
     const [result, setResult] = useState<WritingResult | null>(initialResult);
     
     // View Mode State
@@ -42,6 +51,10 @@ export const WritingPage: React.FC<WritingPageProps> = ({ initialResult, onResul
     const [syntaxResult, setSyntaxResult] = useState<AnalysisResult | null>(null);
     const [isSyntaxLoading, setIsSyntaxLoading] = useState(false);
 
+    // In-flight requests; starting a new one cancels the previous
+    const abortRef = useRef<AbortController | null>(null);
+    const syntaxAbortRef = useRef<AbortController | null>(null);
+
     useEffect(() => {
         // Reset sub-states when result changes
         setActiveSegmentIndex(null);
@@ -50,40 +63,63 @@ export const WritingPage: React.FC<WritingPageProps> = ({ initialResult, onResul
         setViewMode('diff'); 
     }, [result]);
 
-    const handleAnalyze = async () => {
+    const handleAnalyze = async (fresh = false) => {
         if (!inputText.trim()) return;
+
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
         
         setIsLoading(true);
         setError(null);
         setShowOriginal(false);
         
         try {
-            const data = await evaluateWriting(inputText, mode, modelLevel);
+            const data = await evaluateWriting(inputText, mode, modelLevel, { fresh, signal: controller.signal });
+            if (controller.signal.aborted) return;
             setResult(data);
             onResultChange(data);
         } catch (err: any) {
+            if (isCancelled(err) || controller.signal.aborted) return;
             setError(err.message || "分析失败，请稍后再试。");
         } finally {
-            setIsLoading(false);
+            if (abortRef.current === controller) {
+                abortRef.current = null;
+                setIsLoading(false);
+            }
         }
     };
 
+    const handleCancel = () => {
+        abortRef.current?.abort();
+        abortRef.current = null;
+        setIsLoading(false);
+    };
+
     const handleSyntaxAnalyze = async (sentence: string) => {
         if (sentence === activeSentence && syntaxResult) return; // Already loaded
 
+        syntaxAbortRef.current?.abort();
+        const controller = new AbortController();
+        syntaxAbortRef.current = controller;
+
         setActiveSentence(sentence);
         setSyntaxResult(null);
         setIsSyntaxLoading(true);
 
         try {
             // Reuse model level for nested syntax analysis too
-            const data = await analyzeSentence(sentence, modelLevel);
-            setSyntaxResult(data);
+            const data = await analyzeSentence(sentence, modelLevel, { signal: controller.signal });
+            if (!controller.signal.aborted) setSyntaxResult(data);
         } catch (err) {
+            if (isCancelled(err)) return;
             console.error(err);
             // In a real app, maybe show a toast
         } finally {
-            setIsSyntaxLoading(false);
+            if (syntaxAbortRef.current === controller) {
+                syntaxAbortRef.current = null;
+                setIsSyntaxLoading(false);
+            }
         }
     };
 
@@ -94,6 +130,7 @@ export const WritingPage: React.FC<WritingPageProps> = ({ initialResult, onResul
     };
 
     const handleReset = () => {
+        syntaxAbortRef.current?.abort();
         setResult(null);
         onResultChange(null);
         setActiveSegmentIndex(null);
@@ -177,9 +214,17 @@ export const WritingPage: React.FC<WritingPageProps> = ({ initialResult, onResul
                             className="w-full h-full p-6 rounded-2xl border border-slate-200 bg-white text-slate-700 text-lg leading-relaxed resize-none focus:ring-4 focus:ring-pink-50 focus:border-pink-300 outline-none shadow-sm placeholder:text-slate-300 font-serif whitespace-pre-wrap"
                             disabled={isLoading}
                         />
-                        <div className="absolute bottom-4 right-4">
+                        <div className="absolute bottom-4 right-4 flex items-center gap-2">
+                             {isLoading && (
+                                 <button
+                                    onClick={handleCancel}
+                                    className="px-4 py-3 rounded-xl font-medium bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 shadow-sm transition-all flex items-center gap-1.5"
+                                 >
+                                    <X className="w-4 h-4" /> 取消
+                                 </button>
+                             )}
                              <button
-                                onClick={handleAnalyze}
+                                onClick={() => handleAnalyze()}
                                 disabled={!inputText.trim() || isLoading}
                                 className={`px-6 py-3 rounded-xl font-medium shadow-lg transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed text-white
                                     ${isIeltsMode(mode) ? 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-200' : 'bg-green-600 hover:bg-green-700 shadow-green-200'}
@@ -217,18 +262,44 @@ export const WritingPage: React.FC<WritingPageProps> = ({ initialResult, onResul
                                         {showOriginal ? '返回修订' : '查看原文'}
                                     </button>
                                 )}
+                                {!readOnly && (
+                                    <button
+                                        onClick={() => handleAnalyze(true)}
+                                        disabled={isLoading || !inputText.trim()}
+                                        className="text-xs flex items-center gap-1 text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 px-3 py-1.5 rounded-lg transition-colors font-medium shadow-sm disabled:opacity-50"
+                                    >
+                                        <RefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} /> 重新生成
+                                    </button>
+                                )}
                                 <button 
                                     onClick={copyFullText}
                                     className="text-xs flex items-center gap-1 text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 px-3 py-1.5 rounded-lg transition-colors font-medium shadow-sm"
                                 >
                                     <Copy className="w-3.5 h-3.5" /> 复制全文
                                 </button>
-                                <button 
-                                    onClick={handleReset}
-                                    className="text-xs flex items-center gap-1 text-slate-500 hover:text-slate-700 px-2 py-1 transition-colors"
-                                >
-                                    <X className="w-4 h-4" /> 重写
-                                </button>
+                                <ExportMenu
+                                    document={() => writingExport(result)}
+                                    label="导出"
+                                    withCards={false}
+                                    iconClassName="w-3.5 h-3.5"
+                                    className="text-xs flex items-center gap-1 text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 px-3 py-1.5 rounded-lg transition-colors font-medium shadow-sm"
+                                />
+                                {!readOnly && (
+                                    <ShareButton
+                                        snapshot={{ tab: 'writing', result }}
+                                        label="分享"
+                                        iconClassName="w-3.5 h-3.5"
+                                        className="text-xs flex items-center gap-1 text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 px-3 py-1.5 rounded-lg transition-colors font-medium shadow-sm"
+                                    />
+                                )}
+                                {!readOnly && (
+                                    <button 
+                                        onClick={handleReset}
+                                        className="text-xs flex items-center gap-1 text-slate-500 hover:text-slate-700 px-2 py-1 transition-colors"
+                                    >
+                                        <X className="w-4 h-4" /> 重写
+                                    </button>
+                                )}
                             </div>
                         </div>
 
@@ -292,7 +363,7 @@ export const WritingPage: React.FC<WritingPageProps> = ({ initialResult, onResul
                                     <div className="font-serif text-lg md:text-xl leading-loose text-slate-800 whitespace-pre-wrap">
                                         {viewMode === 'diff' ? (
                                             showOriginal ? (
-                                                inputText
+                                                writingSourceText(result)
                                             ) : (
                                                 result.segments.map((segment, idx) => (
                                                     <UnifiedSegmentRenderer 
@@ -377,10 +448,16 @@ export const WritingPage: React.FC<WritingPageProps> = ({ initialResult, onResul
                                                         mode={result.mode} 
                                                     />
                                                 ) : (
-                                                    <GeneralFeedbackContent 
-                                                        feedback={result.generalFeedback} 
-                                                        mode={result.mode} 
-                                                    />
+                                                    <div className="space-y-4">
+                                                        <GeneralFeedbackContent 
+                                                            feedback={result.generalFeedback} 
+                                                            mode={result.mode} 
+                                                        />
+                                                        <ReadabilityComparison
+                                                            original={writingSourceText(result)}
+                                                            revised={result.segments.map(s => s.text).join('')}
+                                                        />
+                                                    </div>
                                                 )}
                                             </div>
                                         )}
@@ -438,14 +515,11 @@ const SyntaxModeTextRenderer: React.FC<{
     activeSentence: string | null;
     onSentenceClick: (s: string) => void;
 }> = ({ fullText, activeSentence, onSentenceClick }) => {
-    // Use Intl.Segmenter to split sentences
-    const segmenter = new (Intl as any).Segmenter('en', { granularity: 'sentence' });
-    const sentences = Array.from(segmenter.segment(fullText)) as { segment: string }[];
+    const sentences = segmentSentences(fullText);
 
     return (
         <>
-            {sentences.map((seg, idx) => {
-                const text = seg.segment;
+            {sentences.map((text, idx) => {
                 const isWhitespace = /^\s+$/.test(text);
                 
                 // Don't make whitespace clickable
@@ -0,0 +1,277 @@
+import http from 'http';
+import { ChatContextType, Message, ModelLevel, WritingMode } from '../types';
+import { ServiceError, toServiceError } from '../services/errors';
+import { WRITING_MODE_INSTRUCTIONS, CHAT_CONTEXT_LABELS } from '../services/prompts';
+import {
+  analyzeSentence, lookupWord, compareWords, evaluateWriting, getChatResponse, streamChatResponse,
+  summarizeConversation, generateSpeechAudio,
+} from '../services/geminiService';
+
+// --- API Server ---
+// The routes behind the backend proxy. `index.ts` sets up the environment before importing
+// this module, since the provider reads it on first use.
+
+const MAX_BODY_BYTES = 256 * 1024;
+
+export interface ApiServerOptions {
+  rateLimitPerMinute: number;
+  trustProxy?: boolean;   // Key clients by X-Forwarded-For; only safe behind a proxy that sets it
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: http.OutgoingHttpHeaders = {}) {
+    super(message);
+  }
+}
+
+// --- Rate Limiting ---
+// Fixed one-minute window per client IP; returns the seconds to wait, or 0 when allowed
+const WINDOW_MS = 60_000;
+
+const createRateLimiter = (limit: number) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  // Drop expired windows so the map doesn't grow with every client ever seen
+  setInterval(() => {
+    const now = Date.now();
+    for (const [ip, { start }] of windows) {
+      if (now - start >= WINDOW_MS) windows.delete(ip);
+    }
+  }, WINDOW_MS).unref();
+
+  return (ip: string): number => {
+    const now = Date.now();
+    const current = windows.get(ip);
+    if (!current || now - current.start >= WINDOW_MS) {
+      windows.set(ip, { start: now, count: 1 });
+      return 0;
+    }
+    if (current.count >= limit) {
+      return Math.ceil((current.start + WINDOW_MS - now) / 1000);
+    }
+    current.count++;
+    return 0;
+  };
+};
+
+// --- Helpers ---
+
+// Any client can send X-Forwarded-For, so it is only read when a trusted proxy in front sets it
+const clientIp = (req: http.IncomingMessage, trustProxy: boolean) => {
+  if (trustProxy) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = Array.isArray(forwarded) ? forwarded[0] : forwarded?.split(',')[0];
+    if (first?.trim()) return first.trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// A parsed JSON body; routes narrow each field with the helpers below
+type Body = Record<string, unknown>;
+
+const readBody = (req: http.IncomingMessage) => new Promise<Body>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size <= MAX_BODY_BYTES) {
+      chunks.push(chunk);
+      return;
+    }
+    // Drain the rest rather than destroying the socket, so the 413 still reaches the client;
+    // the connection is closed once that response is sent
+    req.off('data', onData);
+    req.resume();
+    reject(new HttpError(413, 'Request body too large', { Connection: 'close' }));
+  };
+  req.on('data', onData);
+  req.on('end', () => {
+    if (size > MAX_BODY_BYTES) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+    } catch {
+      reject(new HttpError(400, 'Invalid JSON body'));
+      return;
+    }
+    if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) resolve(parsed as Body);
+    else reject(new HttpError(400, 'Body must be a JSON object'));
+  });
+  req.on('error', reject);
+});
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `"${field}" must be a non-empty string`);
+  return value;
+};
+
+const MODEL_LEVELS: readonly ModelLevel[] = ['mini', 'quick', 'deep'];
+const WRITING_MODES = Object.keys(WRITING_MODE_INSTRUCTIONS) as WritingMode[];
+const CONTEXT_TYPES = Object.keys(CHAT_CONTEXT_LABELS) as ChatContextType[];
+const ROLES: readonly Message['role'][] = ['user', 'assistant'];
+
+// null or missing -> null
+const optionalString = (value: unknown, field: string): string | null => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') throw new HttpError(400, `"${field}" must be a string`);
+  return value;
+};
+
+// null or missing -> undefined, so the service's default applies
+const optionalOneOf = <T extends string>(value: unknown, allowed: readonly T[], field: string): T | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string' && (allowed as readonly string[]).includes(value)) return value as T;
+  throw new HttpError(400, `"${field}" must be one of ${allowed.join(', ')}`);
+};
+
+const requireOneOf = <T extends string>(value: unknown, allowed: readonly T[], field: string): T => {
+  const result = optionalOneOf(value, allowed, field);
+  if (!result) throw new HttpError(400, `"${field}" must be one of ${allowed.join(', ')}`);
+  return result;
+};
+
+const stringList = (value: unknown, field: string): string[] => {
+  if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) throw new HttpError(400, `"${field}" must be an array of strings`);
+  return value;
+};
+
+// Chat turns as the model sees them; UI-only notes are dropped
+const messageList = (value: unknown, field: string): Message[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new HttpError(400, `"${field}" must be an array`);
+  return value.flatMap((item: unknown, i): Message[] => {
+    const message = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+    if (message.kind === 'note') return [];
+    return [{
+      role: requireOneOf(message.role, ROLES, `${field}[${i}].role`),
+      content: optionalString(message.content, `${field}[${i}].content`) ?? '',
+    }];
+  });
+};
+
+const STATUS_BY_KIND: Record<ServiceError['kind'], number> = {
+  'missing-key': 500,
+  'rate-limit': 429,
+  'safety': 422,
+  'network': 502,
+  'schema': 502,
+  'invalid-input': 400,
+  'invalid-file': 400,
+  'cancelled': 499,
+  'interrupted': 502,
+  'unknown': 500,
+};
+
+const errorPayload = (error: unknown) => {
+  const serviceError = toServiceError(error);
+  return { status: STATUS_BY_KIND[serviceError.kind], body: { error: { kind: serviceError.kind, message: serviceError.message } } };
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// --- Routes ---
+
+type Handler = (body: Body, signal: AbortSignal, res: http.ServerResponse) => Promise<unknown>;
+
+const modelLevel = (body: Body) => optionalOneOf(body.modelLevel, MODEL_LEVELS, 'modelLevel');
+
+const chatArgs = (body: Body) => [
+  messageList(body.history, 'history'),
+  // The assistant can be asked before anything was analyzed; it then chats without context
+  body.contextContent == null ? null : requireString(body.contextContent, 'contextContent'),
+  requireString(body.message, 'message'),
+  optionalOneOf(body.contextType, CONTEXT_TYPES, 'contextType') ?? 'sentence',
+] as const;
+
+const routes: Record<string, Handler> = {
+  analyze: (body, signal) =>
+    analyzeSentence(requireString(body.sentence, 'sentence'), modelLevel(body), { signal }),
+
+  lookup: (body, signal) =>
+    lookupWord(requireString(body.word, 'word'), modelLevel(body), {
+      signal,
+      context: optionalString(body.context, 'context'),
+    }),
+
+  compare: (body, signal) =>
+    compareWords(stringList(body.words, 'words'), modelLevel(body), { signal }),
+
+  writing: (body, signal) =>
+    evaluateWriting(requireString(body.text, 'text'), requireOneOf(body.mode, WRITING_MODES, 'mode'), modelLevel(body), { signal }),
+
+  summarize: async (body, signal) => ({
+    text: await summarizeConversation(optionalString(body.previousSummary, 'previousSummary'), messageList(body.messages, 'messages'), { signal }),
+  }),
+
+  tts: async (body, signal) => ({
+    audio: await generateSpeechAudio(requireString(body.text, 'text'), { signal }),
+  }),
+
+  chat: async (body, signal, res) => {
+    const args = chatArgs(body);
+    const summary = optionalString(body.summary, 'summary');
+    if (body.stream !== true) {
+      return { text: await getChatResponse(...args, { signal, summary }) };
+    }
+
+    // Newline-delimited JSON: {"delta"} lines, then {"done"} or {"error"}
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+    let sent = '';
+    try {
+      await streamChatResponse(...args, (text) => {
+        res.write(JSON.stringify({ delta: text.slice(sent.length) }) + '\n');
+        sent = text;
+      }, { signal, summary });
+      res.write(JSON.stringify({ done: true }) + '\n');
+    } catch (error) {
+      if (!signal.aborted) res.write(JSON.stringify(errorPayload(error).body) + '\n');
+    }
+    res.end();
+    return undefined;
+  },
+};
+
+// --- Server ---
+
+export const createApiServer = ({ rateLimitPerMinute, trustProxy = false }: ApiServerOptions) => {
+  const takeToken = createRateLimiter(rateLimitPerMinute);
+
+  return http.createServer(async (req, res) => {
+    const started = Date.now();
+    const ip = clientIp(req, trustProxy);
+    const path = (req.url || '/').split('?')[0];
+
+    res.on('finish', () => {
+      console.log(`${new Date().toISOString()} ${ip} ${req.method} ${path} ${res.statusCode} ${Date.now() - started}ms`);
+    });
+
+    const route = path.startsWith('/api/') ? routes[path.slice('/api/'.length)] : undefined;
+    if (!route) return sendJson(res, 404, { error: { kind: 'unknown', message: 'Not found' } });
+    if (req.method !== 'POST') return sendJson(res, 405, { error: { kind: 'unknown', message: 'Method not allowed' } }, { Allow: 'POST' });
+
+    const retryAfter = takeToken(ip);
+    if (retryAfter > 0) {
+      return sendJson(res, 429, { error: { kind: 'rate-limit', message: '请求过于频繁，请稍后再试。' } }, { 'Retry-After': String(retryAfter) });
+    }
+
+    // Stop the model call if the browser goes away (cancel button, closed tab)
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const body = await readBody(req);
+      const result = await route(body, controller.signal, res);
+      if (!res.headersSent) sendJson(res, 200, result);
+    } catch (error) {
+      if (res.headersSent) return;
+      if (error instanceof HttpError) return sendJson(res, error.status, { error: { kind: 'unknown', message: error.message } }, error.headers);
+      const { status, body } = errorPayload(error);
+      sendJson(res, status, body);
+    }
+  });
+};
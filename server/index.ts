@@ -0,0 +1,25 @@
+import { loadEnv } from 'vite';
+
+// --- Backend Proxy ---
+// Runs the service layer on the server so the API key never reaches the browser.
+// Start with `npm run server` and build the client with API_MODE=proxy.
+
+const env = loadEnv(process.env.NODE_ENV || 'development', process.cwd(), '');
+for (const [key, value] of Object.entries(env)) {
+  if (process.env[key] === undefined) process.env[key] = value;
+}
+// Assigning undefined to process.env stores the string "undefined", which would pass for a key
+if (!process.env.API_KEY && process.env.GEMINI_API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
+// The server itself always talks to the provider directly
+delete process.env.API_MODE;
+
+const PORT = Number(process.env.PORT) || 8787;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 30;
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+
+// Imported after the environment is in place: the provider reads it on first use
+const { createApiServer } = await import('./app');
+
+createApiServer({ rateLimitPerMinute: RATE_LIMIT_PER_MINUTE, trustProxy: TRUST_PROXY }).listen(PORT, () => {
+  console.log(`GrammaViz API server listening on http://localhost:${PORT} (${RATE_LIMIT_PER_MINUTE} requests/min per client)`);
+});
@@ -0,0 +1,141 @@
+// --- Persistent Response Cache (IndexedDB) ---
+// Stores model results so repeated lookups/analyses don't trigger a new API call.
+// Every operation fails soft: if IndexedDB is unavailable the cache simply misses.
+
+const DB_NAME = 'grammaviz-cache';
+const DB_VERSION = 1;
+const STORE = 'responses';
+
+// Size limits: oldest-accessed entries are evicted first once either limit is exceeded
+const MAX_ENTRIES = 500;
+const MAX_BYTES = 50 * 1024 * 1024;
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CacheRecord {
+  key: string;
+  value: unknown;
+  size: number;       // Approximate size in bytes (JSON length)
+  expiresAt: number;
+  lastAccess: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('lastAccess', 'lastAccess');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("Cache unavailable:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Collapse whitespace so "Hello  world " and "Hello world" share an entry.
+// Case is kept: the analyzer treats "i go" and "I go" differently.
+export const normalizeInput = (input: string) => input.trim().replace(/\s+/g, ' ');
+
+export const buildCacheKey = (...parts: (string | number)[]) => parts.join('|');
+
+export const cacheGet = async <T>(key: string): Promise<T | null> => {
+  try {
+    const db = await openDb();
+    if (!db) return null;
+
+    const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+    const record = await promisify<CacheRecord | undefined>(store.get(key));
+    if (!record) return null;
+
+    if (record.expiresAt < Date.now()) {
+      store.delete(key);
+      return null;
+    }
+
+    store.put({ ...record, lastAccess: Date.now() });
+    return record.value as T;
+  } catch (err) {
+    console.warn("Cache read failed:", err);
+    return null;
+  }
+};
+
+export const cacheSet = async (key: string, value: unknown, ttlMs: number): Promise<void> => {
+  try {
+    const db = await openDb();
+    if (!db) return;
+
+    const now = Date.now();
+    const record: CacheRecord = {
+      key,
+      value,
+      size: JSON.stringify(value).length,
+      expiresAt: now + ttlMs,
+      lastAccess: now,
+    };
+    await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).put(record));
+    await pruneCache(db);
+  } catch (err) {
+    console.warn("Cache write failed:", err);
+  }
+};
+
+const pruneCache = async (db: IDBDatabase) => {
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  const records = await promisify<CacheRecord[]>(store.index('lastAccess').getAll());
+
+  const now = Date.now();
+  let count = records.length;
+  let bytes = records.reduce((sum, r) => sum + r.size, 0);
+
+  // Records come back ordered by lastAccess, oldest first
+  for (const record of records) {
+    const expired = record.expiresAt < now;
+    if (!expired && count <= MAX_ENTRIES && bytes <= MAX_BYTES) continue;
+    store.delete(record.key);
+    count--;
+    bytes -= record.size;
+  }
+};
+
+// Returns false if the cache couldn't be cleared
+export const clearCache = async (): Promise<boolean> => {
+  try {
+    const db = await openDb();
+    if (!db) return true;
+    await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+    return true;
+  } catch (err) {
+    console.warn("Cache clear failed:", err);
+    return false;
+  }
+};
+
+// Returns the cached value for `key`, or runs `load` and stores its result.
+// Pass `fresh` to skip the lookup and overwrite the entry with a new answer.
+export const withCache = async <T>(key: string, ttlMs: number, fresh: boolean, load: () => Promise<T>): Promise<T> => {
+  if (!fresh) {
+    const cached = await cacheGet<T>(key);
+    if (cached !== null) return cached;
+  }
+  const value = await load();
+  await cacheSet(key, value, ttlMs);
+  return value;
+};
@@ -0,0 +1,87 @@
+import { ChatContextType, ChatThread, Message } from "../types";
+import { summarizeConversation } from "./geminiService";
+
+// --- Assistant Conversation Memory ---
+// One thread per context (sentence / word / essay), persisted in localStorage.
+// Long threads are compacted: older turns are folded into a model-written summary
+// so the history sent with each message stays within HISTORY_TOKEN_BUDGET.
+
+const STORAGE_KEY = 'grammaviz-chat-threads';
+const MAX_THREADS = 30;
+const HISTORY_TOKEN_BUDGET = 3000;
+// Always send at least this many recent messages verbatim
+const MIN_RECENT_MESSAGES = 6;
+
+// Rough estimate: CJK characters are about one token each, other text about four characters per token
+export const estimateTokens = (text: string) => {
+  const cjk = (text.match(/[\u3000-\u9fff\uff00-\uffef]/g) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+export const loadThreads = (): ChatThread[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const threads: ChatThread[] = raw ? JSON.parse(raw) : [];
+    // A reply still marked as streaming was cut off by a reload
+    return threads.map(t => ({
+      ...t,
+      messages: t.messages.map(m => m.status === 'streaming' ? { ...m, status: 'interrupted' as const } : m),
+    }));
+  } catch {
+    return [];
+  }
+};
+
+export const saveThreads = (threads: ChatThread[]) => {
+  try {
+    const recent = [...threads].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, MAX_THREADS);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(recent));
+  } catch (err) {
+    console.warn("Failed to save chat threads:", err);
+  }
+};
+
+export const createThread = (contextType: ChatContextType, context: string): ChatThread => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  contextType,
+  context,
+  messages: [],
+  summarizedCount: 0,
+  updatedAt: Date.now(),
+});
+
+// Most recently used thread about exactly this context, if any
+export const findThread = (threads: ChatThread[], contextType: ChatContextType, context: string) =>
+  threads
+    .filter(t => t.contextType === contextType && t.context === context)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0] || null;
+
+const modelMessages = (messages: Message[]) => messages.filter(m => m.kind !== 'note');
+
+// Returns the history to send with the next message (excluding it), summarizing older
+// turns if the thread has outgrown the budget. The returned thread carries the updated summary.
+export const prepareHistory = async (
+  thread: ChatThread,
+  signal?: AbortSignal,
+): Promise<{ thread: ChatThread; history: Message[] }> => {
+  const pending = thread.messages.slice(thread.summarizedCount);
+  const tokens = estimateTokens(thread.summary || '') + modelMessages(pending).reduce((sum, m) => sum + estimateTokens(m.content), 0);
+
+  if (tokens <= HISTORY_TOKEN_BUDGET || pending.length <= MIN_RECENT_MESSAGES) {
+    return { thread, history: modelMessages(pending) };
+  }
+
+  // Fold everything except the most recent turns into the summary
+  const cut = thread.messages.length - MIN_RECENT_MESSAGES;
+  const toSummarize = modelMessages(thread.messages.slice(thread.summarizedCount, cut));
+
+  try {
+    const summary = await summarizeConversation(thread.summary || null, toSummarize, { signal });
+    const updated = { ...thread, summary, summarizedCount: cut };
+    return { thread: updated, history: modelMessages(updated.messages.slice(cut)) };
+  } catch (err) {
+    // If summarizing fails, fall back to dropping the oldest turns
+    console.warn("History summarization failed, trimming instead:", err);
+    return { thread, history: modelMessages(thread.messages.slice(cut)) };
+  }
+};
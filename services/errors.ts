@@ -0,0 +1,122 @@
+// --- Typed Service Errors ---
+// Every failure leaving the service layer is one of these, so pages can show a
+// specific message and decide whether retrying makes sense.
+
+// 'schema' is malformed model output; 'invalid-input' and 'invalid-file' are bad data from the user
+export type ServiceErrorKind =
+  | 'missing-key' | 'rate-limit' | 'safety' | 'network' | 'schema' | 'invalid-input' | 'invalid-file'
+  | 'cancelled' | 'interrupted' | 'unknown';
+
+export class ServiceError extends Error {
+  constructor(public kind: ServiceErrorKind, message: string, public retryable = false, public cause?: unknown) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+}
+
+export class MissingApiKeyError extends ServiceError {
+  constructor(cause?: unknown) {
+    super('missing-key', "未配置有效的 API Key，请检查环境变量或设置。", false, cause);
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export class RateLimitError extends ServiceError {
+  constructor(cause?: unknown) {
+    super('rate-limit', "请求过于频繁或额度已用完，请稍后再试。", true, cause);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class SafetyBlockError extends ServiceError {
+  constructor(public reason?: string) {
+    super('safety', "内容被模型安全策略拦截，请修改输入后再试。");
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class NetworkError extends ServiceError {
+  constructor(cause?: unknown) {
+    super('network', "网络连接失败或服务暂时不可用，请检查网络后重试。", true, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+// The model's JSON still didn't match the expected shape after the repair retry
+export class SchemaError extends ServiceError {
+  constructor(public target: string, public issues: string[]) {
+    super('schema', `模型返回的数据格式有误（${target}），请稍后重试。`);
+    this.name = 'SchemaError';
+  }
+}
+
+// A share link whose snapshot can't be decoded or doesn't hold a valid result
+export class InvalidShareLinkError extends ServiceError {
+  constructor(cause?: unknown) {
+    super('invalid-input', "分享链接无效或已损坏，请让对方重新分享。", false, cause);
+    this.name = 'InvalidShareLinkError';
+  }
+}
+
+// An imported sentence collection file that isn't valid JSON or has no sentences in it
+export class InvalidCollectionFileError extends ServiceError {
+  constructor(cause?: unknown) {
+    super('invalid-file', "文件格式无效，无法导入例句集。", false, cause);
+    this.name = 'InvalidCollectionFileError';
+  }
+}
+
+// An offline dictionary file without the ECDICT columns lookups need
+export class InvalidDictionaryFileError extends ServiceError {
+  constructor(cause?: unknown) {
+    super('invalid-file', "词典文件格式无效，需要包含 word 和 translation 列的 ECDICT 格式 CSV。", false, cause);
+    this.name = 'InvalidDictionaryFileError';
+  }
+}
+
+// A comparison query with fewer than two or more than four distinct words
+export class InvalidComparisonError extends ServiceError {
+  constructor() {
+    super('invalid-input', "请输入 2 到 4 个不同的单词或词组进行辨析。");
+    this.name = 'InvalidComparisonError';
+  }
+}
+
+export class CancelledError extends ServiceError {
+  constructor() {
+    super('cancelled', "请求已取消。");
+    this.name = 'CancelledError';
+  }
+}
+
+// A streamed reply broke off after some text had already arrived; `partial` holds that text
+export class StreamInterruptedError extends ServiceError {
+  constructor(public partial: string, cause?: unknown) {
+    super('interrupted', "回答中断了，请重试。", false, cause);
+    this.name = 'StreamInterruptedError';
+  }
+}
+
+export const isCancelled = (error: unknown) => error instanceof CancelledError;
+
+// Maps SDK, fetch and abort errors onto the taxonomy above.
+// `fallbackMessage` is shown for failures that fit no specific kind.
+export const toServiceError = (error: unknown, fallbackMessage = "请求失败，请稍后再试。"): ServiceError => {
+  if (error instanceof ServiceError) return error;
+
+  const err = error as { name?: string; status?: number; message?: string } | null;
+  if (err?.name === 'AbortError') return new CancelledError();
+
+  const status = err?.status;
+  const message = err?.message || '';
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return new RateLimitError(error);
+  if (status === 401 || status === 403 || /API key/i.test(message)) return new MissingApiKeyError(error);
+  // fetch rejects with a TypeError ("Failed to fetch", Safari's "Load failed"); any other
+  // TypeError is a bug in our own code and retrying it won't help
+  if ((status !== undefined && status >= 500) || /fetch|network/i.test(message)
+      || (error instanceof TypeError && /load failed/i.test(message))) {
+    return new NetworkError(error);
+  }
+  return new ServiceError('unknown', fallbackMessage, false, error);
+};
@@ -0,0 +1,298 @@
+import { createElement } from 'react';
+import Markdown from 'react-markdown';
+import {
+  AnalysisResult, DictionaryResult, WritingResult, WritingMode, WritingSegment, HistoryEntry,
+} from "../types";
+
+// --- Export ---
+// Every result becomes an ExportDocument: Markdown notes plus, where there is vocabulary,
+// Anki cards. The printable (PDF) layout is rendered from the same Markdown, so the two
+// never drift apart. Markdown sticks to CommonMark (no tables or strikethrough) because
+// the print view renders it without GFM.
+
+export interface AnkiCard {
+  front: string;   // HTML
+  back: string;    // HTML
+  tags: string[];
+}
+
+export interface ExportDocument {
+  title: string;
+  filename: string;   // Without extension
+  markdown: string;
+  cards: AnkiCard[];
+}
+
+const ANKI_TAG = 'grammaviz';
+
+const CATEGORY_LABELS: Record<NonNullable<WritingSegment['category']>, string> = {
+  grammar: '语法',
+  vocabulary: '词汇',
+  style: '文体',
+  collocation: '搭配',
+  punctuation: '标点',
+};
+
+const modeLabel = (mode: WritingMode) => mode === 'fix' ? '基础纠错' : `雅思 ${mode.replace('ielts-', '')}`;
+
+// --- Markdown ---
+
+// Model and user text can contain Markdown syntax of its own
+const md = (text: string) => text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+
+const quote = (text: string) => text.split('\n').map(line => `> ${line}`).join('\n');
+
+const fileSlug = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40).replace(/-+$/, '') || 'export';
+
+const analysisMarkdown = (result: AnalysisResult) => {
+  const lines = [`## ${md(result.englishSentence)}`, '', md(result.chineseTranslation), ''];
+
+  if (result.sentencePattern) lines.push(`- **句型**：${md(result.sentencePattern)}`);
+  if (result.mainTense) lines.push(`- **时态**：${md(result.mainTense)}`);
+  if (result.sentencePattern || result.mainTense) lines.push('');
+
+  const { correction } = result;
+  if (correction) {
+    const removed = correction.changes.filter(c => c.type === 'remove').map(c => `“${md(c.text.trim())}”`);
+    const added = correction.changes.filter(c => c.type === 'add').map(c => `“${md(c.text.trim())}”`);
+    const changes = [removed.length ? `删除 ${removed.join('、')}` : '', added.length ? `添加 ${added.join('、')}` : '']
+      .filter(Boolean).join('；');
+    lines.push('### 纠错', '', `- **原句**：${md(correction.original)}`, `- **修正**：${md(correction.corrected)}`);
+    if (changes) lines.push(`- **改动**：${changes}`);
+    if (correction.errorType) lines.push(`- **错误类型**：${md(correction.errorType)}`);
+    if (correction.reason) lines.push(`- **说明**：${md(correction.reason)}`);
+    lines.push('');
+  }
+
+  lines.push('### 意群', '');
+  result.chunks.forEach((chunk, i) => {
+    lines.push(`${i + 1}. **${md(chunk.text)}** — ${md(chunk.grammarDescription)}（${md(chunk.role)}）`);
+  });
+  lines.push('');
+
+  lines.push('### 逐词详解', '');
+  for (const token of result.detailedTokens) {
+    lines.push(`- **${md(token.text)}** *${md(token.partOfSpeech)} · ${md(token.role)}* — ${md(token.meaning)}`);
+    lines.push(`  ${md(token.explanation)}`);
+  }
+  lines.push('');
+
+  const breakdown = result.clauseBreakdown;
+  if (breakdown) {
+    lines.push('### 长难句拆解', '', `- **主干**：${md(breakdown.skeleton)}（${md(breakdown.skeletonTranslation)}）`);
+    for (const clause of breakdown.clauses) {
+      const details = [clause.pattern, clause.tense].filter(Boolean).map(d => md(d!)).join(' · ');
+      lines.push(`- **${md(clause.type)}**：${md(clause.text)} — ${md(clause.attachesTo)}${details ? `（${details}）` : ''}`);
+    }
+    lines.push('');
+    breakdown.simplification.forEach((step, i) => {
+      lines.push(`${i + 1}. ${md(step.note)}：${md(step.sentence)}`);
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+const dictionaryMarkdown = (result: DictionaryResult) => {
+  const lines = [`## ${md(result.word)} ${md(result.phonetic)}`, ''];
+  if (result.context) {
+    lines.push(quote(md(result.context)), '');
+    if (result.contextNote) lines.push(md(result.contextNote), '');
+  }
+
+  for (const entry of result.entries) {
+    lines.push(`### ${md(entry.partOfSpeech)}${entry.cocaFrequency ? `（COCA ${md(entry.cocaFrequency)}）` : ''}`, '');
+    entry.definitions.forEach((def, i) => {
+      lines.push(`${i + 1}. **${md(def.meaning)}**${def.inContext ? '（本句词义）' : ''}${def.explanation ? ` — ${md(def.explanation)}` : ''}`, '');
+      // Offline dictionary entries have no example
+      if (def.example) lines.push(quote(`${md(def.example)}\n${md(def.exampleTranslation)}`).replace(/^/gm, '   '), '');
+    });
+  }
+
+  if (result.collocations?.length) {
+    lines.push('### 常用搭配', '');
+    for (const col of result.collocations) {
+      lines.push(`- **${md(col.phrase)}** — ${md(col.meaning)}`, '');
+      lines.push(quote(`${md(col.example)}\n${md(col.exampleTranslation)}`).replace(/^/gm, '  '), '');
+    }
+  }
+
+  if (result.wordFamily?.length) {
+    lines.push('### 词族派生', '', ...result.wordFamily.map(m => `- **${md(m.word)}** *${md(m.partOfSpeech)}* ${md(m.meaning)}`), '');
+  }
+  if (result.synonyms?.length) {
+    lines.push('### 近义词', '', ...result.synonyms.map(w => `- **${md(w.word)}** ${md(w.meaning)}${w.note ? ` — ${md(w.note)}` : ''}`), '');
+  }
+  if (result.antonyms?.length) {
+    lines.push('### 反义词', '', ...result.antonyms.map(w => `- **${md(w.word)}** ${md(w.meaning)}`), '');
+  }
+  if (result.etymology) {
+    lines.push('### 词源', '', md(result.etymology.explanation), '');
+    if (result.etymology.mnemonic) lines.push(`记忆：${md(result.etymology.mnemonic)}`, '');
+  }
+
+  return lines.join('\n');
+};
+
+const writingMarkdown = (result: WritingResult) => {
+  const original = result.segments.map(s => s.type === 'change' ? s.original || '' : s.text).join('');
+  const revised = result.segments.map(s => s.text).join('');
+  const changes = result.segments.filter(s => s.type === 'change');
+
+  const lines = [
+    `## 写作批改（${modeLabel(result.mode)}）`, '',
+    '### 原文', '', md(original), '',
+    '### 修改后', '', md(revised), '',
+    '### 总评', '', md(result.generalFeedback), '',
+  ];
+
+  if (changes.length) {
+    lines.push('### 修改说明', '');
+    changes.forEach((change, i) => {
+      const category = change.category ? `［${CATEGORY_LABELS[change.category]}］` : '';
+      const from = change.original ? `“${md(change.original)}”` : '（无）';
+      const to = change.text ? `“${md(change.text)}”` : '（删除）';
+      lines.push(`${i + 1}. ${category}${from} → ${to}${change.reason ? `：${md(change.reason)}` : ''}`);
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+// --- Anki ---
+
+const html = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The sentence with the first occurrence of the token in bold, for context on the card front
+const inContext = (sentence: string, token: string) => {
+  const at = sentence.toLowerCase().indexOf(token.toLowerCase());
+  if (at < 0) return html(sentence);
+  return `${html(sentence.slice(0, at))}<b>${html(sentence.slice(at, at + token.length))}</b>${html(sentence.slice(at + token.length))}`;
+};
+
+const analysisCards = (result: AnalysisResult): AnkiCard[] =>
+  result.detailedTokens.map(token => ({
+    front: `${html(token.text)}<br><small>${inContext(result.englishSentence, token.text)}</small>`,
+    back: `${html(token.meaning)}<br><i>${html(token.partOfSpeech)} · ${html(token.role)}</i><br>${html(token.explanation)}`,
+    tags: [ANKI_TAG, 'sentence'],
+  }));
+
+const dictionaryCards = (result: DictionaryResult): AnkiCard[] => [
+  ...result.entries.flatMap(entry => entry.definitions.map(def => ({
+    front: `${html(result.word)} <i>${html(entry.partOfSpeech)}</i><br><small>${inContext(def.example, result.word)}</small>`,
+    back: `${html(def.meaning)}<br>${html(def.explanation)}<br><small>${html(def.exampleTranslation)}</small>`,
+    tags: [ANKI_TAG, 'dictionary'],
+  }))),
+  ...(result.collocations || []).map(col => ({
+    front: `${html(col.phrase)}<br><small>${inContext(col.example, col.phrase)}</small>`,
+    back: `${html(col.meaning)}<br><small>${html(col.exampleTranslation)}</small>`,
+    tags: [ANKI_TAG, 'collocation'],
+  })),
+];
+
+// Anki's text import: the header lines set the separator, enable HTML and name the tags column
+export const toAnkiText = (cards: AnkiCard[]) => {
+  const field = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+  const rows = cards.map(card => [field(card.front), field(card.back), card.tags.join(' ')].join('\t'));
+  return ['#separator:tab', '#html:true', '#tags column:3', ...rows].join('\n') + '\n';
+};
+
+// --- Documents ---
+
+export const analysisExport = (result: AnalysisResult): ExportDocument => ({
+  title: result.englishSentence,
+  filename: `grammaviz-${fileSlug(result.englishSentence)}`,
+  markdown: analysisMarkdown(result),
+  cards: analysisCards(result),
+});
+
+export const dictionaryExport = (result: DictionaryResult): ExportDocument => ({
+  title: result.word,
+  filename: `grammaviz-${fileSlug(result.word)}`,
+  markdown: dictionaryMarkdown(result),
+  cards: dictionaryCards(result),
+});
+
+export const writingExport = (result: WritingResult): ExportDocument => ({
+  title: `写作批改（${modeLabel(result.mode)}）`,
+  filename: `grammaviz-writing-${result.mode}`,
+  markdown: writingMarkdown(result),
+  cards: [],
+});
+
+const entryExport = (entry: HistoryEntry) => {
+  switch (entry.tab) {
+    case 'analyzer': return analysisExport(entry.result);
+    case 'dictionary': return dictionaryExport(entry.result);
+    case 'writing': return writingExport(entry.result);
+  }
+};
+
+// Batch export: one document holding every entry, in the order given
+export const historyExport = (entries: HistoryEntry[]): ExportDocument => {
+  const docs = entries.map(entryExport);
+  return {
+    title: `GrammaViz 学习笔记（${entries.length} 条）`,
+    filename: `grammaviz-history-${new Date().toISOString().slice(0, 10)}`,
+    markdown: docs.map(doc => doc.markdown).join('\n---\n\n'),
+    cards: docs.flatMap(doc => doc.cards),
+  };
+};
+
+// --- Output ---
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportMarkdown = (doc: ExportDocument) =>
+  downloadFile(`${doc.filename}.md`, `# ${md(doc.title)}\n\n${doc.markdown}`, 'text/markdown;charset=utf-8');
+
+export const exportAnki = (doc: ExportDocument) =>
+  downloadFile(`${doc.filename}-anki.txt`, toAnkiText(doc.cards), 'text/plain;charset=utf-8');
+
+const PRINT_STYLES = `
+  body { font-family: Georgia, "Songti SC", serif; color: #1e293b; max-width: 46rem; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.6; }
+  h1 { font-size: 1.6rem; border-bottom: 2px solid #f9a8d4; padding-bottom: .4rem; }
+  h2 { font-size: 1.3rem; margin-top: 2rem; break-after: avoid; }
+  h3 { font-size: 1rem; color: #db2777; margin-top: 1.2rem; break-after: avoid; }
+  li { margin: .2rem 0; break-inside: avoid; }
+  blockquote { margin: .3rem 0; padding-left: .8rem; border-left: 3px solid #e2e8f0; color: #475569; }
+  hr { border: none; border-top: 1px dashed #cbd5e1; margin: 2rem 0; break-after: page; }
+  @page { margin: 1.5cm; }
+`;
+
+// Full HTML page for the print dialog ("Save as PDF"). The server renderer is only needed
+// here, so it is loaded on first print instead of shipping in the main bundle.
+export const printableHtml = async (doc: ExportDocument) => {
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const body = renderToStaticMarkup(createElement(Markdown, null, `# ${md(doc.title)}\n\n${doc.markdown}`));
+  return `<!DOCTYPE html><html lang="zh-CN"><head><meta charset="utf-8"><title>${html(doc.title)}</title><style>${PRINT_STYLES}</style></head><body>${body}</body></html>`;
+};
+
+// Returns false if the browser blocked the print window. The window opens right away, while
+// still inside the click that asked for it, and is filled in once the page is rendered.
+export const printDocument = (doc: ExportDocument): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  printableHtml(doc).then(page => {
+    win.document.write(page);
+    win.document.close();
+    win.focus();
+    // Give the new window a moment to lay out before opening the dialog
+    setTimeout(() => win.print(), 250);
+  }).catch(err => {
+    console.error("Failed to render the print view:", err);
+    win.close();
+  });
+  return true;
+};
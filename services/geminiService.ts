@@ -1,26 +1,73 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult, DictionaryResult, WritingResult, Message, WritingMode, ModelLevel } from "../types";
+import { Type } from "@google/genai";
+import { AnalysisResult, DictionaryResult, ComparisonResult, WritingResult, Message, WritingMode, ModelLevel, ChatContextType } from "../types";
+import { getProvider, LlmProvider } from "./providers";
+import { JsonRequest } from "./providers/types";
+import { MissingApiKeyError, InvalidComparisonError, SchemaError, StreamInterruptedError, toServiceError } from "./errors";
+import { withRetry } from "./retry";
+import { Validation, validateAnalysis, validateDictionary, validateComparison, validateWriting } from "./validators";
+import { withCache, cacheGet, cacheSet, buildCacheKey, normalizeInput, DAY_MS } from "./cacheService";
+import { isProxyMode, callApi, streamApi } from "./proxyClient";
+import { renderPrompt, promptVersion, WRITING_MODE_INSTRUCTIONS, CHAT_CONTEXT_LABELS } from "./prompts";
+import { lookupOffline, mergeWithOffline } from "./offlineDictionary";
+
+export interface RequestOptions {
+  fresh?: boolean;       // Bypass the cache and fetch a new answer
+  signal?: AbortSignal;  // Cancels the request, including pending retries
+}
+
+// TTS has no prompt template; bump this if the speech request changes
+const SPEECH_VERSION = 1;
 
-const apiKey = process.env.API_KEY;
+const CACHE_TTL = 30 * DAY_MS;
 
-// Initialize Gemini client
-const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+// --- Helper: Client Mode ---
+// The server runs the prompt; the browser still caches the result locally
+const viaProxy = <T>(route: string, cacheParts: (string | number)[], body: unknown, options: RequestOptions): Promise<T> =>
+  withCache(buildCacheKey('proxy', ...cacheParts), CACHE_TTL, !!options.fresh, () => callApi<T>(route, body, options.signal));
 
 // --- Helper: Get Model Config ---
-const getModelConfig = (level: ModelLevel) => {
-  switch (level) {
-    case 'mini':
-      return { model: 'gemini-2.5-flash', thinkingBudget: 0 };
-    case 'quick':
-      // User requested "2.5 pro" with budget 500. 
-      // Since gemini-2.5-pro isn't always available, we default to 3-pro for stability or 2.5-flash if preferred.
-      // However, 3-pro-preview is the robust 'pro' choice. 
-      // We will use gemini-3-pro-preview with low budget to simulate 'quick thinking'.
-      return { model: 'gemini-2.5-flash', thinkingBudget: 500 };
-    case 'deep':
-      return { model: 'gemini-2.5-flash', thinkingBudget: 2000 };
-    default:
-      return { model: 'gemini-2.5-flash', thinkingBudget: 0 };
+// Each provider maps the three levels onto its own models and thinking budgets
+export const getModelConfig = (level: ModelLevel) => {
+  const { models } = getProvider();
+  return models[level] || models.mini;
+};
+
+// Cached results depend on the concrete model settings, not just the level name
+const modelCacheTag = (provider: LlmProvider, level: ModelLevel) => {
+  const { model, thinkingBudget } = getModelConfig(level);
+  return `${model}:${thinkingBudget}:${provider.temperature ?? 'default'}`;
+};
+
+// --- Helper: Validated JSON Generation ---
+// Parses and validates the model output. On failure, retries once with the issues
+// appended to the prompt so the model can repair its answer, then raises SchemaError.
+const generateValidated = async <T>(
+  provider: LlmProvider,
+  request: JsonRequest,
+  validate: (raw: unknown) => Validation<T>,
+  target: string,
+): Promise<T> => {
+  let prompt = request.prompt;
+
+  for (let attempt = 0; ; attempt++) {
+    const jsonText = await withRetry(() => provider.generateJson({ ...request, prompt, temperature: provider.temperature }), request.signal);
+
+    let validation: Validation<T>;
+    try {
+      validation = validate(JSON.parse(jsonText));
+    } catch {
+      validation = { value: null as T, issues: ["Response is not valid JSON"] };
+    }
+    if (!validation.issues.length) return validation.value;
+
+    console.warn(`Invalid ${target} response (attempt ${attempt + 1}):`, validation.issues);
+    if (attempt >= 1) throw new SchemaError(target, validation.issues);
+
+    prompt = `${request.prompt}
+
+    **Your previous response did not match the required JSON schema.** Fix these problems and return the complete JSON again:
+    ${validation.issues.map(issue => `- ${issue}`).join('\n    ')}
+    `;
   }
 };
 
@@ -36,7 +83,7 @@ function getDecodeContext() {
   return sharedDecodeContext;
 }
 
-function decode(base64: string) {
+export function decode(base64: string) {
   const binaryString = atob(base64);
   const len = binaryString.length;
   const bytes = new Uint8Array(len);
@@ -46,7 +93,7 @@ function decode(base64: string) {
   return bytes;
 }
 
-async function decodeAudioData(
+export async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
   sampleRate: number,
@@ -67,33 +114,29 @@ async function decodeAudioData(
 
 // --- Public Services ---
 
-export const generateSpeech = async (text: string): Promise<AudioBuffer> => {
-  if (!ai) throw new Error("API Key missing");
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: text }] }],
-    config: {
-      // Cast to any to allow string literal 'AUDIO' which is more robust across environments
-      responseModalities: ['AUDIO'] as any, 
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: 'Kore' },
-        },
-      },
-    },
-  });
-
-  const part = response.candidates?.[0]?.content?.parts?.[0];
-  const base64Audio = part?.inlineData?.data;
-  
-  if (!base64Audio) {
-    if (part?.text) {
-        console.warn("Gemini TTS returned text instead of audio. Text:", part.text);
-    }
-    throw new Error("No audio data received from Gemini");
+// Returns base64 16-bit PCM. Cached as-is: AudioBuffers can't be stored in IndexedDB.
+export const generateSpeechAudio = async (text: string, options: RequestOptions = {}): Promise<string> => {
+  const cacheParts = ['generateSpeech', normalizeInput(text), SPEECH_VERSION];
+  if (isProxyMode()) {
+    const { audio } = await viaProxy<{ audio: string }>('tts', cacheParts, { text }, options);
+    return audio;
   }
 
+  const provider = getProvider();
+  if (!provider.isConfigured()) throw new MissingApiKeyError();
+
+  const cacheKey = buildCacheKey(provider.id, provider.ttsVoice, ...cacheParts);
+  return withCache(cacheKey, CACHE_TTL, !!options.fresh, () => withRetry(() => provider.generateSpeech({
+    model: provider.ttsModel,
+    voice: provider.ttsVoice,
+    text,
+    signal: options.signal,
+  }), options.signal));
+};
+
+export const generateSpeech = async (text: string, options: RequestOptions = {}): Promise<AudioBuffer> => {
+  const base64Audio = await generateSpeechAudio(text, options);
+
   // Use the shared context for decoding to be efficient
   const decodeCtx = getDecodeContext();
   
@@ -109,442 +152,571 @@ export const generateSpeech = async (text: string): Promise<AudioBuffer> => {
   return audioBuffer;
 };
 
-export const analyzeSentence = async (sentence: string, modelLevel: ModelLevel = 'mini'): Promise<AnalysisResult> => {
-  if (!ai) {
-    throw new Error("API Key is missing. Please check your environment configuration.");
+export const analyzeSentence = async (sentence: string, modelLevel: ModelLevel = 'mini', options: RequestOptions = {}): Promise<AnalysisResult> => {
+  const cacheParts = ['analyzeSentence', normalizeInput(sentence), modelLevel, promptVersion('analyzeSentence')];
+  if (isProxyMode()) return viaProxy<AnalysisResult>('analyze', cacheParts, { sentence, modelLevel }, options);
+
+  const provider = getProvider();
+  if (!provider.isConfigured()) throw new MissingApiKeyError();
+
+  const cacheKey = buildCacheKey(provider.id, modelCacheTag(provider, modelLevel), ...cacheParts);
+  if (!options.fresh) {
+    const cached = await cacheGet<AnalysisResult>(cacheKey);
+    if (cached) return cached;
   }
 
   const { model, thinkingBudget } = getModelConfig(modelLevel);
 
-  const prompt = `
-    你是一位精通语言学和英语教学的专家 AI。请分析以下英语句子： "${sentence}"。
-    目标受众是正在学习英语的学生，因此分析需要**清晰、准确且具有教育意义**。
-
-    **Processing Steps (Thinking Process):**
-    1.  **Grammar Check (纠错)**: 
-        - 仔细检查句子是否有语法错误。
-        - 如果有错，创建一个修正后的版本。
-        - **注意**：后续的所有分析（chunks, detailedTokens, structure）必须基于**修正后(Corrected)** 的句子进行。
-        - **Diff Generation**: 生成 'changes' 数组时，必须是严格的文本差异对比 (diff)。
-          - 'remove': 仅包含被删除的原文片段，**绝对不要**包含 "->" 符号或 "change x to y" 这样的描述。例如原句是 "i go"，修正为 "I go"，则 'remove' text 为 "i"，'add' text 为 "I"。
-          - 'add': 仅包含新加入的片段。
-          - 'keep': 保持不变的部分。
-
-    2.  **Macro Analysis (宏观结构)**:
-        - 识别核心句型结构 (Pattern)，**必须包含中文翻译**。格式要求："English Pattern (中文名称)"。例如："S + V + O (主谓宾)"。
-        - 识别核心时态 (Tense)，**必须包含中文翻译**。格式要求："English Tense (中文名称)"。例如："Present Simple (一般现在时)"。
-
-    3.  **Chunking (可视化意群分块)**:
-        - 目标是展示句子的“节奏”和“意群”(Sense Groups)。
-        - **原则**：
-          - 所有的修饰语应与其中心词在一起（例如 "The very tall man" 是一个块）。
-          - 介词短语通常作为一个整体（例如 "in the morning" 是一个块）。
-          - 谓语动词部分合并（例如 "have been waiting" 是一个块）。
-          - 不定式短语合并（例如 "to go home" 是一个块）。
-
-    4.  **Detailed Analysis (逐词/短语详解)**:
-        - **核心原则 - 固定搭配优先**：
-          - 遇到短语动词 (phrasal verbs)、固定习语 (idioms)、介词搭配 (collocations) 时，**必须**将它们作为一个整体 Token，**绝对不要拆分**。
-          - 例如："look forward to", "take care of", "a cup of", "depend on"。
-          - **特别处理可分离短语动词 (Separable Phrasal Verbs)**：
-            - 如果遇到像 "pop us back", "turn it on" 这样动词与小品词被代词隔开的情况，请务必**识别出其核心短语动词**（如 "pop back"）。
-            - 在详细解释 (explanation) 中，**必须**明确指出该词属于短语动词 "pop back" (或相应短语)，并解释该短语动词的含义，而不仅仅是单个单词的意思。
-            - 示例：针对 "pop us back"，在解释 "pop" 时，应说明 "pop ... back 是短语动词，意为迅速回去/放回"。
-        - **解释 (Explanation)**：
-          - 不要只给一个词性标签。要解释它在句子中的**功能**和**为什么用这种形式**。
-          - 例如：不要只写"过去分词"，要写"过去分词，与 has 构成现在完成时，表示动作已完成"。
-        - **含义 (Meaning)**：提供在当前语境下的中文含义。
-
-    请返回 JSON 格式数据。
-  `;
+  const prompt = renderPrompt('analyzeSentence', { sentence });
 
   try {
-    const response = await ai.models.generateContent({
-      model: model, 
-      contents: prompt,
-      config: {
-        thinkingConfig: thinkingBudget > 0 ? { thinkingBudget } : undefined, 
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            correction: {
+    const parsedData = await generateValidated(provider, {
+      model,
+      thinkingBudget,
+      prompt,
+      signal: options.signal,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          correction: {
+            type: Type.OBJECT,
+            description: "Optional. Only return if the user input has grammar errors.",
+            properties: {
+              original: { type: Type.STRING },
+              corrected: { type: Type.STRING },
+              errorType: { type: Type.STRING },
+              reason: { type: Type.STRING },
+              changes: {
+                 type: Type.ARRAY,
+                 description: "Strict diff. 'remove' text must be raw original text only.",
+                 items: {
+                     type: Type.OBJECT,
+                     properties: {
+                         type: { type: Type.STRING, enum: ["add", "remove", "keep"] },
+                         text: { type: Type.STRING, description: "Raw text content only. No arrows or explanations." }
+                     }
+                 }
+              }
+            },
+            required: ["original", "corrected", "errorType", "reason", "changes"]
+          },
+          sentencePattern: { type: Type.STRING, description: "e.g., 'S + V + O (主谓宾)', 'S + V + P (主系表)'. Include Chinese." },
+          mainTense: { type: Type.STRING, description: "e.g., 'Present Simple (一般现在时)'. Include Chinese." },
+          chunks: {
+            type: Type.ARRAY,
+            description: "High-level phrase chunks for visualization (Sense Groups)",
+            items: {
               type: Type.OBJECT,
-              description: "Optional. Only return if the user input has grammar errors.",
               properties: {
-                original: { type: Type.STRING },
-                corrected: { type: Type.STRING },
-                errorType: { type: Type.STRING },
-                reason: { type: Type.STRING },
-                changes: {
-                   type: Type.ARRAY,
-                   description: "Strict diff. 'remove' text must be raw original text only.",
-                   items: {
-                       type: Type.OBJECT,
-                       properties: {
-                           type: { type: Type.STRING, enum: ["add", "remove", "keep"] },
-                           text: { type: Type.STRING, description: "Raw text content only. No arrows or explanations." }
-                       }
-                   }
-                }
+                text: { type: Type.STRING },
+                grammarDescription: { type: Type.STRING, description: "Simplified grammar term, e.g. '名词短语(主语)'" },
+                partOfSpeech: { type: Type.STRING, description: "e.g. 名词短语" },
+                role: { type: Type.STRING, description: "e.g. 主语" },
               },
-              required: ["original", "corrected", "errorType", "reason", "changes"]
+              required: ["text", "grammarDescription", "partOfSpeech", "role"],
             },
-            sentencePattern: { type: Type.STRING, description: "e.g., 'S + V + O (主谓宾)', 'S + V + P (主系表)'. Include Chinese." },
-            mainTense: { type: Type.STRING, description: "e.g., 'Present Simple (一般现在时)'. Include Chinese." },
-            chunks: {
-              type: Type.ARRAY,
-              description: "High-level phrase chunks for visualization (Sense Groups)",
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  text: { type: Type.STRING },
-                  grammarDescription: { type: Type.STRING, description: "Simplified grammar term, e.g. '名词短语(主语)'" },
-                  partOfSpeech: { type: Type.STRING, description: "e.g. 名词短语" },
-                  role: { type: Type.STRING, description: "e.g. 主语" },
-                },
-                required: ["text", "grammarDescription", "partOfSpeech", "role"],
+          },
+          detailedTokens: {
+            type: Type.ARRAY,
+            description: "Detailed analysis of lexical units/phrases, respecting idioms",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                text: { type: Type.STRING },
+                partOfSpeech: { type: Type.STRING, description: "e.g. 动词短语, 介词短语" },
+                role: { type: Type.STRING, description: "e.g. 谓语, 状语" },
+                meaning: { type: Type.STRING, description: "Contextual Chinese meaning" },
+                explanation: { type: Type.STRING, description: "Pedagogical explanation of usage" },
               },
+              required: ["text", "partOfSpeech", "role", "meaning", "explanation"],
             },
-            detailedTokens: {
-              type: Type.ARRAY,
-              description: "Detailed analysis of lexical units/phrases, respecting idioms",
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  text: { type: Type.STRING },
-                  partOfSpeech: { type: Type.STRING, description: "e.g. 动词短语, 介词短语" },
-                  role: { type: Type.STRING, description: "e.g. 谓语, 状语" },
-                  meaning: { type: Type.STRING, description: "Contextual Chinese meaning" },
-                  explanation: { type: Type.STRING, description: "Pedagogical explanation of usage" },
+          },
+          clauseBreakdown: {
+            type: Type.OBJECT,
+            description: "Optional. Only return if the sentence has subordinate clauses or non-finite phrases.",
+            properties: {
+              skeleton: { type: Type.STRING, description: "Main clause with everything subordinate removed" },
+              skeletonTranslation: { type: Type.STRING },
+              clauses: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    text: { type: Type.STRING },
+                    type: { type: Type.STRING, description: "e.g. '定语从句 (Relative Clause)'. Include Chinese." },
+                    attachesTo: { type: Type.STRING, description: "What it modifies or stands in for, in Chinese, e.g. '修饰 the scientists'" },
+                    pattern: { type: Type.STRING, description: "The clause's own pattern, e.g. 'S + V + O (主谓宾)'" },
+                    tense: { type: Type.STRING, description: "Omit for non-finite phrases" },
+                  },
+                  required: ["text", "type", "attachesTo"],
+                },
+              },
+              simplification: {
+                type: Type.ARRAY,
+                description: "Rewrite steps from the original towards short simple sentences",
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    sentence: { type: Type.STRING },
+                    note: { type: Type.STRING, description: "What this step split off or simplified, in Chinese" },
+                  },
+                  required: ["sentence", "note"],
                 },
-                required: ["text", "partOfSpeech", "role", "meaning", "explanation"],
               },
             },
-            chineseTranslation: { type: Type.STRING },
+            required: ["skeleton", "skeletonTranslation", "clauses", "simplification"],
+          },
+          syntaxTree: {
+            type: Type.ARRAY,
+            description: "Constituency tree of the corrected sentence as a flat node list linked by parentId",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING, description: "Unique, e.g. 'n1'" },
+                parentId: { type: Type.STRING, description: "Empty string for the root clause" },
+                label: { type: Type.STRING, description: "e.g. S, SBAR, NP, VP, PP, or a word tag like N, V" },
+                kind: { type: Type.STRING, enum: ["clause", "phrase", "word"] },
+                text: { type: Type.STRING },
+                relation: { type: Type.STRING, description: "Relation to the parent in Chinese, e.g. 主语, 宾语从句" },
+                isHead: { type: Type.BOOLEAN },
+                chunkIndex: { type: Type.INTEGER, description: "Index of the matching chunk, or -1" },
+                tokenIndex: { type: Type.INTEGER, description: "Index of the matching detailedToken, or -1" },
+              },
+              required: ["id", "parentId", "label", "kind", "text", "relation", "isHead", "chunkIndex", "tokenIndex"],
+            },
           },
-          required: ["chunks", "detailedTokens", "chineseTranslation", "sentencePattern", "mainTense"],
+          chineseTranslation: { type: Type.STRING },
         },
+        required: ["chunks", "detailedTokens", "chineseTranslation", "sentencePattern", "mainTense", "syntaxTree"],
       },
-    });
-
-    const jsonText = response.text;
-    if (!jsonText) {
-      throw new Error("Empty response from Gemini");
-    }
+    }, validateAnalysis, 'analysis');
 
-    const parsedData = JSON.parse(jsonText);
-    
-    return {
+    const result: AnalysisResult = {
       ...parsedData,
       englishSentence: parsedData.correction ? parsedData.correction.corrected : sentence,
+      promptVersion: promptVersion('analyzeSentence'),
     };
+    await cacheSet(cacheKey, result, CACHE_TTL);
+    return result;
   } catch (error) {
     console.error("Gemini API Error:", error);
-    throw new Error("无法分析该句子。请检查网络或 API Key 设置。");
+    throw toServiceError(error, "无法分析该句子。请检查网络或 API Key 设置。");
   }
 };
 
-export const lookupWord = async (word: string, modelLevel: ModelLevel = 'mini'): Promise<DictionaryResult> => {
-  if (!ai) throw new Error("API Key missing");
+// Without a sentence there is no sense to mark; drop anything the model marked anyway
+const withoutContext = (result: DictionaryResult): DictionaryResult => ({
+  ...result,
+  contextNote: undefined,
+  entries: result.entries.map(entry => ({
+    ...entry,
+    definitions: entry.definitions.map(({ inContext, ...def }) => def),
+  })),
+});
+
+export interface LookupOptions extends RequestOptions {
+  context?: string | null;   // Sentence the word was picked from; the entry then marks the sense used there
+  enrich?: boolean;          // Ask the model even when the offline dictionary has the word
+}
+
+// Words in the imported offline dictionary are answered locally. The model is asked for
+// everything else, for lookups from a sentence (only it can pick the sense used there), and
+// when the user asks to enrich a local entry; its entries then follow the local ones.
+export const lookupWord = async (word: string, modelLevel: ModelLevel = 'mini', options: LookupOptions = {}): Promise<DictionaryResult> => {
+  const context = options.context?.trim() || null;
+  const local = context ? null : await lookupOffline(word);
+  if (local && !options.enrich) return local;
+
+  const result = await lookupWordWithModel(word, context, modelLevel, options);
+  return local ? mergeWithOffline(local, result) : result;
+};
+
+const lookupWordWithModel = async (word: string, context: string | null, modelLevel: ModelLevel, options: RequestOptions): Promise<DictionaryResult> => {
+  // Dictionary lookups are case-insensitive; the sentence isn't
+  const cacheParts = ['lookupWord', normalizeInput(word).toLowerCase(), ...(context ? [normalizeInput(context)] : []), modelLevel, promptVersion('lookupWord')];
+  if (isProxyMode()) return viaProxy<DictionaryResult>('lookup', cacheParts, { word, context, modelLevel }, options);
+
+  const provider = getProvider();
+  if (!provider.isConfigured()) throw new MissingApiKeyError();
+
+  const cacheKey = buildCacheKey(provider.id, modelCacheTag(provider, modelLevel), ...cacheParts);
+  if (!options.fresh) {
+    const cached = await cacheGet<DictionaryResult>(cacheKey);
+    if (cached) return cached;
+  }
 
   const { model, thinkingBudget } = getModelConfig(modelLevel);
 
-  const prompt = `
-    Act as a professional learner's dictionary specifically tailored for students preparing for **IELTS, TOEFL, and CET-6**.
-    User Look-up Query: "${word}".
-    
-    **STEP 1: Normalization & Generalization (CRITICAL)**
-    1. Analyze the user's input. Is it a specific instance of a phrasal verb or collocation with specific pronouns?
-    2. If yes, convert it to the **Canonical Form** (Headword).
-       - Input: "pop us back" -> Output: "pop sth back"
-       - Input: "made up my mind" -> Output: "make up one's mind"
-    
-    **STEP 2: Filtering & Content Generation**
-    1. **Target Audience**: Students preparing for exams (IELTS, TOEFL, CET-6) and daily communication.
-    2. **Filtering Rule**: 
-       - OMIT rare, archaic, obsolete, or highly technical scientific definitions unless the word itself is technical.
-       - Focus ONLY on the most common 3-4 meanings used in modern English and exams.
-    3. **COCA Frequency per Part of Speech**:
-       - For each part of speech (e.g. Noun vs Verb), estimate its specific COCA frequency rank.
-       - Example: "address" might be "Rank 1029" as a Noun, but "Rank 1816" as a Verb.
-       - Provide a concise string like "Rank 1029" or "Top 2000".
-
-    **STEP 3: Structure**
-    - Definitions: Clear, simple English explanation + Concise Chinese meaning.
-    - Examples: Must be natural, modern, and relevant to exam contexts or daily life.
-    
-    **STEP 4: Collocations & Fixed Phrases**
-    - Identify 3-5 high-frequency collocations, idioms, or fixed phrases containing this word.
-    - Prioritize phrases useful for IELTS/TOEFL writing or speaking.
-    - Provide meaning and a sentence example for each.
-
-    Structure the response by Part of Speech (POS).
-    Return strictly JSON.
-  `;
+  const prompt = renderPrompt('lookupWord', {
+    word,
+    contextSection: context ? renderPrompt('lookupContext', { context }, { inputRule: false }) : '',
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: model, 
-      contents: prompt,
-      config: {
-        thinkingConfig: thinkingBudget > 0 ? { thinkingBudget } : undefined,
-        responseMimeType: "application/json",
-        responseSchema: {
+    const parsed = await generateValidated(provider, {
+      model,
+      thinkingBudget,
+      prompt,
+      signal: options.signal,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          word: { type: Type.STRING, description: "The canonical dictionary form (e.g. 'pop sth back')" },
+          phonetic: { type: Type.STRING, description: "IPA pronunciation, e.g. /həˈləʊ/" },
+          entries: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                partOfSpeech: { type: Type.STRING, description: "e.g., 'verb', 'noun'" },
+                cocaFrequency: { type: Type.STRING, description: "Specific COCA rank for this POS, e.g., 'Rank 1029'" },
+                definitions: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      meaning: { type: Type.STRING, description: "Core Chinese meaning" },
+                      explanation: { type: Type.STRING, description: "Simple English explanation" },
+                      example: { type: Type.STRING },
+                      exampleTranslation: { type: Type.STRING },
+                      inContext: { type: Type.BOOLEAN, description: "True only for the sense used in the given sentence" },
+                    },
+                    required: ["meaning", "explanation", "example", "exampleTranslation"]
+                  }
+                }
+              },
+              required: ["partOfSpeech", "definitions"]
+            }
+          },
+          collocations: {
+            type: Type.ARRAY,
+            description: "Common collocations, idioms, or fixed phrases containing this word.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                 phrase: { type: Type.STRING, description: "The collocation phrase, e.g. 'make a decision'" },
+                 meaning: { type: Type.STRING, description: "Chinese meaning of the phrase" },
+                 example: { type: Type.STRING, description: "Example sentence using the phrase" },
+                 exampleTranslation: { type: Type.STRING, description: "Chinese translation of the example" }
+              },
+              required: ["phrase", "meaning", "example", "exampleTranslation"]
+            }
+          },
+          wordFamily: {
+            type: Type.ARRAY,
+            description: "Derivations of the headword in other parts of speech, e.g. decision, decisive, decisively for 'decide'",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                word: { type: Type.STRING },
+                partOfSpeech: { type: Type.STRING, description: "e.g., 'noun', 'adjective'" },
+                meaning: { type: Type.STRING, description: "Chinese meaning" },
+              },
+              required: ["word", "partOfSpeech", "meaning"]
+            }
+          },
+          synonyms: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                word: { type: Type.STRING },
+                meaning: { type: Type.STRING, description: "Chinese meaning" },
+                note: { type: Type.STRING, description: "How it differs from the headword in meaning, register or usage (Chinese)" },
+              },
+              required: ["word", "meaning", "note"]
+            }
+          },
+          antonyms: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                word: { type: Type.STRING },
+                meaning: { type: Type.STRING, description: "Chinese meaning" },
+              },
+              required: ["word", "meaning"]
+            }
+          },
+          etymology: {
+            type: Type.OBJECT,
+            properties: {
+              explanation: { type: Type.STRING, description: "Origin and roots/affixes with their meanings (Chinese)" },
+              mnemonic: { type: Type.STRING, description: "A short memory hint built on the roots (Chinese)" },
+            },
+            required: ["explanation"]
+          },
+          contextNote: { type: Type.STRING, description: "Only when a sentence is given: what the word means and does in it (Chinese)" },
+        },
+        required: ["word", "phonetic", "entries", "collocations"]
+      },
+    }, validateDictionary, 'dictionary');
+
+    const result: DictionaryResult = context
+      ? { ...parsed, context, promptVersion: promptVersion('lookupWord') }
+      : { ...withoutContext(parsed), promptVersion: promptVersion('lookupWord') };
+    await cacheSet(cacheKey, result, CACHE_TTL);
+    return result;
+  } catch (error) {
+    console.error("Dictionary API Error", error);
+    throw toServiceError(error, "无法查询该单词，请重试。");
+  }
+};
+
+// "affect / effect", "rise, raise" or "despite vs although" -> the distinct words, in order
+export const parseComparisonQuery = (query: string): string[] => {
+  const words = query.split(/\s*(?:[\/,，、;；|]|\bvs\.?(?=\s|$))\s*/i).map(normalizeInput).filter(Boolean);
+  return words.filter((w, i) => words.findIndex(other => other.toLowerCase() === w.toLowerCase()) === i);
+};
+
+export const MIN_COMPARE_WORDS = 2;
+export const MAX_COMPARE_WORDS = 4;
+
+export const compareWords = async (words: string[], modelLevel: ModelLevel = 'mini', options: RequestOptions = {}): Promise<ComparisonResult> => {
+  const list = parseComparisonQuery(words.join('/'));
+  if (list.length < MIN_COMPARE_WORDS || list.length > MAX_COMPARE_WORDS) throw new InvalidComparisonError();
+
+  const cacheParts = ['compareWords', ...list.map(w => w.toLowerCase()), modelLevel, promptVersion('compareWords')];
+  if (isProxyMode()) return viaProxy<ComparisonResult>('compare', cacheParts, { words: list, modelLevel }, options);
+
+  const provider = getProvider();
+  if (!provider.isConfigured()) throw new MissingApiKeyError();
+
+  const { model, thinkingBudget } = getModelConfig(modelLevel);
+  const prompt = renderPrompt('compareWords', { words: list.join(' / ') });
+
+  return withCache(buildCacheKey(provider.id, modelCacheTag(provider, modelLevel), ...cacheParts), CACHE_TTL, !!options.fresh, async () => {
+    try {
+      const parsed = await generateValidated(provider, {
+        model,
+        thinkingBudget,
+        prompt,
+        signal: options.signal,
+        schema: {
           type: Type.OBJECT,
           properties: {
-            word: { type: Type.STRING, description: "The canonical dictionary form (e.g. 'pop sth back')" },
-            phonetic: { type: Type.STRING, description: "IPA pronunciation, e.g. /həˈləʊ/" },
-            entries: {
+            coreDifference: { type: Type.STRING, description: "The key distinction in 2-3 sentences (Chinese)" },
+            items: {
               type: Type.ARRAY,
+              description: "One per compared word, in the order given",
               items: {
                 type: Type.OBJECT,
                 properties: {
-                  partOfSpeech: { type: Type.STRING, description: "e.g., 'verb', 'noun'" },
-                  cocaFrequency: { type: Type.STRING, description: "Specific COCA rank for this POS, e.g., 'Rank 1029'" },
-                  definitions: {
-                    type: Type.ARRAY,
-                    items: {
-                      type: Type.OBJECT,
-                      properties: {
-                        meaning: { type: Type.STRING, description: "Core Chinese meaning" },
-                        explanation: { type: Type.STRING, description: "Simple English explanation" },
-                        example: { type: Type.STRING },
-                        exampleTranslation: { type: Type.STRING },
-                      },
-                      required: ["meaning", "explanation", "example", "exampleTranslation"]
-                    }
-                  }
+                  word: { type: Type.STRING, description: "One of the compared words, exactly as given" },
+                  partOfSpeech: { type: Type.STRING },
+                  meaning: { type: Type.STRING, description: "Core Chinese meaning" },
+                  patterns: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Grammar patterns, e.g. 'affect sb/sth'" },
+                  register: { type: Type.STRING, description: "Formality and typical contexts (Chinese)" },
+                  example: { type: Type.STRING },
+                  exampleTranslation: { type: Type.STRING },
                 },
-                required: ["partOfSpeech", "definitions"]
+                required: ["word", "partOfSpeech", "meaning", "patterns", "register", "example", "exampleTranslation"]
               }
             },
-            collocations: {
+            quiz: {
               type: Type.ARRAY,
-              description: "Common collocations, idioms, or fixed phrases containing this word.",
               items: {
                 type: Type.OBJECT,
                 properties: {
-                   phrase: { type: Type.STRING, description: "The collocation phrase, e.g. 'make a decision'" },
-                   meaning: { type: Type.STRING, description: "Chinese meaning of the phrase" },
-                   example: { type: Type.STRING, description: "Example sentence using the phrase" },
-                   exampleTranslation: { type: Type.STRING, description: "Chinese translation of the example" }
+                  sentence: { type: Type.STRING, description: "Sentence with the gap marked as ___" },
+                  answer: { type: Type.STRING, description: "Exactly one of the compared words" },
+                  explanation: { type: Type.STRING, description: "Why that word fits (Chinese)" },
                 },
-                required: ["phrase", "meaning", "example", "exampleTranslation"]
+                required: ["sentence", "answer", "explanation"]
               }
-            }
+            },
           },
-          required: ["word", "phonetic", "entries", "collocations"]
-        }
-      }
-    });
-
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("Empty response");
-    return JSON.parse(jsonText);
-  } catch (error) {
-    console.error("Dictionary API Error", error);
-    throw new Error("无法查询该单词，请重试。");
-  }
+          required: ["coreDifference", "items", "quiz"]
+        },
+      }, (raw) => validateComparison(raw, list), 'comparison');
+      return { ...parsed, promptVersion: promptVersion('compareWords') };
+    } catch (error) {
+      console.error("Comparison API Error", error);
+      throw toServiceError(error, "无法完成辨析，请重试。");
+    }
+  });
 };
 
-export const evaluateWriting = async (text: string, mode: WritingMode, modelLevel: ModelLevel = 'mini'): Promise<WritingResult> => {
-  if (!ai) throw new Error("API Key missing");
+export const evaluateWriting = async (text: string, mode: WritingMode, modelLevel: ModelLevel = 'mini', options: RequestOptions = {}): Promise<WritingResult> => {
+  // Only trim: whitespace inside an essay carries its paragraph structure
+  const cacheParts = ['evaluateWriting', mode, text.trim(), modelLevel, promptVersion('evaluateWriting')];
+  if (isProxyMode()) return viaProxy<WritingResult>('writing', cacheParts, { text, mode, modelLevel }, options);
 
-  const { model, thinkingBudget } = getModelConfig(modelLevel);
+  const provider = getProvider();
+  if (!provider.isConfigured()) throw new MissingApiKeyError();
 
-  let modeInstructions = "";
-
-  switch (mode) {
-    case 'fix':
-      modeInstructions = `
-      **MODE: BASIC CORRECTION (基础纠错)**
-      - Target: General accuracy.
-      - Task: Focus STRICTLY on correcting grammar, spelling, punctuation, and serious awkwardness.
-      - Do NOT change style, tone, or vocabulary unless it is incorrect.
-      - Keep the output very close to the original, only fixing errors.
-      `;
-      break;
-    case 'ielts-5.5':
-      modeInstructions = `
-      **MODE: IELTS BAND 5.5 (Modest User)**
-      - Target Level: Partial command of the language.
-      - Task: Correct all basic errors. Ensure the overall meaning is clear.
-      - Style: Keep vocabulary simple but correct. Avoid complex structures if they risk error.
-      - Feedback focus: Basic grammar and clarity.
-      `;
-      break;
-    case 'ielts-6.0':
-      modeInstructions = `
-      **MODE: IELTS BAND 6.0 (Competent User)**
-      - Target Level: Generally effective command.
-      - Task: Use a mix of simple and complex sentence forms. Correct errors.
-      - Style: Use adequate vocabulary. Ensure coherence.
-      `;
-      break;
-    case 'ielts-6.5':
-      modeInstructions = `
-      **MODE: IELTS BAND 6.5 (Between Competent and Good)**
-      - Target Level: Stronger competence.
-      - Task: Introduce more complex structures. Enhance vocabulary slightly beyond basic.
-      - Style: Improve flow and linking words.
-      `;
-      break;
-    case 'ielts-7.0':
-      modeInstructions = `
-      **MODE: IELTS BAND 7.0 (Good User)**
-      - Target Level: Operational command, occasional inaccuracies.
-      - Task: Use a variety of complex structures. Use less common lexical items.
-      - Style: Academic and formal. Show awareness of style and collocation.
-      `;
-      break;
-    case 'ielts-7.5':
-      modeInstructions = `
-      **MODE: IELTS BAND 7.5 (Very Good User)**
-      - Target Level: High accuracy.
-      - Task: Sophisticated control of vocabulary and grammar. Minimize errors to very occasional slips.
-      - Style: Highly polished, natural, and academic.
-      `;
-      break;
-    case 'ielts-8.0':
-      modeInstructions = `
-      **MODE: IELTS BAND 8.0 (Expert-like User)**
-      - Target Level: Fully operational command.
-      - Task: Use a wide range of vocabulary fluently and flexibly to convey precise meanings.
-      - Style: Skillful use of uncommon lexical items. Error-free sentences. Native-like flow.
-      `;
-      break;
-    default:
-      modeInstructions = `**MODE: BASIC CORRECTION**`;
+  const cacheKey = buildCacheKey(provider.id, modelCacheTag(provider, modelLevel), ...cacheParts);
+  if (!options.fresh) {
+    const cached = await cacheGet<WritingResult>(cacheKey);
+    if (cached) return cached;
   }
 
-  const prompt = `
-    Act as a professional English Editor and IELTS Examiner.
-    
-    ${modeInstructions}
-
-    **Task**:
-    Analyze the user's text and reconstruct it into the *Improved Version* according to the selected mode.
-    You must return the result as a sequence of SEGMENTS that allow us to reconstruct the full text while highlighting exactly what changed.
-
-    **Input Text**: "${text}"
-
-    **Output Logic**:
-    - Iterate through the improved text.
-    - If a part of the text is the same as original, mark it as 'unchanged'.
-    - If you changed, added, or removed something, create a segment of type 'change'.
-      - 'text': The NEW/IMPROVED text.
-      - 'original': The ORIGINAL text that was replaced (or empty string if added).
-      - 'reason': A brief explanation in Chinese.
-      - 'category': One of 'grammar', 'vocabulary', 'style', 'punctuation', 'collocation' | 'punctuation'.
-    - **CRITICAL - PARAGRAPH PRESERVATION**: 
-      - You MUST preserve all paragraph breaks and newlines (\\n) from the original text exactly as they are.
-      - When you encounter a newline in the original text, return it as a separate segment: { "text": "\\n", "type": "unchanged" }.
-      - Do NOT merge paragraphs.
-    
-    **Example**:
-    Original: "I go store.\\n\\nIt was fun."
-    Improved: "I went to the store.\\n\\nIt was fun."
-    Segments:
-    [
-      { "text": "I ", "type": "unchanged" },
-      { "text": "went", "original": "go", "type": "change", "reason": "Past tense", "category": "grammar" },
-      { "text": " to the ", "original": "", "type": "change", "reason": "Preposition", "category": "grammar" },
-      { "text": "store.", "type": "unchanged" },
-      { "text": "\\n\\n", "type": "unchanged" },
-      { "text": "It was fun.", "type": "unchanged" }
-    ]
-
-    Return strictly JSON.
-  `;
+  const { model, thinkingBudget } = getModelConfig(modelLevel);
+
+  const prompt = renderPrompt('evaluateWriting', {
+    modeInstructions: WRITING_MODE_INSTRUCTIONS[mode] || WRITING_MODE_INSTRUCTIONS.fix,
+    text,
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: model, 
-      contents: prompt,
-      config: {
-        thinkingConfig: thinkingBudget > 0 ? { thinkingBudget } : undefined,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            generalFeedback: { type: Type.STRING, description: "Overall feedback in Chinese, specific to the chosen IELTS band or correction mode." },
-            segments: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  type: { type: Type.STRING, enum: ["unchanged", "change"] },
-                  text: { type: Type.STRING, description: "The content of this segment (improved version)" },
-                  original: { type: Type.STRING, description: "Original text if changed" },
-                  reason: { type: Type.STRING, description: "Reason for change" },
-                  category: { type: Type.STRING, enum: ["grammar", "vocabulary", "style", "punctuation", "collocation"] }
-                },
-                required: ["type", "text"]
-              }
+    const parsed = await generateValidated(provider, {
+      model,
+      thinkingBudget,
+      prompt,
+      signal: options.signal,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          generalFeedback: { type: Type.STRING, description: "Overall feedback in Chinese, specific to the chosen IELTS band or correction mode." },
+          segments: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                type: { type: Type.STRING, enum: ["unchanged", "change"] },
+                text: { type: Type.STRING, description: "The content of this segment (improved version)" },
+                original: { type: Type.STRING, description: "Original text if changed" },
+                reason: { type: Type.STRING, description: "Reason for change" },
+                category: { type: Type.STRING, enum: ["grammar", "vocabulary", "style", "punctuation", "collocation"] }
+              },
+              required: ["type", "text"]
             }
-          },
-          required: ["generalFeedback", "segments"]
-        }
-      }
-    });
+          }
+        },
+        required: ["generalFeedback", "segments"]
+      },
+    }, validateWriting, 'writing');
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("Empty response");
-    
-    const parsed = JSON.parse(jsonText);
-    return {
+    const result: WritingResult = {
         mode,
         generalFeedback: parsed.generalFeedback,
-        segments: parsed.segments
+        segments: parsed.segments,
+        promptVersion: promptVersion('evaluateWriting'),
     };
+    await cacheSet(cacheKey, result, CACHE_TTL);
+    return result;
 
   } catch (error) {
     console.error("Writing Evaluation API Error", error);
-    throw new Error("写作分析失败，请检查网络或稍后再试。");
+    throw toServiceError(error, "写作分析失败，请检查网络或稍后再试。");
   }
 };
 
+export interface ChatOptions extends RequestOptions {
+    summary?: string | null;   // Summary of earlier turns that were compacted out of `history`
+}
+
+// Builds the assistant's system prompt around the current sentence/word/essay
+const buildChatInstruction = (contextContent: string | null, contextType: ChatContextType, summary?: string | null) => {
+    const { label, empty } = CHAT_CONTEXT_LABELS[contextType] || CHAT_CONTEXT_LABELS.sentence;
+    return renderPrompt('chatAssistant', {
+        contextLabel: label,
+        context: contextContent || empty,
+        summarySection: summary ? renderPrompt('chatSummary', { summary }, { inputRule: false }) : '',
+    });
+};
+
 export const getChatResponse = async (
     history: Message[], 
     contextContent: string | null, 
     userMessage: string,
-    contextType: 'sentence' | 'word' | 'writing' = 'sentence'
-) => {
-    if (!ai) throw new Error("API Key missing");
-    
-    let contextInstruction = "";
-    if (contextType === 'sentence') {
-         contextInstruction = `**当前正在分析的句子**: "${contextContent || '用户暂未输入句子'}"。`;
-    } else if (contextType === 'word') {
-         contextInstruction = `**当前正在查询的单词/词组**: "${contextContent || '用户暂未查询单词'}"。`;
-    } else if (contextType === 'writing') {
-         contextInstruction = `**当前正在润色的文章**: "${contextContent || '用户暂未输入文章'}"。`;
+    contextType: ChatContextType = 'sentence',
+    options: ChatOptions = {}
+): Promise<string> => {
+    if (isProxyMode()) {
+        const { text } = await callApi<{ text: string }>('chat', {
+            history, contextContent, message: userMessage, contextType, summary: options.summary,
+        }, options.signal);
+        return text;
     }
 
-    const systemInstruction = `
-        你是一个热情、专业的英语学习助教。
-        
-        ${contextInstruction}
-        
-        **你的任务**：
-        1. 解答用户关于英语语法、单词用法、句子结构或词汇辨析的问题。
-        2. **始终使用中文**回答。
-        3. 使用 **Markdown** 格式来美化你的回答，使其清晰易读：
-           - 使用 **加粗** 来强调重点单词或语法术语。
-           - 使用列表（1. 或 -）来分点解释。
-           - 适当分段。
-        4. 语气要鼓励、积极，像一位耐心的老师。
-        5. **特殊指令**：如果用户询问类似 "pop us back" 这样的短语，请解释这是一种口语表达，核心是短语动词 "pop back" (迅速回去)，"us" 是宾语。
-    `;
+    const provider = getProvider();
+    if (!provider.isConfigured()) throw new MissingApiKeyError();
+
+    return withRetry(() => provider.chat({
+        model: provider.chatModel,
+        systemInstruction: buildChatInstruction(contextContent, contextType, options.summary),
+        history: history.filter(m => m.kind !== 'note'),
+        message: userMessage,
+        temperature: provider.temperature,
+        signal: options.signal,
+    }), options.signal);
+};
 
-    const chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-            systemInstruction,
+// Streaming variant of getChatResponse. `onText` receives the accumulated reply after every chunk.
+// Connection failures are retried only until the first chunk arrives; after that a failure
+// raises StreamInterruptedError carrying the partial text.
+export const streamChatResponse = async (
+    history: Message[],
+    contextContent: string | null,
+    userMessage: string,
+    contextType: ChatContextType,
+    onText: (text: string) => void,
+    options: ChatOptions = {}
+): Promise<string> => {
+    if (isProxyMode()) {
+        let text = '';
+        return streamApi('chat', {
+            history, contextContent, message: userMessage, contextType, summary: options.summary, stream: true,
+        }, (delta) => {
+            text += delta;
+            onText(text);
+        }, options.signal);
+    }
+
+    const provider = getProvider();
+    if (!provider.isConfigured()) throw new MissingApiKeyError();
+
+    let received = '';
+    return withRetry(async () => {
+        try {
+            return await provider.chatStream({
+                model: provider.chatModel,
+                systemInstruction: buildChatInstruction(contextContent, contextType, options.summary),
+                history: history.filter(m => m.kind !== 'note'),
+                message: userMessage,
+                temperature: provider.temperature,
+                signal: options.signal,
+            }, (delta) => {
+                received += delta;
+                onText(received);
+            });
+        } catch (error) {
+            if (received && !options.signal?.aborted) throw new StreamInterruptedError(received, error);
+            throw error;
         }
+    }, options.signal);
+};
+
+// Condenses earlier assistant turns into a short summary so long threads fit the token budget
+export const summarizeConversation = async (
+    previousSummary: string | null,
+    messages: Message[],
+    options: RequestOptions = {}
+): Promise<string> => {
+    if (isProxyMode()) {
+        const { text } = await callApi<{ text: string }>('summarize', { previousSummary, messages }, options.signal);
+        return text;
+    }
+
+    const provider = getProvider();
+    if (!provider.isConfigured()) throw new MissingApiKeyError();
+
+    const transcript = messages
+        .map(m => `${m.role === 'user' ? '学生' : '助教'}: ${m.content}`)
+        .join('\n\n');
+
+    const systemInstruction = renderPrompt('summarizeConversation', {});
+    const message = renderPrompt('conversationTranscript', {
+        previousSummary: previousSummary || '（无）',
+        transcript,
     });
 
-    const result = await chat.sendMessage({ message: userMessage });
-    return result.text;
-};
\ No newline at end of file
+    return withRetry(() => provider.chat({
+        model: provider.chatModel,
+        systemInstruction,
+        history: [],
+        message,
+        signal: options.signal,
+    }), options.signal);
+};
@@ -0,0 +1,114 @@
+import { HistoryEntry, HistoryTab, WritingResult } from "../types";
+import { normalizeInput, DAY_MS } from "./cacheService";
+
+// --- Result History ---
+// Analyzer, dictionary and writing results, persisted in localStorage so a refresh or the
+// next request doesn't lose them. Entries keep the full result, so re-opening one needs no
+// API call. Submitting the same input again replaces its entry instead of adding a duplicate.
+
+const STORAGE_KEY = 'grammaviz-history';
+const MAX_ENTRIES = 200;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+export type NewHistoryEntry = DistributiveOmit<HistoryEntry, 'id' | 'createdAt'>;
+
+export type HistoryRange = 'all' | 'today' | 'week' | 'month';
+
+export interface HistoryFilter {
+  query: string;
+  tab: HistoryTab | 'all';
+  range: HistoryRange;
+  pattern: string;        // Sentence pattern of analyzer entries; '' for any
+}
+
+export const EMPTY_FILTER: HistoryFilter = { query: '', tab: 'all', range: 'all', pattern: '' };
+
+export const loadHistory = (): HistoryEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveHistory = (entries: HistoryEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries.slice(0, MAX_ENTRIES)));
+  } catch (err) {
+    console.warn("Failed to save history:", err);
+  }
+};
+
+// The text a writing result was produced from
+export const writingSourceText = (result: WritingResult) =>
+  result.segments.map(s => s.type === 'change' ? s.original || '' : s.text).join('');
+
+const entryKey = (entry: NewHistoryEntry) => {
+  const mode = entry.tab === 'writing' ? entry.result.mode : '';
+  return `${entry.tab}|${mode}|${normalizeInput(entry.input)}`;
+};
+
+// Newest first
+export const addHistoryEntry = (entries: HistoryEntry[], entry: NewHistoryEntry, now = Date.now()): HistoryEntry[] => {
+  const key = entryKey(entry);
+  const created = {
+    ...entry,
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: now,
+  } as HistoryEntry;
+  return [created, ...entries.filter(e => entryKey(e) !== key)].slice(0, MAX_ENTRIES);
+};
+
+// One-line label and preview for lists
+export const historyTitle = (entry: HistoryEntry) => {
+  switch (entry.tab) {
+    case 'analyzer': return entry.result.englishSentence;
+    case 'dictionary': return entry.result.word;
+    case 'writing': return entry.input;
+  }
+};
+
+export const historySummary = (entry: HistoryEntry) => {
+  switch (entry.tab) {
+    case 'analyzer': return entry.result.chineseTranslation;
+    case 'dictionary': return entry.result.entries.flatMap(e => e.definitions.map(d => d.meaning)).slice(0, 3).join('；');
+    case 'writing': return entry.result.generalFeedback;
+  }
+};
+
+const searchableText = (entry: HistoryEntry) => {
+  const parts = [entry.input, historyTitle(entry), historySummary(entry)];
+  if (entry.tab === 'analyzer') parts.push(entry.result.sentencePattern || '', entry.result.mainTense || '');
+  return parts.join('\n').toLowerCase();
+};
+
+const rangeStart = (range: HistoryRange, now: number) => {
+  switch (range) {
+    case 'all': return 0;
+    case 'today': {
+      const midnight = new Date(now);
+      midnight.setHours(0, 0, 0, 0);
+      return midnight.getTime();
+    }
+    case 'week': return now - 7 * DAY_MS;
+    case 'month': return now - 30 * DAY_MS;
+  }
+};
+
+export const filterHistory = (entries: HistoryEntry[], filter: HistoryFilter, now = Date.now()) => {
+  const query = filter.query.trim().toLowerCase();
+  const since = rangeStart(filter.range, now);
+
+  return entries.filter(entry => {
+    if (filter.tab !== 'all' && entry.tab !== filter.tab) return false;
+    if (entry.createdAt < since) return false;
+    if (filter.pattern && (entry.tab !== 'analyzer' || entry.result.sentencePattern !== filter.pattern)) return false;
+    return !query || searchableText(entry).includes(query);
+  });
+};
+
+// Distinct sentence patterns among analyzer entries, for the pattern filter
+export const historyPatterns = (entries: HistoryEntry[]) => [
+  ...new Set(entries.flatMap(e => e.tab === 'analyzer' && e.result.sentencePattern ? [e.result.sentencePattern] : [])),
+].sort();
@@ -0,0 +1,144 @@
+import { DictionaryCollocation, DictionaryDefinition, DictionaryResult, NotebookItem, NotebookItemKind } from "../types";
+import { normalizeInput } from "./cacheService";
+
+// --- Vocabulary Notebook ---
+// Headwords, senses and collocations the user saved from the dictionary, persisted in
+// localStorage. Each item keeps enough of the result to be reviewed without looking the
+// word up again, plus the user's own tags and note.
+
+const STORAGE_KEY = 'grammaviz-notebook';
+
+export type NewNotebookItem = Omit<NotebookItem, 'id' | 'addedAt' | 'tags' | 'note'>;
+
+export type NotebookSort = 'newest' | 'oldest' | 'alphabetical';
+
+export interface NotebookFilter {
+  query: string;
+  kind: NotebookItemKind | 'all';
+  tag: string;            // '' for any
+  sort: NotebookSort;
+}
+
+export const EMPTY_NOTEBOOK_FILTER: NotebookFilter = { query: '', kind: 'all', tag: '', sort: 'newest' };
+
+export const loadNotebook = (): NotebookItem[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveNotebook = (items: NotebookItem[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  } catch (err) {
+    console.warn("Failed to save notebook:", err);
+  }
+};
+
+// --- Building Items ---
+
+const fromResult = (result: DictionaryResult) => ({
+  word: result.word,
+  phonetic: result.phonetic,
+  ...(result.context ? { source: result.context } : {}),
+});
+
+export const headwordItem = (result: DictionaryResult): NewNotebookItem => ({
+  kind: 'word',
+  ...fromResult(result),
+  meaning: result.entries.flatMap(e => e.definitions.map(d => d.meaning)).slice(0, 3).join('；'),
+});
+
+export const definitionItem = (result: DictionaryResult, partOfSpeech: string, definition: DictionaryDefinition): NewNotebookItem => ({
+  kind: 'definition',
+  ...fromResult(result),
+  partOfSpeech,
+  meaning: definition.meaning,
+  explanation: definition.explanation,
+  example: definition.example,
+  exampleTranslation: definition.exampleTranslation,
+});
+
+export const collocationItem = (result: DictionaryResult, collocation: DictionaryCollocation): NewNotebookItem => ({
+  kind: 'collocation',
+  ...fromResult(result),
+  phrase: collocation.phrase,
+  meaning: collocation.meaning,
+  example: collocation.example,
+  exampleTranslation: collocation.exampleTranslation,
+});
+
+// Saving the same headword, sense or collocation again finds the existing item
+export const notebookKey = (item: NewNotebookItem) => {
+  const word = normalizeInput(item.word).toLowerCase();
+  switch (item.kind) {
+    case 'word': return `word|${word}`;
+    case 'definition': return `definition|${word}|${item.partOfSpeech}|${item.meaning}`;
+    case 'collocation': return `collocation|${word}|${normalizeInput(item.phrase || '').toLowerCase()}`;
+  }
+};
+
+// --- Editing ---
+
+// Newest first
+export const addNotebookItem = (items: NotebookItem[], item: NewNotebookItem, now = Date.now()): NotebookItem[] => {
+  const key = notebookKey(item);
+  if (items.some(i => notebookKey(i) === key)) return items;
+  const created: NotebookItem = {
+    ...item,
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    tags: [],
+    note: '',
+    addedAt: now,
+  };
+  return [created, ...items];
+};
+
+// Saves the item, or removes it when it is already in the notebook
+export const toggleNotebookItem = (items: NotebookItem[], item: NewNotebookItem, now = Date.now()) => {
+  const key = notebookKey(item);
+  return items.some(i => notebookKey(i) === key)
+    ? items.filter(i => notebookKey(i) !== key)
+    : addNotebookItem(items, item, now);
+};
+
+export const updateNotebookItem = (items: NotebookItem[], id: string, patch: Partial<Pick<NotebookItem, 'tags' | 'note'>>) =>
+  items.map(i => i.id === id ? { ...i, ...patch } : i);
+
+export const removeNotebookItems = (items: NotebookItem[], ids: Iterable<string>) => {
+  const remove = new Set(ids);
+  return items.filter(i => !remove.has(i.id));
+};
+
+// "exam, 雅思  phrasal-verb" -> ["exam", "雅思", "phrasal-verb"]
+export const parseTags = (input: string) =>
+  [...new Set(input.split(/[,，;；\s]+/).map(t => t.trim()).filter(Boolean))];
+
+// --- Browsing ---
+
+// Distinct tags in use, for the tag filter
+export const notebookTags = (items: NotebookItem[]) => [...new Set(items.flatMap(i => i.tags))].sort();
+
+const searchableText = (item: NotebookItem) =>
+  [item.word, item.phrase, item.meaning, item.explanation, item.example, item.source, item.note, ...item.tags]
+    .filter(Boolean).join('\n').toLowerCase();
+
+const SORTERS: Record<NotebookSort, (a: NotebookItem, b: NotebookItem) => number> = {
+  newest: (a, b) => b.addedAt - a.addedAt,
+  oldest: (a, b) => a.addedAt - b.addedAt,
+  alphabetical: (a, b) => (a.phrase || a.word).localeCompare(b.phrase || b.word, 'en', { sensitivity: 'base' }) || b.addedAt - a.addedAt,
+};
+
+export const filterNotebook = (items: NotebookItem[], filter: NotebookFilter) => {
+  const query = filter.query.trim().toLowerCase();
+  return items
+    .filter(item => {
+      if (filter.kind !== 'all' && item.kind !== filter.kind) return false;
+      if (filter.tag && !item.tags.includes(filter.tag)) return false;
+      return !query || searchableText(item).includes(query);
+    })
+    .sort(SORTERS[filter.sort]);
+};
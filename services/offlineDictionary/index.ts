@@ -0,0 +1,232 @@
+import { DictionaryEntry, DictionaryResult } from "../../types";
+import { normalizeInput } from "../cacheService";
+import { InvalidDictionaryFileError, ServiceError } from "../errors";
+import { OfflineRecord, getRecord, putRecords, clearRecords, countRecords, isStoreAvailable } from "./store";
+
+// --- Offline Dictionary ---
+// An imported open dictionary dump (ECDICT-style CSV) answers lookups locally, instantly and
+// without a model call. Its rows have phonetics, Chinese and English definitions, exam tags
+// and a COCA frequency rank, but no examples or collocations; those come from the model when
+// the user asks to enrich an entry.
+
+const META_KEY = 'grammaviz-offline-dictionary';
+const BATCH_SIZE = 2000;
+
+export interface OfflineDictionaryInfo {
+  count: number;
+  fileName: string;
+  importedAt: number;
+}
+
+export const loadOfflineDictionaryInfo = (): OfflineDictionaryInfo | null => {
+  try {
+    const raw = localStorage.getItem(META_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveOfflineDictionaryInfo = (info: OfflineDictionaryInfo | null) => {
+  try {
+    if (info) localStorage.setItem(META_KEY, JSON.stringify(info));
+    else localStorage.removeItem(META_KEY);
+  } catch (err) {
+    console.warn("Failed to save offline dictionary info:", err);
+  }
+};
+
+// --- CSV ---
+
+// RFC 4180 rows: quoted fields may hold commas, doubled quotes and line breaks
+export function* parseCsv(text: string): Generator<string[]> {
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      yield row;
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    yield row;
+  }
+}
+
+// ECDICT writes line breaks inside fields as a literal "\n"
+const unescape = (value = '') => value.replace(/\\n/g, '\n').replace(/\\r/g, '').trim();
+
+export function* readEcdictRows(text: string): Generator<OfflineRecord> {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  const header = rows.next().value?.map(h => h.trim().toLowerCase()) ?? [];
+  const column = (name: string) => header.indexOf(name);
+  const [word, phonetic, definition, translation, tag, frq] =
+    ['word', 'phonetic', 'definition', 'translation', 'tag', 'frq'].map(column);
+  if (word < 0 || translation < 0) throw new InvalidDictionaryFileError();
+
+  for (const row of rows) {
+    const headword = normalizeInput(row[word] || '');
+    const chinese = unescape(row[translation]);
+    if (!headword || !chinese) continue;
+    yield {
+      key: headword.toLowerCase(),
+      word: headword,
+      phonetic: phonetic >= 0 ? unescape(row[phonetic]) : '',
+      definition: definition >= 0 ? unescape(row[definition]) : '',
+      translation: chinese,
+      tags: tag >= 0 ? unescape(row[tag]) : '',
+      frq: frq >= 0 ? Number(row[frq]) || 0 : 0,
+    };
+  }
+}
+
+// Case variants share a key ("China" / "china"); the later row's senses go after the earlier one's
+const mergeRecords = (a: OfflineRecord, b: OfflineRecord): OfflineRecord => ({
+  key: a.key,
+  word: a.word,
+  phonetic: a.phonetic || b.phonetic,
+  definition: [a.definition, b.definition].filter(Boolean).join('\n'),
+  translation: [a.translation, b.translation].filter(Boolean).join('\n'),
+  tags: [...new Set(`${a.tags} ${b.tags}`.split(/\s+/).filter(Boolean))].join(' '),
+  frq: a.frq && b.frq ? Math.min(a.frq, b.frq) : a.frq || b.frq,
+});
+
+// Imports in batches, so a full ECDICT dump doesn't sit in one transaction; returns the headword count.
+// A second file adds its headwords to the first, and replaces the entries of those both files have.
+export const importOfflineDictionary = async (
+  text: string,
+  fileName: string,
+  onProgress?: (count: number) => void,
+  now = Date.now(),
+) => {
+  if (!(await isStoreAvailable())) throw new ServiceError('unknown', "当前浏览器不支持 IndexedDB，无法导入离线词典。");
+
+  const seen = new Set<string>();
+  let batch = new Map<string, OfflineRecord>();
+  const flush = async () => {
+    // A variant from an earlier batch of this file is already stored; fold this one into it
+    const records = await Promise.all([...batch.values()].map(async record => {
+      const stored = seen.has(record.key) ? await getRecord(record.key) : null;
+      return stored ? mergeRecords(stored, record) : record;
+    }));
+    await putRecords(records);
+    for (const record of records) seen.add(record.key);
+    batch = new Map();
+    onProgress?.(seen.size);
+  };
+
+  for (const record of readEcdictRows(text)) {
+    const same = batch.get(record.key);
+    batch.set(record.key, same ? mergeRecords(same, record) : record);
+    if (batch.size >= BATCH_SIZE) await flush();
+  }
+  if (batch.size) await flush();
+  const count = seen.size;
+  if (!count) throw new InvalidDictionaryFileError();
+
+  // Counted from the store, so headwords shared with an earlier file aren't counted twice
+  saveOfflineDictionaryInfo({ count: (await countRecords()) || count, fileName, importedAt: now });
+  return count;
+};
+
+export const clearOfflineDictionary = async () => {
+  await clearRecords();
+  saveOfflineDictionaryInfo(null);
+};
+
+// --- Conversion ---
+
+const PARTS_OF_SPEECH: Record<string, string> = {
+  n: 'noun', v: 'verb', vt: 'verb', vi: 'verb', adj: 'adjective', a: 'adjective', adv: 'adverb', ad: 'adverb',
+  prep: 'preposition', conj: 'conjunction', pron: 'pronoun', int: 'interjection', interj: 'interjection',
+  num: 'numeral', art: 'article', aux: 'auxiliary verb', abbr: 'abbreviation',
+};
+
+const EXAM_TAGS: Record<string, string> = {
+  zk: '中考', gk: '高考', cet4: '四级', cet6: '六级', ky: '考研', toefl: '托福', ielts: '雅思', gre: 'GRE',
+};
+
+// "vt. 感知；察觉" -> ["verb", "感知；察觉"]; lines without a known prefix keep `fallback`
+const splitPartOfSpeech = (line: string, fallback: string): [string, string] => {
+  const match = line.match(/^([a-z]+)\.\s*(.*)$/i);
+  const pos = match && PARTS_OF_SPEECH[match[1].toLowerCase()];
+  return pos ? [pos, match[2].trim()] : [fallback, line.trim()];
+};
+
+export const toDictionaryResult = (record: OfflineRecord): DictionaryResult => {
+  // A multi-word headword without a part of speech is a phrase
+  const fallback = record.word.includes(' ') ? 'phrase' : 'other';
+
+  const english = new Map<string, string[]>();
+  for (const line of record.definition.split('\n').filter(Boolean)) {
+    const [pos, text] = splitPartOfSpeech(line, fallback);
+    english.set(pos, [...(english.get(pos) || []), text]);
+  }
+
+  const entries: DictionaryEntry[] = [];
+  for (const line of record.translation.split('\n').filter(Boolean)) {
+    const [pos, meaning] = splitPartOfSpeech(line, entries[entries.length - 1]?.partOfSpeech ?? fallback);
+    if (!meaning) continue;
+    let entry = entries.find(e => e.partOfSpeech === pos);
+    if (!entry) {
+      entry = {
+        partOfSpeech: pos,
+        ...(record.frq > 0 ? { cocaFrequency: `Rank ${record.frq}` } : {}),
+        definitions: [],
+        source: 'local',
+      };
+      entries.push(entry);
+    }
+    // English definitions of the same part of speech are paired up in order
+    const explanation = english.get(pos)?.[entry.definitions.length] ?? '';
+    entry.definitions.push({ meaning, explanation, example: '', exampleTranslation: '' });
+  }
+
+  const examTags = record.tags.split(/\s+/).map(t => EXAM_TAGS[t.toLowerCase()]).filter(Boolean);
+  return {
+    word: record.word,
+    phonetic: record.phonetic ? `/${record.phonetic.replace(/^\/|\/$/g, '')}/` : '',
+    entries,
+    collocations: [],
+    ...(examTags.length ? { examTags } : {}),
+  };
+};
+
+// The imported entry for a word or phrase, or null when it isn't in the dictionary
+export const lookupOffline = async (word: string): Promise<DictionaryResult | null> => {
+  const key = normalizeInput(word).toLowerCase();
+  if (!key) return null;
+  const record = await getRecord(key);
+  if (!record) return null;
+  const result = toDictionaryResult(record);
+  return result.entries.length ? result : null;
+};
+
+// The model's result with the imported entries in front; the imported phonetic and exam tags win
+export const mergeWithOffline = (local: DictionaryResult, ai: DictionaryResult): DictionaryResult => ({
+  ...ai,
+  phonetic: local.phonetic || ai.phonetic,
+  entries: [...local.entries, ...ai.entries.map(entry => ({ ...entry, source: 'ai' as const }))],
+  ...(local.examTags ? { examTags: local.examTags } : {}),
+});
+
+export const isLocalOnly = (result: DictionaryResult) =>
+  result.entries.length > 0 && result.entries.every(e => e.source === 'local');
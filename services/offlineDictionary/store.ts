@@ -0,0 +1,94 @@
+// --- Offline Dictionary Store (IndexedDB) ---
+// One record per headword, keyed by its lowercase form; case variants are merged on import. Like the response cache, reads fail
+// soft: without IndexedDB every lookup simply misses and goes to the model.
+
+const DB_NAME = 'grammaviz-dictionary';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+// The columns of an ECDICT-style row that lookups use
+export interface OfflineRecord {
+  key: string;             // Lowercase headword, shared by its case variants
+  word: string;
+  phonetic: string;
+  definition: string;      // English definitions, one per line
+  translation: string;     // Chinese definitions, one per line, e.g. "n. 苹果"
+  tags: string;            // Space-separated exam tags, e.g. "zk gk cet4"
+  frq: number;             // COCA frequency rank; 0 when unknown
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("Offline dictionary unavailable:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export const isStoreAvailable = async () => !!(await openDb());
+
+export const getRecord = async (key: string): Promise<OfflineRecord | null> => {
+  try {
+    const db = await openDb();
+    if (!db) return null;
+    return (await promisify(db.transaction(STORE).objectStore(STORE).get(key))) ?? null;
+  } catch (err) {
+    console.warn("Offline dictionary read failed:", err);
+    return null;
+  }
+};
+
+export const countRecords = async (): Promise<number> => {
+  try {
+    const db = await openDb();
+    if (!db) return 0;
+    return await promisify(db.transaction(STORE).objectStore(STORE).count());
+  } catch (err) {
+    console.warn("Offline dictionary read failed:", err);
+    return 0;
+  }
+};
+
+// Writes throw, unlike reads: an import that silently stored nothing would be worse
+export const putRecords = async (records: OfflineRecord[]) => {
+  const db = await openDb();
+  if (!db) throw new Error('IndexedDB unavailable');
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  for (const record of records) store.put(record);
+  await transactionDone(tx);
+};
+
+export const clearRecords = async () => {
+  const db = await openDb();
+  if (!db) return;
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+};
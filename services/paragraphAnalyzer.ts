@@ -0,0 +1,103 @@
+import { AnalysisResult, ModelLevel, SentenceAnalysis } from "../types";
+import { analyzeSentence } from "./geminiService";
+import { isCancelled } from "./errors";
+
+// --- Paragraph Analyzer ---
+// Analyzes a multi-sentence text one sentence at a time. Only the focused sentence and a
+// few after it are requested (LOOKAHEAD), at most MAX_PARALLEL at once, so pasting a long
+// passage doesn't fire dozens of requests the reader may never look at. Regenerated
+// sentences share the same limit and go ahead of the window.
+
+const MAX_PARALLEL = 2;
+const LOOKAHEAD = 2;
+
+export interface ParagraphAnalyzer {
+  // Moves the analysis window to this sentence
+  focus: (index: number) => void;
+  // Re-analyzes one sentence, bypassing the cache
+  regenerate: (index: number) => void;
+  // Aborts everything in flight; unfinished sentences go back to pending
+  cancel: () => void;
+}
+
+export interface ParagraphAnalyzerOptions {
+  // Results already known, by sentence index (e.g. re-opened from history); not requested again
+  results?: (AnalysisResult | undefined)[];
+  // Called with every analysis that arrives, including regenerated ones
+  onResult?: (sentence: string, result: AnalysisResult) => void;
+}
+
+export const createParagraphAnalyzer = (
+  sentences: string[],
+  modelLevel: ModelLevel,
+  onChange: (states: SentenceAnalysis[]) => void,
+  { results = [], onResult }: ParagraphAnalyzerOptions = {},
+): ParagraphAnalyzer => {
+  let states: SentenceAnalysis[] = sentences.map((sentence, i) =>
+    results[i] ? { sentence, status: 'done', result: results[i] } : { sentence, status: 'pending' });
+  let focused = 0;
+  let inFlight = 0;
+  let regenerating: number[] = [];
+  let controller = new AbortController();
+
+  const update = (index: number, patch: Partial<SentenceAnalysis>) => {
+    states = states.map((s, i) => i === index ? { ...s, ...patch } : s);
+    onChange(states);
+  };
+
+  const run = async (index: number, fresh = false) => {
+    const { signal } = controller;
+    inFlight++;
+    update(index, { status: 'loading', error: undefined });
+
+    try {
+      const result = await analyzeSentence(states[index].sentence, modelLevel, { fresh, signal });
+      if (signal.aborted) return;
+      update(index, { status: 'done', result });
+      onResult?.(states[index].sentence, result);
+    } catch (err: any) {
+      if (signal.aborted || isCancelled(err)) return;
+      update(index, { status: 'error', error: err.message || "分析失败，请稍后再试。" });
+    } finally {
+      // Requests from before a cancel() were already discounted
+      if (signal === controller.signal) {
+        inFlight--;
+        pump();
+      }
+    }
+  };
+
+  // Starts pending sentences inside the window, nearest to the focused one first
+  const pump = () => {
+    while (regenerating.length && inFlight < MAX_PARALLEL) run(regenerating.shift()!, true);
+    const end = Math.min(states.length - 1, focused + LOOKAHEAD);
+    for (let i = focused; i <= end && inFlight < MAX_PARALLEL; i++) {
+      if (states[i].status === 'pending') run(i);
+    }
+  };
+
+  onChange(states);
+  pump();
+
+  return {
+    focus: (index) => {
+      focused = Math.max(0, Math.min(index, states.length - 1));
+      pump();
+    },
+    regenerate: (index) => {
+      if (!states[index] || states[index].status === 'loading') return;
+      // Shown as loading straight away; the request starts once a slot is free
+      regenerating.push(index);
+      update(index, { status: 'loading', error: undefined });
+      pump();
+    },
+    cancel: () => {
+      controller.abort();
+      controller = new AbortController();
+      inFlight = 0;
+      regenerating = [];
+      states = states.map(s => s.status === 'loading' ? { ...s, status: 'pending' } : s);
+      onChange(states);
+    },
+  };
+};
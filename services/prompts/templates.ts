@@ -0,0 +1,312 @@
+import { ChatContextType, WritingMode } from "../../types";
+
+// --- Prompt Templates ---
+// Every prompt the app sends, in one place so wording can be adjusted without touching
+// the service code. Placeholders use {{name}} and must be declared in `vars`:
+//   - 'input': user-supplied text. Delimited and escaped when rendered, never trusted.
+//   - 'text':  trusted text built by the app (e.g. mode instructions), inserted as-is.
+// Bump `version` whenever a template changes: the version is stored with each result
+// and is part of the cache key, so older cached answers are not reused.
+
+export type PromptVarKind = 'input' | 'text';
+
+export interface PromptTemplate {
+  version: number;
+  description: string;
+  vars: Record<string, PromptVarKind>;
+  template: string;
+}
+
+export const PROMPT_TEMPLATES = {
+  analyzeSentence: {
+    version: 4,
+    description: '句法分析：纠错、句型时态、意群分块、逐词详解、句法树与长难句拆解',
+    vars: { sentence: 'input' },
+    template: `
+你是一位精通语言学和英语教学的专家 AI。请分析以下英语句子：{{sentence}}
+目标受众是正在学习英语的学生，因此分析需要**清晰、准确且具有教育意义**。
+
+**Processing Steps (Thinking Process):**
+1.  **Grammar Check (纠错)**: 
+    - 仔细检查句子是否有语法错误。
+    - 如果有错，创建一个修正后的版本。
+    - **注意**：后续的所有分析（chunks, detailedTokens, structure）必须基于**修正后(Corrected)** 的句子进行。
+    - **Diff Generation**: 生成 'changes' 数组时，必须是严格的文本差异对比 (diff)。
+      - 'remove': 仅包含被删除的原文片段，**绝对不要**包含 "->" 符号或 "change x to y" 这样的描述。例如原句是 "i go"，修正为 "I go"，则 'remove' text 为 "i"，'add' text 为 "I"。
+      - 'add': 仅包含新加入的片段。
+      - 'keep': 保持不变的部分。
+
+2.  **Macro Analysis (宏观结构)**:
+    - 识别核心句型结构 (Pattern)，**必须包含中文翻译**。格式要求："English Pattern (中文名称)"。例如："S + V + O (主谓宾)"。
+    - 识别核心时态 (Tense)，**必须包含中文翻译**。格式要求："English Tense (中文名称)"。例如："Present Simple (一般现在时)"。
+
+3.  **Chunking (可视化意群分块)**:
+    - 目标是展示句子的“节奏”和“意群”(Sense Groups)。
+    - **原则**：
+      - 所有的修饰语应与其中心词在一起（例如 "The very tall man" 是一个块）。
+      - 介词短语通常作为一个整体（例如 "in the morning" 是一个块）。
+      - 谓语动词部分合并（例如 "have been waiting" 是一个块）。
+      - 不定式短语合并（例如 "to go home" 是一个块）。
+
+4.  **Detailed Analysis (逐词/短语详解)**:
+    - **核心原则 - 固定搭配优先**：
+      - 遇到短语动词 (phrasal verbs)、固定习语 (idioms)、介词搭配 (collocations) 时，**必须**将它们作为一个整体 Token，**绝对不要拆分**。
+      - 例如："look forward to", "take care of", "a cup of", "depend on"。
+      - **特别处理可分离短语动词 (Separable Phrasal Verbs)**：
+        - 如果遇到像 "pop us back", "turn it on" 这样动词与小品词被代词隔开的情况，请务必**识别出其核心短语动词**（如 "pop back"）。
+        - 在详细解释 (explanation) 中，**必须**明确指出该词属于短语动词 "pop back" (或相应短语)，并解释该短语动词的含义，而不仅仅是单个单词的意思。
+        - 示例：针对 "pop us back"，在解释 "pop" 时，应说明 "pop ... back 是短语动词，意为迅速回去/放回"。
+    - **解释 (Explanation)**：
+      - 不要只给一个词性标签。要解释它在句子中的**功能**和**为什么用这种形式**。
+      - 例如：不要只写"过去分词"，要写"过去分词，与 has 构成现在完成时，表示动作已完成"。
+    - **含义 (Meaning)**：提供在当前语境下的中文含义。
+
+5.  **Syntax Tree (句法树)**:
+    - 用扁平的节点列表 'syntaxTree' 表示修正后句子的层级结构：句子/从句 (clause) 包含短语 (phrase)，短语包含更小的短语或单词 (word)。
+    - 每个节点有唯一的 'id'，用 'parentId' 指向父节点；根节点是整个句子 (label "S")，其 'parentId' 为空字符串。同一父节点下的子节点按在句中出现的顺序排列。
+    - 'label' 使用成分标签，如 S, SBAR, NP, VP, PP, ADJP, ADVP；单词节点用词性标签，如 N, V, AUX, DET, PRON, P。
+    - 'relation' 写出该节点相对于父节点的关系（中文），例如 "主语"、"谓语"、"宾语"、"定语从句"、"介词宾语"。
+    - 'isHead' 标出每个成分的中心词 (head)，例如 VP 中的主要动词、NP 中的核心名词。
+    - 'chunkIndex' / 'tokenIndex' 填写与该节点文本完全对应的 chunks / detailedTokens 下标，没有对应项时填 -1。
+
+6.  **Long Sentence Breakdown (长难句拆解)**:
+    - **仅当**句子包含从句（定语从句、名词性从句、状语从句）或非谓语结构（分词短语、不定式短语）时返回 'clauseBreakdown'；简单句不要返回该字段。
+    - 'skeleton'：去掉所有从句和修饰成分后的主句主干，仍需是完整的句子；'skeletonTranslation' 为其中文翻译。
+    - 'clauses'：按在句中出现的顺序列出**每一个**从句或非谓语短语：
+      - 'type' 写明类型并附中文，例如 "定语从句 (Relative Clause)"、"宾语从句 (Noun Clause)"、"过去分词短语 (Participle Phrase)"。
+      - 'attachesTo' 说明它修饰或充当什么，例如 "修饰 the scientists"、"作 found 的宾语"。
+      - 'pattern' / 'tense' 给出该从句自身的句型和时态（格式同上），非谓语短语没有时态时省略 'tense'。
+    - 'simplification'：逐步简化改写。每一步拆出或简化一个从句/短语，'sentence' 为改写后的结果，'note' 用中文说明这一步做了什么；最后一步应是几个意思完整的简单句。
+
+请返回 JSON 格式数据。
+`,
+  },
+
+  lookupWord: {
+    version: 4,
+    description: '词典查询：词条、释义、词频与搭配，可附带所在句子以标出句中词义',
+    vars: { word: 'input', contextSection: 'text' },
+    template: `
+Act as a professional learner's dictionary specifically tailored for students preparing for **IELTS, TOEFL, and CET-6**.
+User Look-up Query: {{word}}
+
+**STEP 1: Normalization & Generalization (CRITICAL)**
+1. Analyze the user's input. Is it a specific instance of a phrasal verb or collocation with specific pronouns?
+2. If yes, convert it to the **Canonical Form** (Headword).
+   - Input: "pop us back" -> Output: "pop sth back"
+   - Input: "made up my mind" -> Output: "make up one's mind"
+3. Separable phrasal verbs keep the particle but replace the object with "sth"/"sb": "turned it down" -> "turn sth down". Inflected forms go back to the base form: "led" -> "lead".
+
+**STEP 2: Filtering & Content Generation**
+1. **Target Audience**: Students preparing for exams (IELTS, TOEFL, CET-6) and daily communication.
+2. **Filtering Rule**: 
+   - OMIT rare, archaic, obsolete, or highly technical scientific definitions unless the word itself is technical.
+   - Focus ONLY on the most common 3-4 meanings used in modern English and exams.
+3. **COCA Frequency per Part of Speech**:
+   - For each part of speech (e.g. Noun vs Verb), estimate its specific COCA frequency rank.
+   - Example: "address" might be "Rank 1029" as a Noun, but "Rank 1816" as a Verb.
+   - Provide a concise string like "Rank 1029" or "Top 2000".
+
+**STEP 3: Structure**
+- Definitions: Clear, simple English explanation + Concise Chinese meaning.
+- Examples: Must be natural, modern, and relevant to exam contexts or daily life.
+
+**STEP 4: Collocations & Fixed Phrases**
+- Identify 3-5 high-frequency collocations, idioms, or fixed phrases containing this word.
+- Prioritize phrases useful for IELTS/TOEFL writing or speaking.
+- Provide meaning and a sentence example for each.
+
+**STEP 5: Word Family, Synonyms & Roots**
+- 'wordFamily': the common derivations in other parts of speech (e.g. decide -> decision, decisive, decisively), each with its POS and Chinese meaning. Leave out rare forms and the headword itself.
+- 'synonyms': 2-4 exam-useful synonyms; in 'note' explain in Chinese how each differs from the headword (meaning, register or collocation).
+- 'antonyms': 1-3 common antonyms, if any.
+- 'etymology': a short Chinese explanation of the origin and roots/affixes, plus a 'mnemonic' memory hint built on them. Omit it for phrases and words with no useful roots.
+
+Structure the response by Part of Speech (POS).
+Return strictly JSON.
+{{contextSection}}
+`,
+  },
+
+  lookupContext: {
+    version: 2,
+    description: '附加在词典查询后的原句语境',
+    vars: { context: 'input' },
+    template: `
+**STEP 6: Sense in Context**
+The user met the query in this sentence: {{context}}
+- Make sure the entries include the sense used in this sentence, and set 'inContext' to true on that one definition only.
+- Write 'contextNote': one Chinese sentence explaining what the query means and does grammatically in this sentence.
+`,
+  },
+
+  compareWords: {
+    version: 2,
+    description: '易混词辨析：核心区别、语法搭配、语体、对照例句与填空自测',
+    vars: { words: 'input' },
+    template: `
+Act as an experienced English teacher helping Chinese students preparing for **IELTS, TOEFL, and CET-6** tell apart words they often confuse.
+Words to compare (separated by " / "): {{words}}
+
+**Output**:
+1. 'coreDifference': 2-3 Chinese sentences on the key distinction a learner must remember.
+2. 'items': exactly one per given word, in the order given, with 'word' spelled exactly as given:
+   - 'partOfSpeech' and a concise Chinese 'meaning' for the sense that causes the confusion.
+   - 'patterns': 2-4 typical grammar patterns or collocations, e.g. "affect sb/sth", "have an effect on sth".
+   - 'register': in Chinese, how formal it is and where it is typically used.
+   - One natural 'example' sentence and its Chinese 'exampleTranslation'; the examples should be parallel so they can be read side by side.
+3. 'quiz': 4-6 fill-in-the-blank sentences that cover every word at least once. Mark the gap with "___" exactly once. The 'answer' must be exactly one of the 'word' values in 'items', so write sentences where that form fits the blank unchanged. Add a one-sentence Chinese 'explanation'.
+
+Return strictly JSON.
+`,
+  },
+
+  evaluateWriting: {
+    version: 2,
+    description: '写作批改：按模式改写并返回逐段差异',
+    vars: { modeInstructions: 'text', text: 'input' },
+    template: `
+Act as a professional English Editor and IELTS Examiner.
+
+{{modeInstructions}}
+
+**Task**:
+Analyze the user's text and reconstruct it into the *Improved Version* according to the selected mode.
+You must return the result as a sequence of SEGMENTS that allow us to reconstruct the full text while highlighting exactly what changed.
+
+**Input Text**: {{text}}
+
+**Output Logic**:
+- Iterate through the improved text.
+- If a part of the text is the same as original, mark it as 'unchanged'.
+- If you changed, added, or removed something, create a segment of type 'change'.
+  - 'text': The NEW/IMPROVED text.
+  - 'original': The ORIGINAL text that was replaced (or empty string if added).
+  - 'reason': A brief explanation in Chinese.
+  - 'category': One of 'grammar', 'vocabulary', 'style', 'punctuation', 'collocation' | 'punctuation'.
+- **CRITICAL - PARAGRAPH PRESERVATION**: 
+  - You MUST preserve all paragraph breaks and newlines (\\n) from the original text exactly as they are.
+  - When you encounter a newline in the original text, return it as a separate segment: { "text": "\\n", "type": "unchanged" }.
+  - Do NOT merge paragraphs.
+
+**Example**:
+Original: "I go store.\\n\\nIt was fun."
+Improved: "I went to the store.\\n\\nIt was fun."
+Segments:
+[
+  { "text": "I ", "type": "unchanged" },
+  { "text": "went", "original": "go", "type": "change", "reason": "Past tense", "category": "grammar" },
+  { "text": " to the ", "original": "", "type": "change", "reason": "Preposition", "category": "grammar" },
+  { "text": "store.", "type": "unchanged" },
+  { "text": "\\n\\n", "type": "unchanged" },
+  { "text": "It was fun.", "type": "unchanged" }
+]
+
+Return strictly JSON.
+`,
+  },
+
+  chatAssistant: {
+    version: 2,
+    description: 'AI 助教的系统提示词',
+    vars: { contextLabel: 'text', context: 'input', summarySection: 'text' },
+    template: `
+你是一个热情、专业的英语学习助教。
+
+**{{contextLabel}}**: {{context}}
+
+**你的任务**：
+1. 解答用户关于英语语法、单词用法、句子结构或词汇辨析的问题。
+2. **始终使用中文**回答。
+3. 使用 **Markdown** 格式来美化你的回答，使其清晰易读：
+   - 使用 **加粗** 来强调重点单词或语法术语。
+   - 使用列表（1. 或 -）来分点解释。
+   - 适当分段。
+4. 语气要鼓励、积极，像一位耐心的老师。
+5. **特殊指令**：如果用户询问类似 "pop us back" 这样的短语，请解释这是一种口语表达，核心是短语动词 "pop back" (迅速回去)，"us" 是宾语。
+{{summarySection}}
+`,
+  },
+
+  chatSummary: {
+    version: 1,
+    description: '附加在助教系统提示词后的历史摘要',
+    vars: { summary: 'input' },
+    template: `**之前对话的摘要**（更早的轮次已省略）：{{summary}}`,
+  },
+
+  summarizeConversation: {
+    version: 1,
+    description: '压缩对话历史的系统提示词',
+    vars: {},
+    template: `
+你负责压缩英语学习助教与学生之间的对话记录。
+请用中文写一段简洁的摘要（不超过 200 字），保留：学生问过的问题、讲解过的关键语法点和单词、学生仍未理解的地方。
+只输出摘要本身。
+`,
+  },
+
+  conversationTranscript: {
+    version: 1,
+    description: '需要压缩的对话记录',
+    vars: { previousSummary: 'input', transcript: 'input' },
+    template: `已有摘要：\n{{previousSummary}}\n\n新增对话：\n{{transcript}}`,
+  },
+} satisfies Record<string, PromptTemplate>;
+
+export type PromptId = keyof typeof PROMPT_TEMPLATES;
+
+// Inserted into evaluateWriting as {{modeInstructions}}
+export const WRITING_MODE_INSTRUCTIONS: Record<WritingMode, string> = {
+  'fix': `
+**MODE: BASIC CORRECTION (基础纠错)**
+- Target: General accuracy.
+- Task: Focus STRICTLY on correcting grammar, spelling, punctuation, and serious awkwardness.
+- Do NOT change style, tone, or vocabulary unless it is incorrect.
+- Keep the output very close to the original, only fixing errors.
+`,
+  'ielts-5.5': `
+**MODE: IELTS BAND 5.5 (Modest User)**
+- Target Level: Partial command of the language.
+- Task: Correct all basic errors. Ensure the overall meaning is clear.
+- Style: Keep vocabulary simple but correct. Avoid complex structures if they risk error.
+- Feedback focus: Basic grammar and clarity.
+`,
+  'ielts-6.0': `
+**MODE: IELTS BAND 6.0 (Competent User)**
+- Target Level: Generally effective command.
+- Task: Use a mix of simple and complex sentence forms. Correct errors.
+- Style: Use adequate vocabulary. Ensure coherence.
+`,
+  'ielts-6.5': `
+**MODE: IELTS BAND 6.5 (Between Competent and Good)**
+- Target Level: Stronger competence.
+- Task: Introduce more complex structures. Enhance vocabulary slightly beyond basic.
+- Style: Improve flow and linking words.
+`,
+  'ielts-7.0': `
+**MODE: IELTS BAND 7.0 (Good User)**
+- Target Level: Operational command, occasional inaccuracies.
+- Task: Use a variety of complex structures. Use less common lexical items.
+- Style: Academic and formal. Show awareness of style and collocation.
+`,
+  'ielts-7.5': `
+**MODE: IELTS BAND 7.5 (Very Good User)**
+- Target Level: High accuracy.
+- Task: Sophisticated control of vocabulary and grammar. Minimize errors to very occasional slips.
+- Style: Highly polished, natural, and academic.
+`,
+  'ielts-8.0': `
+**MODE: IELTS BAND 8.0 (Expert-like User)**
+- Target Level: Fully operational command.
+- Task: Use a wide range of vocabulary fluently and flexibly to convey precise meanings.
+- Style: Skillful use of uncommon lexical items. Error-free sentences. Native-like flow.
+`,
+};
+
+// Labels for {{contextLabel}} in chatAssistant, and the context used when there is none yet
+export const CHAT_CONTEXT_LABELS: Record<ChatContextType, { label: string; empty: string }> = {
+  sentence: { label: '当前正在分析的句子', empty: '用户暂未输入句子' },
+  word: { label: '当前正在查询的单词/词组', empty: '用户暂未查询单词' },
+  writing: { label: '当前正在润色的文章', empty: '用户暂未输入文章' },
+};
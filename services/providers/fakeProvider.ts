@@ -0,0 +1,47 @@
+import { Schema, Type } from "@google/genai";
+import { LlmProvider } from "./types";
+
+// Builds the smallest value that satisfies the schema. Strings echo their property path
+// so the UI shows where each field would appear.
+const fakeValue = (schema: Schema, path: string): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, fakeValue(value, path ? `${path}.${key}` : key)])
+      );
+    case Type.ARRAY:
+      return schema.items ? [fakeValue(schema.items, `${path}[0]`)] : [];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return 0;
+    case Type.BOOLEAN:
+      return false;
+    default:
+      return schema.enum?.[0] ?? `[fake] ${path}`;
+  }
+};
+
+// 0.25s of silence: 24kHz * 0.25s * 2 bytes per sample
+const SILENCE_BASE64 = btoa('\0'.repeat(12000));
+
+// Deterministic provider for offline development: no network, same output for the same input
+export const createFakeProvider = (): LlmProvider => ({
+  id: 'fake',
+  models: {
+    mini: { model: 'fake', thinkingBudget: 0 },
+    quick: { model: 'fake', thinkingBudget: 0 },
+    deep: { model: 'fake', thinkingBudget: 0 },
+  },
+  chatModel: 'fake',
+  ttsModel: 'fake',
+  ttsVoice: 'fake',
+  isConfigured: () => true,
+  generateJson: async ({ schema }) => JSON.stringify(fakeValue(schema, '')),
+  chat: async ({ message }) => `[fake] ${message}`,
+  chatStream: async ({ message }, onDelta) => {
+    const reply = `[fake] ${message}`;
+    for (const word of reply.split(/(?<=\s)/)) onDelta(word);
+    return reply;
+  },
+  generateSpeech: async () => SILENCE_BASE64,
+});
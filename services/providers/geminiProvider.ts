@@ -0,0 +1,118 @@
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { MissingApiKeyError, SafetyBlockError } from "../errors";
+import { Message } from "../../types";
+import { LlmProvider } from "./types";
+
+// Blocked prompts come back as a normal response with no text, so detect them explicitly
+const checkSafety = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockError(blockReason);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') throw new SafetyBlockError(finishReason);
+};
+
+export const createGeminiProvider = (apiKey: string | undefined): LlmProvider => {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+
+  const client = () => {
+    if (!ai) throw new MissingApiKeyError();
+    return ai;
+  };
+
+  const createChat = (model: string, systemInstruction: string, history: Message[], temperature?: number) => client().chats.create({
+    model,
+    config: {
+      systemInstruction,
+      temperature,
+    },
+    history: history.map(m => ({
+      role: m.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: m.content }],
+    })),
+  });
+
+  return {
+    id: 'gemini',
+    models: {
+      mini: { model: 'gemini-2.5-flash', thinkingBudget: 0 },
+      quick: { model: 'gemini-2.5-flash', thinkingBudget: 500 },
+      deep: { model: 'gemini-2.5-flash', thinkingBudget: 2000 },
+    },
+    chatModel: 'gemini-2.5-flash',
+    ttsModel: 'gemini-2.5-flash-preview-tts',
+    ttsVoice: 'Kore',
+    isConfigured: () => !!ai,
+
+    generateJson: async ({ model, thinkingBudget, prompt, schema, temperature, signal }) => {
+      const response = await client().models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          thinkingConfig: thinkingBudget > 0 ? { thinkingBudget } : undefined,
+          temperature,
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          abortSignal: signal,
+        },
+      });
+
+      checkSafety(response);
+      const jsonText = response.text;
+      if (!jsonText) throw new Error("Empty response from Gemini");
+      return jsonText;
+    },
+
+    chat: async ({ model, systemInstruction, history, message, temperature, signal }) => {
+      const chat = createChat(model, systemInstruction, history, temperature);
+      const result = await chat.sendMessage({ message, config: { abortSignal: signal } });
+      checkSafety(result);
+      return result.text || '';
+    },
+
+    chatStream: async ({ model, systemInstruction, history, message, temperature, signal }, onDelta) => {
+      const chat = createChat(model, systemInstruction, history, temperature);
+      const stream = await chat.sendMessageStream({ message, config: { abortSignal: signal } });
+
+      let fullText = '';
+      for await (const chunk of stream) {
+        checkSafety(chunk);
+        const delta = chunk.text;
+        if (delta) {
+          fullText += delta;
+          onDelta(delta);
+        }
+      }
+      return fullText;
+    },
+
+    generateSpeech: async ({ model, voice, text, signal }) => {
+      const response = await client().models.generateContent({
+        model,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          // Cast to any to allow string literal 'AUDIO' which is more robust across environments
+          responseModalities: ['AUDIO'] as any,
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: voice },
+            },
+          },
+          abortSignal: signal,
+        },
+      });
+
+      checkSafety(response);
+
+      const part = response.candidates?.[0]?.content?.parts?.[0];
+      const base64Audio = part?.inlineData?.data;
+
+      if (!base64Audio) {
+        if (part?.text) {
+          console.warn("Gemini TTS returned text instead of audio. Text:", part.text);
+        }
+        throw new Error("No audio data received from Gemini");
+      }
+      return base64Audio;
+    },
+  };
+};
@@ -0,0 +1,54 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiProvider } from "./openaiProvider";
+import { createFakeProvider } from "./fakeProvider";
+import { LlmProvider, ProviderId } from "./types";
+import { AppSettings } from "../../types";
+import { loadSettings } from "../settingsService";
+
+export type { LlmProvider, ProviderId, ModelConfig } from "./types";
+
+// Provider is chosen at build time via LLM_PROVIDER (gemini | openai | fake), defaulting to Gemini
+const createProvider = (id: ProviderId, apiKey: string | undefined): LlmProvider => {
+  switch (id) {
+    case 'openai':
+      return createOpenAiProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: apiKey || process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || undefined,
+      });
+    case 'fake':
+      return createFakeProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(apiKey || process.env.API_KEY);
+  }
+};
+
+const providerId = () => (process.env.LLM_PROVIDER || 'gemini') as ProviderId;
+
+// Layers the user's settings over the provider's own defaults
+const applySettings = (base: LlmProvider, settings: AppSettings): LlmProvider => ({
+  ...base,
+  models: {
+    mini: settings.models.mini || base.models.mini,
+    quick: settings.models.quick || base.models.quick,
+    deep: settings.models.deep || base.models.deep,
+  },
+  ttsVoice: settings.ttsVoice || base.ttsVoice,
+  temperature: settings.temperature ?? undefined,
+});
+
+let cached: { settingsKey: string; provider: LlmProvider } | null = null;
+
+// Rebuilt whenever the stored settings change
+export const getProvider = (): LlmProvider => {
+  const settings = loadSettings();
+  const settingsKey = JSON.stringify(settings);
+  if (cached?.settingsKey !== settingsKey) {
+    cached = { settingsKey, provider: applySettings(createProvider(providerId(), settings.apiKey.trim()), settings) };
+  }
+  return cached.provider;
+};
+
+// The active provider without user overrides, for showing defaults in the settings page
+export const getProviderDefaults = (): LlmProvider => createProvider(providerId(), undefined);
@@ -0,0 +1,150 @@
+import { Schema } from "@google/genai";
+import { SafetyBlockError } from "../errors";
+import { Message } from "../../types";
+import { LlmProvider } from "./types";
+
+interface OpenAiProviderOptions {
+  baseUrl: string;         // e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string;
+  model?: string;          // Default model for every level
+  ttsModel?: string;
+  ttsVoice?: string;
+}
+
+// Gemini schemas use upper-case type names ("OBJECT", "STRING"...), JSON Schema wants lower-case
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = schema.type.toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.required) out.required = schema.required;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return out;
+};
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const chatMessages = (systemInstruction: string, history: Message[], message: string) => [
+  { role: 'system', content: systemInstruction },
+  ...history.map(m => ({ role: m.role, content: m.content })),
+  { role: 'user', content: message },
+];
+
+export const createOpenAiProvider = ({ baseUrl, apiKey, model = 'llama3.1', ttsModel = 'tts-1', ttsVoice = 'alloy' }: OpenAiProviderOptions): LlmProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+    const response = await fetch(`${root}${path}`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      // Keep the status so toServiceError can classify it
+      throw Object.assign(
+        new Error(`OpenAI-compatible endpoint returned ${response.status}: ${await response.text()}`),
+        { status: response.status },
+      );
+    }
+    return response;
+  };
+
+  const complete = async (body: Record<string, unknown>, signal?: AbortSignal) => {
+    const response = await post('/chat/completions', body, signal);
+    const data = await response.json();
+    if (data?.choices?.[0]?.finish_reason === 'content_filter') throw new SafetyBlockError('content_filter');
+    const content: string | undefined = data?.choices?.[0]?.message?.content;
+    if (!content) throw new Error("Empty response from OpenAI-compatible endpoint");
+    return content;
+  };
+
+  return {
+    id: 'openai',
+    // Local servers rarely expose "thinking" controls, so every level maps to the same model
+    models: {
+      mini: { model, thinkingBudget: 0 },
+      quick: { model, thinkingBudget: 0 },
+      deep: { model, thinkingBudget: 0 },
+    },
+    chatModel: model,
+    ttsModel,
+    ttsVoice,
+    isConfigured: () => !!root,
+
+    generateJson: ({ model, prompt, schema, temperature, signal }) => complete({
+      model,
+      temperature,
+      messages: [{ role: 'user', content: prompt }],
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'result', schema: toJsonSchema(schema) },
+      },
+    }, signal),
+
+    chat: ({ model, systemInstruction, history, message, temperature, signal }) => complete({
+      model,
+      temperature,
+      messages: chatMessages(systemInstruction, history, message),
+    }, signal),
+
+    chatStream: async ({ model, systemInstruction, history, message, temperature, signal }, onDelta) => {
+      const response = await post('/chat/completions', {
+        model,
+        temperature,
+        stream: true,
+        messages: chatMessages(systemInstruction, history, message),
+      }, signal);
+      if (!response.body) throw new Error("Streaming not supported by OpenAI-compatible endpoint");
+
+      // Server-sent events: one "data: {json}" line per chunk, terminated by "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let fullText = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+
+          const choice = JSON.parse(data)?.choices?.[0];
+          if (choice?.finish_reason === 'content_filter') throw new SafetyBlockError('content_filter');
+          const delta: string | undefined = choice?.delta?.content;
+          if (delta) {
+            fullText += delta;
+            onDelta(delta);
+          }
+        }
+      }
+      return fullText;
+    },
+
+    generateSpeech: async ({ model, voice, text, signal }) => {
+      // 'pcm' is raw 24kHz 16-bit mono, the same format Gemini TTS returns
+      const response = await post('/audio/speech', { model, voice, input: text, response_format: 'pcm' }, signal);
+      return toBase64(await response.arrayBuffer());
+    },
+  };
+};
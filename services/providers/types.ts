@@ -0,0 +1,53 @@
+import { Schema } from "@google/genai";
+import { Message, ModelLevel } from "../../types";
+
+export type ProviderId = 'gemini' | 'openai' | 'fake';
+
+export interface ModelConfig {
+  model: string;
+  thinkingBudget: number;
+}
+
+export interface JsonRequest {
+  model: string;
+  thinkingBudget: number;
+  prompt: string;
+  schema: Schema;        // Gemini-style schema; other providers translate it
+  temperature?: number;  // Omitted: the model's default
+  signal?: AbortSignal;
+}
+
+export interface ChatRequest {
+  model: string;
+  systemInstruction: string;
+  history: Message[];    // Earlier turns, oldest first
+  message: string;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface SpeechRequest {
+  model: string;
+  voice: string;
+  text: string;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  id: ProviderId;
+  // Per-level model mapping, used by getModelConfig
+  models: Record<ModelLevel, ModelConfig>;
+  chatModel: string;
+  ttsModel: string;
+  ttsVoice: string;
+  // Sampling temperature from the user's settings; undefined keeps each model's default
+  temperature?: number;
+  isConfigured: () => boolean;
+  // Returns the raw JSON text produced by the model
+  generateJson: (request: JsonRequest) => Promise<string>;
+  chat: (request: ChatRequest) => Promise<string>;
+  // Streams the reply, calling onDelta with each new piece of text; resolves with the full reply
+  chatStream: (request: ChatRequest, onDelta: (delta: string) => void) => Promise<string>;
+  // Returns base64-encoded 16-bit mono PCM at 24kHz
+  generateSpeech: (request: SpeechRequest) => Promise<string>;
+}
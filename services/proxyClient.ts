@@ -0,0 +1,97 @@
+import {
+  CancelledError, MissingApiKeyError, NetworkError, RateLimitError, SafetyBlockError,
+  SchemaError, ServiceError, ServiceErrorKind, StreamInterruptedError,
+} from "./errors";
+
+// --- Client Mode ---
+// With API_MODE=proxy the browser never sees an API key: every service call goes to
+// the Node server in server/, which runs the same prompts and schemas.
+
+export const isProxyMode = () => process.env.API_MODE === 'proxy';
+
+const API_BASE = process.env.API_BASE_URL || '';
+
+export interface ErrorPayload {
+  kind: ServiceErrorKind;
+  message: string;
+}
+
+// Rebuilds the typed error the server reported
+const fromPayload = ({ kind, message }: ErrorPayload, status: number): ServiceError => {
+  switch (kind) {
+    case 'missing-key': return new MissingApiKeyError();
+    case 'rate-limit': return new RateLimitError();
+    case 'safety': return new SafetyBlockError();
+    case 'network': return new NetworkError();
+    case 'schema': return new SchemaError('server', []);
+    case 'cancelled': return new CancelledError();
+    case 'invalid-input':
+    case 'invalid-file': return new ServiceError(kind, message);
+    default: return new ServiceError('unknown', message || `服务器错误 (${status})`);
+  }
+};
+
+const request = async (route: string, body: unknown, signal?: AbortSignal) => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/api/${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw new CancelledError();
+    throw new NetworkError(error);
+  }
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw fromPayload(payload?.error || { kind: response.status === 429 ? 'rate-limit' : 'unknown', message: '' }, response.status);
+  }
+  return response;
+};
+
+export const callApi = async <T>(route: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+  const response = await request(route, body, signal);
+  return response.json();
+};
+
+// Streaming routes answer with newline-delimited JSON: {"delta"} lines, then {"done"} or {"error"}
+export const streamApi = async (route: string, body: unknown, onDelta: (delta: string) => void, signal?: AbortSignal): Promise<string> => {
+  const response = await request(route, body, signal);
+  if (!response.body) throw new NetworkError();
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let fullText = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line);
+        if (event.error) throw fromPayload(event.error, response.status);
+        if (event.done) return fullText;
+        if (event.delta) {
+          fullText += event.delta;
+          onDelta(event.delta);
+        }
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) throw new CancelledError();
+    if (error instanceof ServiceError && !fullText) throw error;
+    throw new StreamInterruptedError(fullText, error);
+  }
+
+  // The connection closed without a "done" event
+  throw new StreamInterruptedError(fullText);
+};
@@ -0,0 +1,206 @@
+import { AnalysisResult, AnalysisChunk, QuizQuestion, QuizItemKind, QuizAttempt } from "../types";
+
+// --- Grammar Quiz ---
+// Turns an analysis into a labeling exercise: the learner assigns each chunk its role and
+// part of speech, then names the sentence pattern and tense. Answers and explanations come
+// from the analysis itself, so a quiz needs no extra model call. Attempts are persisted in
+// localStorage to track progress over time.
+
+const STORAGE_KEY = 'grammaviz-quiz';
+const MAX_ATTEMPTS = 500;
+const MIN_OPTIONS = 4;
+
+// Distractors, used when the sentence itself has too few different labels
+const ROLE_CHOICES = ['主语', '谓语', '宾语', '表语', '定语', '状语', '补语', '同位语'];
+const POS_CHOICES = ['名词短语', '动词短语', '介词短语', '形容词短语', '副词短语', '代词', '从句'];
+const PATTERN_CHOICES = [
+  'S + V (主谓)',
+  'S + V + O (主谓宾)',
+  'S + V + P (主系表)',
+  'S + V + A (主谓状)',
+  'S + V + O + O (主谓双宾)',
+  'S + V + O + C (主谓宾补)',
+];
+const TENSE_CHOICES = [
+  'Simple Present (一般现在时)',
+  'Simple Past (一般过去时)',
+  'Simple Future (一般将来时)',
+  'Present Continuous (现在进行时)',
+  'Past Continuous (过去进行时)',
+  'Present Perfect (现在完成时)',
+  'Past Perfect (过去完成时)',
+  'Present Perfect Continuous (现在完成进行时)',
+];
+
+export const QUIZ_KIND_LABELS: Record<QuizItemKind, string> = {
+  role: '句子成分',
+  partOfSpeech: '词性',
+  pattern: '句型',
+  tense: '时态',
+};
+
+// Labels come as "English (中文)", "中文(English)" or either alone; two labels name the same
+// thing if they share either half
+const labelKeys = (label: string) =>
+  label.split(/[()（）]/).map(part => part.replace(/\s+/g, '').toLowerCase()).filter(Boolean);
+
+const sameLabel = (a: string, b: string) => {
+  const keys = labelKeys(b);
+  return labelKeys(a).some(key => keys.includes(key));
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// The sentence's own labels, topped up with distractors that don't mean the same thing
+const optionsFor = (labels: string[], choices: string[], random: () => number) => {
+  const options = [...new Set(labels)];
+  const distractors = shuffle(choices.filter(choice => !options.some(label => sameLabel(label, choice))), random);
+  const target = Math.max(MIN_OPTIONS, options.length + 1);
+  return shuffle([...options, ...distractors.slice(0, target - options.length)], random);
+};
+
+// Prefers the token card for exactly this chunk, then the cards of the words inside it
+const chunkExplanation = (result: AnalysisResult, chunk: AnalysisChunk) => {
+  const text = chunk.text.toLowerCase();
+  const exact = result.detailedTokens.find(token => token.text.toLowerCase() === text);
+  if (exact) return exact.explanation;
+
+  const inside = result.detailedTokens.filter(token => text.includes(token.text.toLowerCase()));
+  return inside.length ? inside.slice(0, 2).map(token => token.explanation).join(' ') : chunk.grammarDescription;
+};
+
+export const buildQuiz = (result: AnalysisResult, random: () => number = Math.random): QuizQuestion[] => {
+  const { chunks } = result;
+  const roleOptions = optionsFor(chunks.map(c => c.role), ROLE_CHOICES, random);
+  const posOptions = optionsFor(chunks.map(c => c.partOfSpeech), POS_CHOICES, random);
+
+  const questions: QuizQuestion[] = chunks.flatMap((chunk, index) => [
+    { id: `role-${index}`, kind: 'role' as const, chunkIndex: index, options: roleOptions, answer: chunk.role, explanation: chunkExplanation(result, chunk) },
+    { id: `pos-${index}`, kind: 'partOfSpeech' as const, chunkIndex: index, options: posOptions, answer: chunk.partOfSpeech, explanation: chunk.grammarDescription },
+  ]);
+
+  if (result.sentencePattern) {
+    questions.push({
+      id: 'pattern',
+      kind: 'pattern',
+      options: optionsFor([result.sentencePattern], PATTERN_CHOICES, random),
+      answer: result.sentencePattern,
+      explanation: chunks.map(c => `${c.text} → ${c.role}`).join('，'),
+    });
+  }
+
+  if (result.mainTense) {
+    const predicate = chunks.find(c => c.role.includes('谓语'));
+    questions.push({
+      id: 'tense',
+      kind: 'tense',
+      options: optionsFor([result.mainTense], TENSE_CHOICES, random),
+      answer: result.mainTense,
+      explanation: predicate ? chunkExplanation(result, predicate) : result.mainTense,
+    });
+  }
+
+  return questions;
+};
+
+export interface GradedItem {
+  question: QuizQuestion;
+  given: string | undefined;
+  correct: boolean;
+}
+
+export interface QuizGrade {
+  items: GradedItem[];
+  correct: number;
+  total: number;
+  byKind: QuizAttempt['byKind'];
+}
+
+// Unanswered questions count as wrong
+export const gradeQuiz = (questions: QuizQuestion[], answers: Record<string, string>): QuizGrade => {
+  const items = questions.map(question => ({
+    question,
+    given: answers[question.id],
+    correct: answers[question.id] === question.answer,
+  }));
+
+  const byKind: QuizAttempt['byKind'] = {};
+  for (const item of items) {
+    const tally = byKind[item.question.kind] ??= { correct: 0, total: 0 };
+    tally.total++;
+    if (item.correct) tally.correct++;
+  }
+
+  return { items, correct: items.filter(i => i.correct).length, total: items.length, byKind };
+};
+
+// --- Attempts ---
+
+export const loadQuizAttempts = (): QuizAttempt[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveQuizAttempts = (attempts: QuizAttempt[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(attempts.slice(0, MAX_ATTEMPTS)));
+  } catch (err) {
+    console.warn("Failed to save quiz results:", err);
+  }
+};
+
+// Newest first
+export const addQuizAttempt = (attempts: QuizAttempt[], sentence: string, grade: QuizGrade, now = Date.now()): QuizAttempt[] => {
+  const attempt: QuizAttempt = {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: now,
+    sentence,
+    correct: grade.correct,
+    total: grade.total,
+    byKind: grade.byKind,
+  };
+  return [attempt, ...attempts].slice(0, MAX_ATTEMPTS);
+};
+
+export interface QuizProgress {
+  attempts: number;
+  accuracy: number;                                     // 0-1 over all answered items
+  byKind: Partial<Record<QuizItemKind, number>>;        // Accuracy per question kind
+  recent: number[];                                     // Scores (0-1) of the last attempts, oldest first
+}
+
+export const quizProgress = (attempts: QuizAttempt[], recentCount = 10): QuizProgress => {
+  const totals: QuizAttempt['byKind'] = {};
+  let correct = 0;
+  let total = 0;
+
+  for (const attempt of attempts) {
+    correct += attempt.correct;
+    total += attempt.total;
+    for (const [kind, tally] of Object.entries(attempt.byKind) as [QuizItemKind, { correct: number; total: number }][]) {
+      const sum = totals[kind] ??= { correct: 0, total: 0 };
+      sum.correct += tally.correct;
+      sum.total += tally.total;
+    }
+  }
+
+  return {
+    attempts: attempts.length,
+    accuracy: total ? correct / total : 0,
+    byKind: Object.fromEntries(
+      Object.entries(totals).map(([kind, tally]) => [kind, tally!.total ? tally!.correct / tally!.total : 0]),
+    ),
+    recent: attempts.slice(0, recentCount).reverse().map(a => a.total ? a.correct / a.total : 0),
+  };
+};
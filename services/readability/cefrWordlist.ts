@@ -0,0 +1,257 @@
+// --- CEFR Wordlist ---
+// Base forms grouped by the level at which learners usually meet them, compiled from common
+// learner wordlists. It is deliberately small: anything not listed here is treated as C1 or
+// above, which is what "rare" means in the readability panel. Inflected forms are matched by
+// the lemmatizer in ./index.ts, so list each word once, in its base form.
+
+const A1 = `
+a about above across action activity actor actress add address adult afraid after afternoon again age ago agree air airport
+all also always am amazing an and angry animal another answer any anyone anything apartment apple april area arm around
+arrive art article as ask at august aunt autumn away baby back bad bag ball banana band bank bath bathroom be beach beautiful
+because become bed bedroom beer before begin beginning behind believe below best better between bicycle big bike bill bird
+birthday black blog blonde blue boat body book boot bored boring born both bottle box boy boyfriend bread break breakfast
+bring brother brown build building bus business busy but buy by bye cafe cake call camera can car card career carrot carry
+cat cd centre century chair change chart cheap check cheese chicken child chocolate choose cinema city class classroom clean
+climb clock close clothes club coat coffee cold college colour come common company compare complete computer concert
+conversation cook cooking cool correct cost could country course cousin cow cream create culture cup customer cut dad
+dance dancer dancing dangerous dark date daughter day dear december decide delicious describe description design desk
+detail dialogue dictionary die diet difference different difficult dinner dirty discuss dish do doctor dog dollar door down
+downstairs draw dress drink drive driver during dvd each ear early east easy eat egg eight eighteen eighty elephant eleven
+else email end enjoy enough euro even evening event ever every everybody everyone everything exam example excited exciting
+exercise expensive explain extra eye face fact fall false family famous fantastic far farm farmer fast fat father favourite
+february feel feeling festival few fifteen fifth fifty film find fine finish first fish five flat flight floor flower fly
+follow food foot football for forget form forty four fourteen fourth free friday friend friendly from front fruit full fun
+funny future game garden geography get gift girl girlfriend give glass go good goodbye grandfather grandmother grandparent
+great green grey group grow guitar gym hair half hand happen happy hard hat hate have he head health healthy hear hello help
+her here hey hi high him his history hobby holiday home homework hope horse hospital hot hotel hour house how however hundred
+hungry husband i ice idea if imagine important improve in include information interest interested interesting internet
+interview into introduce island it its jacket january jeans job join journey juice july june just keep key kilometre kind
+kitchen know land language large last late later laugh learn leave left leg lesson let letter library lie life like line
+lion list listen little live local long look lose lot love lunch machine magazine main make man many map march market married
+match may maybe me meal mean meaning meat meet meeting member menu message metre midnight mile milk million minute miss
+missing mistake model modern moment monday money month more morning most mother mountain mouse mouth move movie much mum
+museum music must my name natural near need negative neighbour never new news newspaper next nice night nine nineteen
+ninety no nobody north nose not note nothing november now number nurse object o'clock october of off office often oh ok old
+on once one onion online only open opinion opposite or orange order other our out outside over own page paint painting pair
+paper paragraph parent park part partner party passport past pay pen pencil people pepper perfect period person personal
+phone photo photograph phrase piano picture piece pig pink place plan plane plant play player please point police policeman
+pool poor popular positive possible post potato pound practice practise prefer prepare present pretty price probably problem
+product programme project purple put quarter question quick quickly quiet quite radio rain read reader reading ready real
+really reason red relax remember repeat report restaurant result return rice rich ride right river road room rule run sad
+salad salt same sandwich saturday say school science scientist sea second section see sell send sentence september seven
+seventeen seventy share she sheep shirt shoe shop shopping short should show shower sick similar sing singer sister sit
+situation six sixteen sixty skill skirt sleep slow small snake snow so some somebody someone something sometimes son song
+soon sorry sound soup south space speak special spell spelling spend sport spring stand star start statement station stay
+still stop story street strong student study style subject success sugar summer sun sunday supermarket sure surname sweater
+swim swimming table take talk tall taxi tea teach teacher team teenager telephone television tell ten tennis terrible test
+text than thank thanks that the theatre their them then there they thing think third thirsty thirteen thirty this thousand
+three through thursday ticket time tired title to today together toilet tomato tomorrow tonight too tooth topic tourist town
+traffic train travel tree trip trousers true try tuesday turn tv twelve twenty twice two type umbrella uncle under understand
+university until up upstairs us use useful usually vacation vegetable very video village visit visitor wait waiter wake walk
+wall want warm wash watch water way we wear weather website wednesday week weekend welcome well west what when where which
+white who why wife will win window wine winter with without woman wonderful word work worker world would write writer
+writing wrong yeah year yellow yes yesterday you young your yourself
+`;
+
+const A2 = `
+ability able abroad accept accident according achieve act active actually adult adventure advertise advertisement advice
+affect against ahead aim alive allow almost alone along already alternative although amount ancient ankle anybody anyway
+anywhere app appear appearance apply architect architecture argue argument army arrange arrangement attack attention attract
+audience author available average avoid award awful background badly bake balance band base basic basketball battery battle
+bean bear beat beef beginner behave behaviour belong belt benefit bill biology birth biscuit bit blank blood blow board boil
+bone bored borrow boss bottom bowl brain branch brave breath breathe bridge brief bright brilliant broken brush burn
+businessman button cabin calm camp campsite cancel candle capital captain careful carefully carpet cartoon case cash castle
+catch cause celebrate celebrity certain certainly chain chance character charity chat chef chemistry chess chip choice church
+cigarette circle classical clear clearly clever click client climate cloth cloudy coach coast code collect collection
+comedy comfortable comment communicate communication community compete competition competitor complain completely condition
+conference connect connection consider contain context continue control cooker copy corner costume cottage cotton cough
+couple crazy creative credit crime criminal cross crowd crowded cry cupboard curly cycle daily danger data dead deal death
+decision deep definitely degree dentist department depend desert designer destroy detective develop device diary difficulty
+digital direct direction director disagree disappear disaster discover discovery discussion disease distance divorced double
+download downtown drama dream drop drum dry earn earth easily education effect either electric electrical electricity
+electronic empty encourage energy engine engineer enormous enter entrance environment equipment error especially essay
+everyday everywhere evidence exact exactly excellent except exist expect experience experiment expert explanation express
+expression extreme extremely factor factory fail fair fan farming fashion feed female fiction field fight figure final
+finally finger fire fit fix flu fog foggy following foreign forest fork formal fortunately forward fresh fridge frog
+furniture further gallery gap gas gate general gentleman ghost giant glad global glove goal god gold golf government grass
+greet ground guess guest guide gun guy habit hall hang happiness headache heart heat heavy height helpful hero hide hill
+hit hockey hold hole honest horrible host hunt hurry hurt ice identify ill illness image immediately impossible incredible
+independent indoor industry injury insect inside instead instruction instructor instrument intelligent international
+introduction invent invention invitation invite involve item jam jazz jewellery joke journalist jump kid kill king knee knife
+knock lady lake lamp laptop last latest lazy lead leader lemon lend less level lifestyle lift light likely link liquid
+litre location lock lonely loud lovely low luck lucky mail major male manage manager manner mark marry material maths matter
+medical medicine memory mention method middle might mind mine mirror mix mobile monkey moon mostly motorcycle movement
+murder muscle musical musician myself narrow national nature nearly necessary neck nervous net network noise noisy none
+normal normally notice novel nowhere ocean offer officer oil opinion option ordinary organization organize original
+ourselves outdoor oven overseas owner pack pain painter palace pants parking particular pass passenger patient pattern peace
+per perform performance perhaps permission personality pet physics pilot plastic platform pocket poem poet poetry politics
+pollution possibility powerful prepare prize professional professor program progress promise pronounce protect provide pub
+public publish pull punish purpose push quality queen quiz race railway raise rare rather reach react realize receive recent
+recently recipe recognize recommend record recording recycle reduce region relationship remove rent repair reply request
+research reservation respond rest review rhythm ring rise risk robot rock role romantic round row royal rubbish rude sail
+sailor sale sauce save scared scary scene schedule score screen search season seat secret secretary seem sense separate
+series serious serve service several shake shape sheet ship shock shoot shot shout shut side sign signal silver simple since
+singing single sir site size ski skin sky slice slightly smell smile smoke smoking snack soap social society sock soft
+soldier solution solve somewhere sort source speaker speed spider spoon square stage stair stamp state steal step stomach
+stone store storm straight strange strategy stress structure stupid succeed successful suddenly suggest suit suitcase
+surprise surprised survey sweet symbol system tablet talent target taste teaching technology teenage temperature term
+therefore thick thief thin thought throw tidy tie tip tired tool top total touch tour tournament towel tower toy track
+tradition traditional trainer training transport treat trick trouble truck trust truth t-shirt twin typical unfortunately
+unhappy uniform unit unusual upset use used user usual valley value van variety vehicle view violent virus voice volleyball
+vote wait wallet war wave weak web wedding weigh weight whatever wheel whole wide wild wind wing winner wish wonder wood
+wooden wool worried worry worse worst wow yard yet youth zero zone zoo
+`;
+
+const B1 = `
+absolutely academic access accommodation account accurate achievement acquire actual adapt additional admire admit adopt
+advance advanced advantage advertising afford aggressive agreement aid alarm alcohol amazed ambition ambulance amuse analyse
+analysis anger announce announcement annoy annual anxious apart apologize apparent appeal appreciate approach appropriate
+approve approximately argue arrest article artificial aspect assess assessment assist assistant associate assume atmosphere
+attach attempt attend attitude attractive authority automatic aware awareness backwards bar bargain barrier basis bat
+bathroom beauty bell beneath bet beyond bitter blame blind bomb bond border boring bother bound boundary brand breed brick
+broad budget bullet burst bury cable calculate campaign cancer candidate capable capacity carbon care cast category ceiling
+cell challenge champion channel chapter charge chart cheat chemical chest chief childhood claim classic climb closely
+clue coin colleague combination combine comfort command commercial commit commitment committee comparison competitive
+complaint complex concentrate concept concern conclude conclusion conduct confidence confident confirm conflict confuse
+confused confusing congratulate connect conscious consequence conservative considerable consist constant construct
+construction consume consumer contact contemporary content contest contract contrast contribute contribution convenient
+convince cooperate core corporate council count courage court cover crash crew criticism criticize crop crucial cure
+curious current currently curtain custom damage deadline debate debt decade declare decline decorate decrease defeat
+defence defend define definition deliver delivery demand democracy demonstrate deny depressed depth deserve desire despite
+destination determine determined development diagram differ dig dimension dinosaur direct dirt disabled disadvantage
+disappointed discount dislike display distinguish district disturb divide document domestic dominate doubt dozen draft drag
+due dull dust duty eager edge edit edition educate educated effective efficient effort elderly elect election element
+emerge emergency emotion emotional emphasis employ employee employer employment enable encounter engage enhance ensure
+entertain entertainment enthusiasm enthusiastic entire entirely entry equal equally equivalent escape essential establish
+estimate ethical evaluate eventually evidence evil evolution examine exceed exchange exhibition exit expand expansion
+expectation expedition expense explode explore export expose extend extent external extraordinary facility failure faith
+false familiar fancy fault fear feature fee fence file film finance financial firm flag flash flexible float flood flow
+focus fold folk force forecast forever formal former fortune found foundation frame freedom freeze frequent frequently
+frighten frightened frustrated fuel fully function fund fundamental funeral garage gather gene generate generation generous
+genius genuine gesture glance goods grab grade gradually graduate grain grand grant graph grateful grave guarantee guard
+guilty handle harm harmful headline heal heritage highlight hire historic hollow honour horror household huge humour hunger
+ideal identical identity ignore illegal illustrate impact implement implication imply import impress impression impressive
+incident income increase increasingly indeed index indicate individual industrial inform initial initiative injure innocent
+insist inspect inspire install instance institution insurance intend intense intention interaction interpret interrupt
+invest investigate investigation investment issue jail jealous joint judge judgement junior justice justify keen
+kidnap knowledge label labour lack landscape largely laser launch lawyer layer league leak lecture legal leisure liberal
+licence lie limit limited literature loan lorry loss lung luxury mad mainly maintain majority mall manufacture margin
+massive master meanwhile measure mechanism media mental mere merely mess metal military minimum minister minor minority
+mission mixture mode moderate monitor mood moral mortgage motivate motivation motor mount multiple murder mystery myth
+naked negotiate nerve nevertheless nightmare nuclear numerous nutrition obey objective obligation observation observe
+obtain obvious obviously occasion occupy occur odd offence official operate operation opponent oppose opposition organ
+otherwise outcome output overall overcome owe pace panel participate participant partly passion path pause peak penalty
+percentage perfectly permanent persuade phase philosophy physical pile pitch plain pleasure plenty plot pole policy polite
+political pop population portion portrait pose position possess potential poverty practical precise predict prediction
+presence preserve pressure pretend prevent previous primary prime principal principle prior priority prison prisoner private
+procedure proceed process produce profession profit proof proper property proportion proposal propose prospect protest
+proud prove psychology pure pursue qualification qualify quantity quarter random range rank rapid rate rating raw reality
+reasonable rebel recall recession recover recovery reflect reform refugee refuse regard regional register regular regulate
+reject relate relative release relevant reliable relief religion religious rely remain remark remarkable remind remote
+replace represent reputation require requirement rescue resident resist resolve resource respect responsibility
+responsible restore restrict retire reveal revolution reward rid rival rob root rough route routine rural sack safety
+sample satisfy scale scheme scholarship scream sector secure security seek select senior sensible sensitive sentence
+sequence settle severe sex shadow shallow shame shelter shift shine significant silence silly sink slave slide slip soil
+sole solid somehow specific spiritual split spoil sponsor spot spread stable staff standard statistic status steady stick
+stock strength stretch strict strike string struggle stuff substance suffer sufficient suicide summary supply support
+suppose surface surgery surround survival survive suspect suspicious sustainable swing tackle tale task tax tear technical
+technique temporary tend tendency tension terms territory theme theory threat threaten thus tight tiny tissue tone tough
+trace trade trail transfer transform transition trap tremendous trend trial tribe troop tropical tube tune twist ultimate
+unemployment union unique universe unless upper urban urge urgent valid vast venue version victim victory virtual visible
+vision vital volume volunteer vulnerable warn warning waste weapon wealth wealthy weird welfare whereas widely willing
+wisdom withdraw witness wound yield
+`;
+
+const B2 = `
+abandon absence absorb abstract absurd abuse academy accelerate accent acceptable accessible accidentally accommodate
+accompany accomplish accountant accumulate accusation accuse acknowledge acquisition activate adequate adjust administration
+adolescent adverse advocate aesthetic affair affection agenda agent aggression agricultural alert alien align allegation
+allegedly alliance allocate ally alter alternatively ambiguous amend ample analogy analyst ancestor anniversary anticipate
+anxiety apparatus applicant appoint appointment appreciation apprentice arbitrary arena arise array arrogant aside aspire
+assault assemble assert assign assumption assure astonish asylum attain attendance attribute audit authentic autonomy
+await backup ban bankrupt bare barely battlefield bias bid biography blade blast bleed blend bless boost boom bounce
+breakthrough breakdown bride brutal bubble bulk burden bureaucracy cabinet calculation cancellation capability capitalism
+capture cargo casual catalogue cater caution cautious cease celebrate certificate chaos characteristic charm charter chronic
+circulate circumstance citizenship civic civilian civilization clarify clash classify clause clinic cluster coalition
+coherent coincidence collaborate collapse collective colony commence commentary commission commodity compact companion
+compassion compatible compel compensate compensation competence compile complement compliance complicated comply component
+compose compound comprehensive comprise compromise compulsory conceive concession condemn confer confess confront
+consensus consent conserve consistent consolidate conspiracy constitute constitution constraint consult consultant
+contaminate contempt contend contradict controversial controversy convention conventional conversion convert convey
+conviction cooperation coordinate cope corporation correspond correspondent corridor corrupt corruption counsel counter
+counterpart crack craft credible criterion critic critique crude cruel cue cultivate curriculum cynical dairy dawn
+deadly decent deceive decisive dedicate deem default defect deficiency deficit deliberate deliberately delicate democratic
+denial dense deploy deposit depression deprive deputy derive descend designate detain detect deter deteriorate devastate
+devote diagnose diagnosis dialect dictate differentiate dilemma diminish diplomat diplomatic directive disability
+disastrous discard discharge disclose discourse discrimination dismiss disorder disposal dispute disrupt dissolve distinct
+distinction distort distract distress distribute distribution diverse diversity doctrine donate donation dose dramatic
+drain dramatically drift dual dump durable dynamic earnest ecological ecology economist ecosystem efficiency elaborate
+elegant elementary eligible eliminate elite eloquent embark embarrass embassy embrace emission empathy empirical empower
+enact endorse endure enforce enforcement enhance enlightenment enormous enquiry enrich enrol enterprise entity entrepreneur
+epidemic episode equality equation equip erode erupt essence ethnic evacuate evident evoke exaggerate excess exclude
+exclusive execute execution executive exemplify exert exhaust exhibit exile explicit exploit exploitation exposure
+extract facilitate faculty fade fascinate feasible federal feedback fierce finite fiscal flaw flee fleet flourish fluctuate
+fluent forge formula formulate forthcoming foster fraction fragile fragment framework fraud friction frontier fulfil
+fusion gadget gallon gaze gender generic genocide glimpse gloom grace gravity grief grip guideline habitat halt handful
+harassment hardware harsh hazard heighten hence heir hierarchy hint hostile hostility humanitarian humble hypothesis
+ideology idiot illuminate illusion immense immigrant immigration imminent immune imperial implicit impose incentive
+incidence inclined incorporate indicator induce inequality inevitable inevitably infant infection infer infinite inflation
+influential infrastructure inherent inherit inhibit inject injustice innovation innovative input inquiry insight inspection
+instinct institutional integral integrate integrity intellectual intelligence interfere interim intermediate interval
+intervene intervention intimate intriguing invade invasion inventory invisible irony isolate isolation jury keen kidney
+landmark lawsuit layout leak legacy legislation legislative legitimate lens lethal liability liable liberty likewise
+linear linger literacy litigation lobby logic logical lottery loyal loyalty magnitude mainstream mandate mandatory
+manifest manipulate manuscript marginal marine mature maximize meditation memorable mentor merchant merge merit
+metaphor migration militant militia minimal minimize ministry miracle misleading mobility mobilize modest modify molecule
+momentum monopoly morality mortality motive municipal mutual narrative naval negligence neutral nominate norm notable
+notion notorious novelty nursery obesity objection oblige obscure obsession obstacle offspring ongoing onset opt optimism
+optimistic oral orchestra ordinance orientation originate orthodox outbreak outfit outlet outline outlook outrage
+outstanding overlook overseas oversee overwhelm overwhelming oxygen par paradigm paradox parallel parameter parliament
+partial partisan passive patent pathway patron peasant peculiar pedestrian peer penetrate pension perceive perception
+perspective petition pharmaceutical phenomenon pioneer pipeline plea pledge plunge portfolio posture precede precedent
+precision predator predecessor predominantly preference prejudice preliminary premise premium prescribe prescription
+prestige presumably prevail prevalent privilege probe proclaim productive proficiency profound progressive prohibit
+prominent promote prompt propaganda prosecute prosecutor prosper prosperity protocol provincial provision provoke
+psychiatric publicity pump punishment quest questionnaire quota radar radical rally ratio rational realm reassure rebellion
+recipient reconcile recruit recruitment redundant referendum refine reinforce reluctant remedy render renew reportedly
+reproduce republic reside residential residue resign resignation resilient resolution respective restraint resume retain
+retreat retrieve revenue reverse revenge revise revive rhetoric rigid riot ritual robust rotate ruling sacred sacrifice
+sanction scandal scarce scatter sceptical scope scrutiny seemingly segment seize sensation sentiment serial settlement
+shed shortage shrink siege simulate simultaneously skeptical slam slogan soar sober socialist solely solidarity sophisticated
+sovereignty span spark specialist specify spectacular spectrum speculate speculation sphere spine spontaneous stability
+stake stance statute steer stimulate stimulus straightforward strain strand strive submit subsequent subsidy substantial
+substitute subtle suburb successive successor sue summit superb superior supervise supervisor supplement suppress supreme
+surge surplus suspend suspension sustain swift symbolic symptom syndrome synthesis tactic tangible temptation tenant
+tenure terminal testify testimony texture theft therapy thereby thesis threshold thrive tolerance tolerate torture toxic
+transaction transcript transmission transmit transparency transparent treaty tribunal trigger triumph trivial turmoil
+tutor undergo undermine undertake unify unprecedented uphold usage utility utilize vacuum vague variable vendor verdict
+verify versus veteran viable vibrant vicious vigorous violate violation virtue vocal void voluntary vow ward warrant
+whatsoever widespread wilderness withstand workforce workshop worthwhile worthy
+`;
+
+export const CEFR_WORDLIST: Record<'A1' | 'A2' | 'B1' | 'B2', string> = { A1, A2, B1, B2 };
+
+// Irregular forms the suffix rules can't undo
+export const IRREGULAR_FORMS: Record<string, string> = {
+  am: 'be', is: 'be', are: 'be', was: 'be', were: 'be', been: 'be', being: 'be',
+  has: 'have', had: 'have', does: 'do', did: 'do', done: 'do',
+  went: 'go', gone: 'go', ate: 'eat', eaten: 'eat', saw: 'see', seen: 'see', came: 'come',
+  took: 'take', taken: 'take', gave: 'give', given: 'give', got: 'get', gotten: 'get',
+  made: 'make', said: 'say', told: 'tell', thought: 'think', brought: 'bring', bought: 'buy',
+  caught: 'catch', taught: 'teach', found: 'find', felt: 'feel', kept: 'keep', left: 'leave',
+  led: 'lead', met: 'meet', paid: 'pay', ran: 'run', sat: 'sit', slept: 'sleep', spoke: 'speak',
+  spoken: 'speak', stood: 'stand', understood: 'understand', wrote: 'write', written: 'write',
+  knew: 'know', known: 'know', grew: 'grow', grown: 'grow', drew: 'draw', drawn: 'draw',
+  drove: 'drive', driven: 'drive', flew: 'fly', flown: 'fly', forgot: 'forget', forgotten: 'forget',
+  began: 'begin', begun: 'begin', broke: 'break', broken: 'break', chose: 'choose', chosen: 'choose',
+  fell: 'fall', fallen: 'fall', held: 'hold', heard: 'hear', lost: 'lose', meant: 'mean', sent: 'send',
+  spent: 'spend', won: 'win', wore: 'wear', worn: 'wear', sold: 'sell', sang: 'sing', sung: 'sing',
+  swam: 'swim', threw: 'throw', thrown: 'throw', woke: 'wake', built: 'build', lent: 'lend',
+  rose: 'rise', risen: 'rise', shook: 'shake', stole: 'steal', stolen: 'steal', struck: 'strike',
+  sought: 'seek', fought: 'fight', hid: 'hide', hidden: 'hide', bit: 'bite', bitten: 'bite',
+  children: 'child', men: 'man', women: 'woman', people: 'person', feet: 'foot', teeth: 'tooth',
+  mice: 'mouse', lives: 'life', wives: 'wife', knives: 'knife', leaves: 'leaf', halves: 'half',
+  better: 'good', best: 'good', worse: 'bad', worst: 'bad', further: 'far', farther: 'far',
+  me: 'i', my: 'i', mine: 'i', him: 'he', his: 'he', her: 'she', hers: 'she', us: 'we', our: 'we',
+  them: 'they', their: 'they', theirs: 'they', an: 'a',
+};
@@ -0,0 +1,168 @@
+import { splitSentences } from "../textSegmentation";
+import { CEFR_WORDLIST, IRREGULAR_FORMS } from "./cefrWordlist";
+
+// --- Readability ---
+// Objective difficulty figures computed in the browser, no API call: Flesch scores from
+// word and syllable counts, an estimated average clause length, and a lexical CEFR level
+// from the bundled wordlist. All of these are estimates meant for comparing texts (e.g. an
+// essay before and after a rewrite), not a certified level.
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1'] as const;
+export type CefrLevel = typeof CEFR_LEVELS[number];   // 'C1' stands for "C1 or above / not in the list"
+
+// Words above this level are highlighted as rare
+const RARE_ABOVE: CefrLevel = 'B1';
+// The text's level is the one that covers this share of its words
+const LEVEL_COVERAGE = 0.9;
+
+export interface RareWord {
+  word: string;       // As written in the text
+  level: CefrLevel;
+}
+
+export interface ReadabilityStats {
+  words: number;
+  sentences: number;
+  syllables: number;
+  clauses: number;                 // Estimated from clause markers; see `countClauses`
+  avgSentenceLength: number;       // Words per sentence
+  avgClauseLength: number;         // Words per clause
+  fleschReadingEase: number;       // 0-100+, higher is easier
+  fleschKincaidGrade: number;      // US school grade
+  cefr: CefrLevel;
+  levelCounts: Record<CefrLevel, number>;
+  rareWords: RareWord[];
+}
+
+const WORD_PATTERN = /[A-Za-z]+(?:['’][A-Za-z]+)*/g;
+
+const WORD_LEVELS = (() => {
+  const levels = new Map<string, CefrLevel>();
+  // Lower levels first, so a word listed twice keeps its easier level
+  for (const [level, words] of Object.entries(CEFR_WORDLIST) as [CefrLevel, string][]) {
+    for (const word of words.split(/\s+/)) {
+      if (word && !levels.has(word)) levels.set(word, level);
+    }
+  }
+  return levels;
+})();
+
+const levelIndex = (level: CefrLevel) => CEFR_LEVELS.indexOf(level);
+
+// Drops contractions and possessives: "don't" -> "do", "children's" -> "children"
+const stripClitics = (word: string) => {
+  const w = word.toLowerCase().replace(/’/g, "'");
+  if (w === "can't") return 'can';
+  if (w === "won't") return 'will';
+  return w.replace(/n't$/, '').replace(/'(s|re|ve|ll|d|m)$/, '').replace(/'$/, '');
+};
+
+// Base forms a word could have come from; the suffix rules overgenerate, the wordlist filters
+const lemmaCandidates = (word: string): string[] => {
+  const candidates = [word];
+  if (IRREGULAR_FORMS[word]) candidates.push(IRREGULAR_FORMS[word]);
+
+  const strip = (suffix: string, ...replacements: string[]) => {
+    if (!word.endsWith(suffix) || word.length - suffix.length < 2) return;
+    const stem = word.slice(0, -suffix.length);
+    for (const r of replacements) candidates.push(stem + r);
+    // stopped -> stop, running -> run, bigger -> big
+    if (/([b-df-hj-np-tv-z])\1$/.test(stem)) candidates.push(stem.slice(0, -1));
+  };
+
+  strip('ies', 'y'); strip('es', ''); if (!word.endsWith('ss')) strip('s', '');
+  strip('ied', 'y'); strip('ed', '', 'e');
+  strip('ing', '', 'e');
+  strip('ier', 'y'); strip('iest', 'y'); strip('er', '', 'e'); strip('est', '', 'e');
+  strip('ily', 'y'); strip('ly', '', 'le');
+  strip('ness', ''); strip('ment', '');
+  return candidates;
+};
+
+export const wordLevel = (word: string): CefrLevel => {
+  let best: CefrLevel = 'C1';
+  // Two rounds, for stacked suffixes: researchers -> researcher -> research
+  const candidates = lemmaCandidates(stripClitics(word)).flatMap(lemmaCandidates);
+  for (const candidate of candidates) {
+    const level = WORD_LEVELS.get(candidate);
+    if (level && levelIndex(level) < levelIndex(best)) best = level;
+  }
+  return best;
+};
+
+// Vowel groups, minus a silent final "e"; good to within a syllable for most words
+export const countSyllables = (word: string) => {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (w.length <= 3) return 1;
+  const trimmed = w.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 1);
+};
+
+// One clause per sentence, plus one per subordinator, relative pronoun, "that", or a
+// coordinating conjunction after a comma or semicolon. Participle phrases are not counted.
+const CLAUSE_MARKERS = /\b(?:who|whom|whose|which|that|because|although|though|whereas|unless|while|whenever|wherever|if|whether)\b|[,;]\s*(?:and|but|or|so|yet)\b|;/gi;
+
+const countClauses = (sentence: string) => 1 + (sentence.match(CLAUSE_MARKERS)?.length ?? 0);
+
+const round = (value: number, digits = 1) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+export const analyzeReadability = (text: string): ReadabilityStats => {
+  const sentences = splitSentences(text);
+  const levelCounts = Object.fromEntries(CEFR_LEVELS.map(l => [l, 0])) as Record<CefrLevel, number>;
+  const rare = new Map<string, RareWord>();
+  const rated: CefrLevel[] = [];
+  let words = 0;
+  let syllables = 0;
+  let clauses = 0;
+
+  for (const sentence of sentences) {
+    clauses += countClauses(sentence);
+    const tokens: string[] = sentence.match(WORD_PATTERN) || [];
+
+    tokens.forEach((token, i) => {
+      words++;
+      syllables += countSyllables(token);
+
+      const level = wordLevel(token);
+      // A capitalized word that isn't in the list is most likely a name
+      if (level === 'C1' && i > 0 && /^[A-Z]/.test(token)) return;
+
+      levelCounts[level]++;
+      rated.push(level);
+      if (levelIndex(level) > levelIndex(RARE_ABOVE) && !rare.has(token.toLowerCase())) {
+        rare.set(token.toLowerCase(), { word: token, level });
+      }
+    });
+  }
+
+  const sorted = rated.map(levelIndex).sort((a, b) => a - b);
+  const covering = sorted.length ? sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * LEVEL_COVERAGE) - 1)] : 0;
+
+  const wordsPerSentence = sentences.length ? words / sentences.length : 0;
+  const syllablesPerWord = words ? syllables / words : 0;
+
+  return {
+    words,
+    sentences: sentences.length,
+    syllables,
+    clauses,
+    avgSentenceLength: round(wordsPerSentence),
+    avgClauseLength: round(clauses ? words / clauses : 0),
+    fleschReadingEase: words ? round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord) : 0,
+    fleschKincaidGrade: words ? round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59) : 0,
+    cefr: CEFR_LEVELS[covering],
+    levelCounts,
+    rareWords: [...rare.values()],
+  };
+};
+
+// Plain-language band for the Flesch Reading Ease score
+export const readingEaseLabel = (score: number) => {
+  if (score >= 80) return '容易';
+  if (score >= 60) return '标准';
+  if (score >= 40) return '较难';
+  return '很难';
+};
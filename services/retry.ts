@@ -0,0 +1,44 @@
+import { CancelledError, toServiceError } from "./errors";
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 800;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new CancelledError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new CancelledError();
+};
+
+// Runs `task`, retrying transient failures (rate limit, network) with exponential
+// backoff plus jitter. Recognized errors are normalized to ServiceError before being rethrown.
+export const withRetry = async <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await task();
+    } catch (error) {
+      const serviceError = signal?.aborted ? new CancelledError() : toServiceError(error);
+      // Unclassified errors are rethrown as-is so the caller can attach its own message
+      if (serviceError.kind === 'unknown') throw error;
+      if (!serviceError.retryable || attempt >= MAX_ATTEMPTS) throw serviceError;
+
+      const delay = BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+      console.warn(`Retrying after ${serviceError.name} (attempt ${attempt}), waiting ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
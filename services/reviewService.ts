@@ -0,0 +1,143 @@
+import { NotebookItem, ReviewGrade, ReviewLogEntry, ReviewState } from "../types";
+import { DAY_MS } from "./cacheService";
+
+// --- Spaced Repetition ---
+// SM-2 scheduling over the vocabulary notebook, computed entirely in the browser. Each item
+// carries its own `review` state; a separate log of every grading feeds the daily new-card
+// limit and the statistics.
+
+const LOG_KEY = 'grammaviz-review-log';
+const MAX_LOG_ENTRIES = 5000;
+
+export const NEW_PER_DAY = 20;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// A forgotten item comes back in the same session, then again after this delay
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+// Items at this interval or longer count as "mature" in the statistics
+const MATURE_INTERVAL = 21;
+
+// SM-2 response quality; below 3 means the item was forgotten
+const QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export const loadReviewLog = (): ReviewLogEntry[] => {
+  try {
+    const raw = localStorage.getItem(LOG_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveReviewLog = (log: ReviewLogEntry[]) => {
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify(log.slice(-MAX_LOG_ENTRIES)));
+  } catch (err) {
+    console.warn("Failed to save review log:", err);
+  }
+};
+
+const startOfDay = (timestamp: number) => {
+  const midnight = new Date(timestamp);
+  midnight.setHours(0, 0, 0, 0);
+  return midnight.getTime();
+};
+
+// Midnight `days` days after `timestamp`; by calendar date, so DST changes don't shift it
+const addDays = (timestamp: number, days: number) => {
+  const date = new Date(startOfDay(timestamp));
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+// --- Scheduling ---
+
+export const scheduleReview = (state: ReviewState | undefined, grade: ReviewGrade, now = Date.now()): ReviewState => {
+  const prev = state ?? { repetitions: 0, interval: 0, ease: INITIAL_EASE, due: now, lapses: 0 };
+  const q = QUALITY[grade];
+  const ease = Math.max(MIN_EASE, Math.round((prev.ease + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)) * 100) / 100);
+
+  if (grade === 'again') {
+    return { repetitions: 0, interval: 0, ease, due: now + RELEARN_DELAY_MS, lapses: prev.lapses + (prev.repetitions > 0 ? 1 : 0) };
+  }
+
+  const good = prev.repetitions === 0 ? 1
+    : prev.repetitions === 1 ? 6
+    : Math.max(prev.interval + 1, Math.round(prev.interval * ease));
+  const interval = grade === 'good' ? good
+    : grade === 'hard' ? (prev.repetitions === 0 ? 1 : Math.max(prev.interval + 1, Math.round(prev.interval * 1.2)))
+    : prev.repetitions === 0 ? 4 : Math.max(good + 1, Math.round(good * 1.3));
+
+  return { repetitions: prev.repetitions + 1, interval, ease, due: addDays(now, interval), lapses: prev.lapses };
+};
+
+// Grades one item and records it in the log
+export const applyReview = (items: NotebookItem[], log: ReviewLogEntry[], itemId: string, grade: ReviewGrade, now = Date.now()) => {
+  const item = items.find(i => i.id === itemId);
+  if (!item) return { items, log };
+  return {
+    items: items.map(i => i.id === itemId ? { ...i, review: scheduleReview(i.review, grade, now) } : i),
+    log: [...log, { itemId, grade, reviewedAt: now, isNew: !item.review }].slice(-MAX_LOG_ENTRIES),
+  };
+};
+
+// Items due now, most overdue first, then today's share of new items, oldest saved first
+export const buildReviewQueue = (items: NotebookItem[], log: ReviewLogEntry[], now = Date.now()) => {
+  const today = startOfDay(now);
+  const newToday = log.filter(e => e.isNew && e.reviewedAt >= today).length;
+
+  const due = items.filter(i => i.review && i.review.due <= now).sort((a, b) => a.review!.due - b.review!.due);
+  const fresh = items.filter(i => !i.review).sort((a, b) => a.addedAt - b.addedAt).slice(0, Math.max(0, NEW_PER_DAY - newToday));
+  return [...due, ...fresh];
+};
+
+// --- Statistics ---
+
+export interface ReviewStats {
+  reviewedToday: number;
+  streakDays: number;          // Days in a row with at least one review, up to today or yesterday
+  retention: number | null;    // Share of items recalled in the last 30 days, excluding first reviews
+  newCount: number;
+  learningCount: number;
+  matureCount: number;
+  upcoming: number[];          // Items coming due on each of the next 7 days
+}
+
+export const reviewStats = (items: NotebookItem[], log: ReviewLogEntry[], now = Date.now()): ReviewStats => {
+  const today = startOfDay(now);
+  const reviewDays = new Set(log.map(e => startOfDay(e.reviewedAt)));
+
+  let streakDays = 0;
+  let day = reviewDays.has(today) ? today : addDays(today, -1);
+  while (reviewDays.has(day)) {
+    streakDays++;
+    day = addDays(day, -1);
+  }
+
+  const recent = log.filter(e => !e.isNew && e.reviewedAt >= now - 30 * DAY_MS);
+  const reviewed = items.filter(i => i.review);
+
+  return {
+    reviewedToday: log.filter(e => e.reviewedAt >= today).length,
+    streakDays,
+    retention: recent.length ? recent.filter(e => e.grade !== 'again').length / recent.length : null,
+    newCount: items.length - reviewed.length,
+    learningCount: reviewed.filter(i => i.review!.interval < MATURE_INTERVAL).length,
+    matureCount: reviewed.filter(i => i.review!.interval >= MATURE_INTERVAL).length,
+    upcoming: Array.from({ length: 7 }, (_, d) => {
+      const start = addDays(today, d + 1);
+      const end = addDays(today, d + 2);
+      return reviewed.filter(i => i.review!.due >= start && i.review!.due < end).length;
+    }),
+  };
+};
+
+// "10 分钟" / "3 天" / "2 个月", for the grade buttons
+export const formatInterval = (state: ReviewState, now = Date.now()) => {
+  if (state.interval === 0) return `${Math.max(1, Math.round((state.due - now) / 60_000))} 分钟`;
+  if (state.interval < 30) return `${state.interval} 天`;
+  if (state.interval < 365) return `${Math.round(state.interval / 30)} 个月`;
+  return `${Math.round(state.interval / 36.5) / 10} 年`;
+};
@@ -0,0 +1,31 @@
+import { AppTab } from "../types";
+
+// --- Hash Routing ---
+// The active page lives in the URL hash (#/dictionary) so the app keeps working as a
+// static build without server-side rewrites. Share links add a result snapshot:
+//   #/analyzer?snapshot=<payload>
+
+export interface Route {
+  tab: AppTab;
+  snapshot?: string;
+}
+
+const TABS: AppTab[] = ['analyzer', 'dictionary', 'writing', 'notebook', 'review', 'history', 'settings'];
+const DEFAULT_TAB: AppTab = 'analyzer';
+
+export const parseRoute = (hash: string): Route => {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+  const tab = TABS.find(t => t === path) || DEFAULT_TAB;
+  const snapshot = new URLSearchParams(query).get('snapshot') || undefined;
+  return snapshot ? { tab, snapshot } : { tab };
+};
+
+export const formatRoute = ({ tab, snapshot }: Route) =>
+  snapshot ? `#/${tab}?${new URLSearchParams({ snapshot })}` : `#/${tab}`;
+
+export const currentRoute = () => parseRoute(window.location.hash);
+
+export const navigate = (route: Route) => {
+  const hash = formatRoute(route);
+  if (window.location.hash !== hash) window.location.hash = hash;
+};
@@ -0,0 +1,118 @@
+import { CuratedSection } from "../../types";
+
+// Built-in example sentences. Exam sections are written in the style of those papers,
+// not copied from them.
+export const CURATED_SECTIONS: CuratedSection[] = [
+  {
+    id: 'basics',
+    group: 'topic',
+    name: '基础句型',
+    sentences: [
+      "Regular exercise can improve confidence.",
+      "The quick brown fox jumps over the lazy dog.",
+      "To learn a new language requires patience.",
+      "Rich countries can provide people with many job opportunities.",
+      "Reading books expands your mind.",
+    ],
+  },
+  {
+    id: 'relative-clauses',
+    group: 'topic',
+    name: '定语从句',
+    sentences: [
+      "The book that you lent me last week was fascinating.",
+      "Students who study abroad often become more independent.",
+      "This is the village where my grandparents grew up.",
+      "He failed the exam, which surprised all of his teachers.",
+      "The scientist whose research changed the field has retired.",
+      "There are moments in life when words are not enough.",
+    ],
+  },
+  {
+    id: 'noun-clauses',
+    group: 'topic',
+    name: '名词性从句',
+    sentences: [
+      "What matters most is how you treat other people.",
+      "It is widely believed that exercise reduces stress.",
+      "The question is whether we can finish the project on time.",
+      "I have no idea why she left the party so early.",
+      "The fact that he apologized made everyone feel better.",
+    ],
+  },
+  {
+    id: 'inversion',
+    group: 'topic',
+    name: '倒装句',
+    sentences: [
+      "Never have I seen such a beautiful sunset.",
+      "Not only did she win the race, but she also broke the record.",
+      "Only when the rain stopped did we leave the house.",
+      "Hardly had he arrived when the meeting began.",
+      "Under no circumstances should you open this door.",
+      "So difficult was the test that few students passed it.",
+    ],
+  },
+  {
+    id: 'subjunctive',
+    group: 'topic',
+    name: '虚拟语气',
+    sentences: [
+      "If I were you, I would accept the offer.",
+      "If she had left earlier, she would have caught the train.",
+      "I wish I had studied harder when I was at school.",
+      "The doctor insisted that he stay in bed for a week.",
+      "It is essential that every student attend the lecture.",
+      "Had it not been for your help, we would have failed.",
+    ],
+  },
+  {
+    id: 'participle-phrases',
+    group: 'topic',
+    name: '分词短语',
+    sentences: [
+      "Walking along the beach, we found a strange shell.",
+      "Written in simple English, the book is easy to read.",
+      "Having finished his homework, Tom went out to play.",
+      "The girl sitting by the window is my cousin.",
+      "Weather permitting, the match will be held tomorrow.",
+    ],
+  },
+  {
+    id: 'emphasis',
+    group: 'topic',
+    name: '强调句',
+    sentences: [
+      "It was in this room that the treaty was signed.",
+      "It is not the cost but the time that worries me.",
+      "It was only after the accident that he realized the danger.",
+      "What I need is a long holiday by the sea.",
+    ],
+  },
+  {
+    id: 'ielts-reading',
+    group: 'exam',
+    name: '雅思阅读',
+    sentences: [
+      "Although the theory was initially dismissed by most scholars, subsequent excavations provided compelling evidence in its favour.",
+      "The extent to which urban green spaces improve mental health remains a matter of considerable debate.",
+      "Researchers found that bees exposed to low doses of pesticide were less able to navigate back to their hives.",
+      "Far from being a recent phenomenon, the migration of rural workers to cities dates back several centuries.",
+      "Only by analysing the chemical composition of the ice could scientists reconstruct the climate of the distant past.",
+      "It was not until the invention of the printing press that literacy began to spread beyond a small elite.",
+    ],
+  },
+  {
+    id: 'cet6',
+    group: 'exam',
+    name: '大学英语六级',
+    sentences: [
+      "With the rapid development of technology, people are increasingly dependent on their smartphones.",
+      "It is generally acknowledged that a good education lays the foundation for a successful career.",
+      "What concerns many parents is that children spend too much time online rather than outdoors.",
+      "Those who are willing to take on challenges are more likely to achieve personal growth.",
+      "Faced with fierce competition in the job market, many graduates choose to pursue further study.",
+      "No matter how busy we are, we should spare some time to care for our elderly parents.",
+    ],
+  },
+];
@@ -0,0 +1,110 @@
+import { LibrarySentence, SentenceCollection } from "../../types";
+import { normalizeInput } from "../cacheService";
+import { InvalidCollectionFileError } from "../errors";
+import { CURATED_SECTIONS } from "./curatedSentences";
+
+// --- Sentence Library ---
+// Built-in example sentences by grammar topic and exam, plus the user's own named
+// collections in localStorage. Collections move between devices as JSON files; importing
+// merges by collection name and skips sentences that are already there.
+
+export { CURATED_SECTIONS };
+
+const STORAGE_KEY = 'grammaviz-library';
+const FILE_VERSION = 1;
+
+export const ALL_CURATED_SENTENCES = CURATED_SECTIONS.flatMap(s => s.sentences);
+
+export const loadCollections = (): SentenceCollection[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCollections = (collections: SentenceCollection[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(collections));
+  } catch (err) {
+    console.warn("Failed to save sentence collections:", err);
+  }
+};
+
+const newId = (now: number) => `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Collection names match ignoring case and extra spaces
+export const findCollection = (collections: SentenceCollection[], name: string) =>
+  collections.find(c => normalizeInput(c.name).toLowerCase() === normalizeInput(name).toLowerCase());
+
+// Adds sentences to the collection with this name, creating it if needed. Sentences already
+// in it are skipped; new ones go first, in the order given.
+const mergeInto = (collections: SentenceCollection[], name: string, texts: string[], now: number): SentenceCollection[] => {
+  const existing = findCollection(collections, name);
+  const collection = existing ?? { id: newId(now), name: normalizeInput(name), createdAt: now, sentences: [] };
+
+  const seen = new Set(collection.sentences.map(s => normalizeInput(s.text)));
+  const added: LibrarySentence[] = [];
+  for (const text of texts.map(normalizeInput)) {
+    if (!text || seen.has(text)) continue;
+    seen.add(text);
+    added.push({ id: newId(now), text, addedAt: now });
+  }
+
+  const updated = { ...collection, sentences: [...added, ...collection.sentences] };
+  return existing
+    ? collections.map(c => c.id === existing.id ? updated : c)
+    : [...collections, updated];
+};
+
+export const addToCollection = (collections: SentenceCollection[], name: string, text: string, now = Date.now()) =>
+  mergeInto(collections, name, [text], now);
+
+export const removeFromCollection = (collections: SentenceCollection[], collectionId: string, sentenceId: string) =>
+  collections.map(c => c.id === collectionId ? { ...c, sentences: c.sentences.filter(s => s.id !== sentenceId) } : c);
+
+export const deleteCollection = (collections: SentenceCollection[], collectionId: string) =>
+  collections.filter(c => c.id !== collectionId);
+
+// --- Import / Export ---
+
+export const exportCollectionsJson = (collections: SentenceCollection[]) =>
+  JSON.stringify({
+    v: FILE_VERSION,
+    collections: collections.map(c => ({ name: c.name, sentences: c.sentences.map(s => s.text) })),
+  }, null, 2);
+
+const readCollection = (raw: unknown) => {
+  const data = raw as { name?: unknown; sentences?: unknown } | null;
+  if (!data || typeof data.name !== 'string' || !data.name.trim() || !Array.isArray(data.sentences)) return null;
+  const sentences = data.sentences.filter((s): s is string => typeof s === 'string' && !!s.trim());
+  return { name: data.name, sentences };
+};
+
+// Accepts the format written by `exportCollectionsJson`
+export const parseCollectionsJson = (json: string) => {
+  let data: { v?: unknown; collections?: unknown };
+  try {
+    data = JSON.parse(json);
+  } catch (err) {
+    throw new InvalidCollectionFileError(err);
+  }
+
+  const collections = data && data.v === FILE_VERSION && Array.isArray(data.collections)
+    ? data.collections.map(readCollection)
+    : [];
+  if (!collections.length || collections.some(c => !c)) throw new InvalidCollectionFileError();
+  return collections as { name: string; sentences: string[] }[];
+};
+
+export const importCollections = (collections: SentenceCollection[], json: string, now = Date.now()) =>
+  parseCollectionsJson(json).reduce((acc, c) => mergeInto(acc, c.name, c.sentences, now), collections);
+
+// --- Practice ---
+
+// A random sentence, other than `current` when there is a choice
+export const randomSentence = (sentences: string[], current = '', random = Math.random) => {
+  const pool = sentences.length > 1 ? sentences.filter(s => normalizeInput(s) !== normalizeInput(current)) : sentences;
+  return pool.length ? pool[Math.floor(random() * pool.length)] : null;
+};
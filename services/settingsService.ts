@@ -0,0 +1,43 @@
+import { AppSettings } from "../types";
+
+// --- User Settings ---
+// Persisted in localStorage and read by the provider factory on every service call,
+// so changes apply immediately without a reload.
+
+const STORAGE_KEY = 'grammaviz-settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  apiKey: '',
+  models: {},
+  temperature: null,
+  ttsVoice: '',
+};
+
+// Prebuilt voices offered by Gemini TTS
+export const GEMINI_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    // No localStorage (server) or corrupted entry
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Failed to save settings:", err);
+  }
+};
+
+export const resetSettings = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (err) {
+    console.warn("Failed to reset settings:", err);
+  }
+};
@@ -0,0 +1,99 @@
+import { AnalysisResult, SyntaxNode, WritingMode, WritingResult } from "../types";
+import { validateAnalysis, validateWriting } from "./validators";
+import { WRITING_MODE_INSTRUCTIONS } from "./prompts";
+import { InvalidShareLinkError } from "./errors";
+import { formatRoute } from "./router";
+
+// --- Share Links ---
+// A share link carries the whole result: JSON, deflated, base64url-encoded into the URL
+// hash. Opening it renders the snapshot read-only with no model call and no server.
+// Snapshots come from the URL, so they go through the same validators as model output.
+
+const SNAPSHOT_VERSION = 1;
+
+export type SharedSnapshot =
+  | { tab: 'analyzer'; result: AnalysisResult }
+  | { tab: 'writing'; result: WritingResult };
+
+// --- Encoding ---
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Response(bytes).body!.pipeThrough(transform)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+// The syntax tree is stored flat, the same way the model returns it, so validateAnalysis
+// can rebuild and check it on the way back in
+const flattenTree = (node: SyntaxNode, parentId = ''): object[] => {
+  const { children, chunkIndex, tokenIndex, ...rest } = node;
+  return [
+    { ...rest, parentId, chunkIndex: chunkIndex ?? -1, tokenIndex: tokenIndex ?? -1 },
+    ...children.flatMap(child => flattenTree(child, node.id)),
+  ];
+};
+
+const toWire = (snapshot: SharedSnapshot) => {
+  if (snapshot.tab === 'analyzer' && snapshot.result.syntaxTree) {
+    return { ...snapshot, result: { ...snapshot.result, syntaxTree: flattenTree(snapshot.result.syntaxTree) } };
+  }
+  return snapshot;
+};
+
+export const encodeSnapshot = async (snapshot: SharedSnapshot): Promise<string> => {
+  const json = JSON.stringify({ v: SNAPSHOT_VERSION, ...toWire(snapshot) });
+  return toBase64Url(await pipeBytes(new TextEncoder().encode(json), new CompressionStream('deflate')));
+};
+
+// --- Decoding ---
+
+const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+const readResult = (data: Record<string, unknown>): SharedSnapshot | null => {
+  const raw = data.result as Record<string, unknown> | undefined;
+  if (!raw || typeof raw !== 'object') return null;
+
+  if (data.tab === 'analyzer') {
+    const { value, issues } = validateAnalysis(raw);
+    if (issues.length || typeof raw.englishSentence !== 'string') return null;
+    return { tab: 'analyzer', result: { ...value, englishSentence: raw.englishSentence, promptVersion: optionalString(raw.promptVersion) } };
+  }
+
+  if (data.tab === 'writing') {
+    const { value, issues } = validateWriting(raw);
+    const mode = raw.mode as WritingMode;
+    if (issues.length || !Object.keys(WRITING_MODE_INSTRUCTIONS).includes(mode)) return null;
+    return { tab: 'writing', result: { ...value, mode, promptVersion: optionalString(raw.promptVersion) } };
+  }
+
+  return null;
+};
+
+export const decodeSnapshot = async (payload: string): Promise<SharedSnapshot> => {
+  let data: Record<string, unknown>;
+  try {
+    const bytes = await pipeBytes(fromBase64Url(payload), new DecompressionStream('deflate'));
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (err) {
+    throw new InvalidShareLinkError(err);
+  }
+
+  const snapshot = data && data.v === SNAPSHOT_VERSION ? readResult(data) : null;
+  if (!snapshot) throw new InvalidShareLinkError();
+  return snapshot;
+};
+
+export const buildShareLink = async (snapshot: SharedSnapshot) => {
+  const route = formatRoute({ tab: snapshot.tab, snapshot: await encodeSnapshot(snapshot) });
+  return `${window.location.origin}${window.location.pathname}${route}`;
+};
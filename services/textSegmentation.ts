@@ -0,0 +1,13 @@
+// --- Sentence Segmentation ---
+// Intl.Segmenter follows the Unicode sentence rules, so decimals ("3.5") and abbreviations
+// followed by a lowercase word ("e.g. this") don't end a sentence the way a naive split on "." would.
+
+const sentenceSegmenter = new Intl.Segmenter('en', { granularity: 'sentence' });
+
+// Every segment, including the whitespace between sentences; joining them gives back the text
+export const segmentSentences = (text: string): string[] =>
+  Array.from(sentenceSegmenter.segment(text), s => s.segment);
+
+// Just the sentences, trimmed
+export const splitSentences = (text: string): string[] =>
+  segmentSentences(text).map(s => s.trim()).filter(Boolean);
@@ -0,0 +1,408 @@
+import {
+  AnalysisResult, AnalysisChunk, DetailedToken, Correction, CorrectionChange, SyntaxNode,
+  ClauseBreakdown, SubordinateClause, SimplificationStep,
+  DictionaryResult, DictionaryEntry, DictionaryDefinition, DictionaryCollocation,
+  WordFamilyMember, RelatedWord, Etymology,
+  ComparisonResult, ComparisonItem, ComparisonQuizItem,
+  WritingSegment,
+} from "../types";
+
+// --- Runtime Validators ---
+// Mirror the interfaces in types.ts. Each validator returns the normalized value
+// (optional fields defaulted, invalid optional fields dropped) plus the issues it
+// could not fix, phrased so they can be fed back to the model in a repair prompt.
+// The value is only usable when `issues` is empty.
+
+export interface Validation<T> {
+  value: T;
+  issues: string[];
+}
+
+// Collects issues while walking the response; path is used in messages, e.g. "chunks[2].role"
+class Checker {
+  issues: string[] = [];
+
+  isObject(value: unknown, path: string): value is Record<string, unknown> {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) return true;
+    this.issues.push(`${path || 'root'} must be an object`);
+    return false;
+  }
+
+  string(obj: Record<string, unknown>, key: string, path: string): string {
+    const value = obj[key];
+    if (typeof value === 'string') return value;
+    this.issues.push(`${path}${key} must be a string`);
+    return '';
+  }
+
+  optionalString(obj: Record<string, unknown>, key: string): string | undefined {
+    const value = obj[key];
+    return typeof value === 'string' && value.trim() ? value : undefined;
+  }
+
+  oneOf<T extends string>(obj: Record<string, unknown>, key: string, allowed: readonly T[], path: string): T {
+    const value = obj[key];
+    if (typeof value === 'string' && (allowed as readonly string[]).includes(value)) return value as T;
+    this.issues.push(`${path}${key} must be one of ${allowed.join(', ')} (got ${JSON.stringify(value)})`);
+    return allowed[0];
+  }
+
+  array<T>(obj: Record<string, unknown>, key: string, path: string, item: (value: unknown, itemPath: string) => T, { nonEmpty = true } = {}): T[] {
+    const value = obj[key];
+    if (!Array.isArray(value)) {
+      this.issues.push(`${path}${key} must be an array`);
+      return [];
+    }
+    if (nonEmpty && value.length === 0) {
+      this.issues.push(`${path}${key} must not be empty`);
+    }
+    return value.map((v, i) => item(v, `${path}${key}[${i}]`));
+  }
+
+  done<T>(value: T): Validation<T> {
+    return { value, issues: this.issues };
+  }
+}
+
+// --- Analysis ---
+
+const CHANGE_TYPES = ['add', 'remove', 'keep'] as const;
+
+const checkChunk = (c: Checker, value: unknown, path: string): AnalysisChunk => {
+  if (!c.isObject(value, path)) return { text: '', grammarDescription: '', partOfSpeech: '', role: '' };
+  const p = `${path}.`;
+  return {
+    text: c.string(value, 'text', p),
+    grammarDescription: c.string(value, 'grammarDescription', p),
+    partOfSpeech: c.string(value, 'partOfSpeech', p),
+    role: c.string(value, 'role', p),
+  };
+};
+
+const checkToken = (c: Checker, value: unknown, path: string): DetailedToken => {
+  if (!c.isObject(value, path)) return { text: '', partOfSpeech: '', role: '', explanation: '', meaning: '' };
+  const p = `${path}.`;
+  return {
+    text: c.string(value, 'text', p),
+    partOfSpeech: c.string(value, 'partOfSpeech', p),
+    role: c.string(value, 'role', p),
+    explanation: c.string(value, 'explanation', p),
+    meaning: c.string(value, 'meaning', p),
+  };
+};
+
+const checkCorrection = (c: Checker, value: unknown): Correction | undefined => {
+  // The model sometimes returns an empty object instead of omitting the field
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'object' && Object.keys(value as object).length === 0) return undefined;
+  if (!c.isObject(value, 'correction')) return undefined;
+
+  const p = 'correction.';
+  const changes = Array.isArray(value.changes)
+    ? c.array(value, 'changes', p, (v, path): CorrectionChange => {
+        if (!c.isObject(v, path)) return { type: 'keep', text: '' };
+        return { type: c.oneOf(v, 'type', CHANGE_TYPES, `${path}.`), text: c.string(v, 'text', `${path}.`) };
+      }, { nonEmpty: false })
+    : [];
+
+  return {
+    original: c.string(value, 'original', p),
+    corrected: c.string(value, 'corrected', p),
+    errorType: c.optionalString(value, 'errorType') || '',
+    reason: c.optionalString(value, 'reason') || '',
+    changes,
+  };
+};
+
+const checkClause = (c: Checker, value: unknown, path: string): SubordinateClause => {
+  if (!c.isObject(value, path)) return { text: '', type: '', attachesTo: '' };
+  const p = `${path}.`;
+  return {
+    text: c.string(value, 'text', p),
+    type: c.string(value, 'type', p),
+    attachesTo: c.string(value, 'attachesTo', p),
+    pattern: c.optionalString(value, 'pattern'),
+    tense: c.optionalString(value, 'tense'),
+  };
+};
+
+const checkStep = (c: Checker, value: unknown, path: string): SimplificationStep => {
+  if (!c.isObject(value, path)) return { sentence: '', note: '' };
+  const p = `${path}.`;
+  return { sentence: c.string(value, 'sentence', p), note: c.string(value, 'note', p) };
+};
+
+const checkClauseBreakdown = (c: Checker, value: unknown): ClauseBreakdown | undefined => {
+  // Simple sentences have no breakdown; treat an empty object like a missing one
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'object' && Object.keys(value as object).length === 0) return undefined;
+  if (!c.isObject(value, 'clauseBreakdown')) return undefined;
+
+  const p = 'clauseBreakdown.';
+  return {
+    skeleton: c.string(value, 'skeleton', p),
+    skeletonTranslation: c.optionalString(value, 'skeletonTranslation') || '',
+    clauses: c.array(value, 'clauses', p, (v, path) => checkClause(c, v, path)),
+    simplification: c.array(value, 'simplification', p, (v, path) => checkStep(c, v, path), { nonEmpty: false }),
+  };
+};
+
+const NODE_KINDS = ['clause', 'phrase', 'word'] as const;
+
+// Optional index into a sibling array; the schema uses -1 for "no match"
+const optionalIndex = (value: unknown, length: number): number | undefined =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < length ? value as number : undefined;
+
+// The schema can't describe a recursive type, so the model returns a flat node list linked by
+// parentId. Rebuild the tree here. The tree is an extra on top of the chunk view, so a malformed
+// one (bad fields, dangling parents, cycles, several roots) is dropped instead of sent for repair.
+const checkSyntaxTree = (value: unknown, chunkCount: number, tokenCount: number): SyntaxNode | undefined => {
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+
+  const c = new Checker();
+  const parents = new Map<string, string>();
+  const nodes = new Map<string, SyntaxNode>();
+  value.forEach((v, i) => {
+    const path = `syntaxTree[${i}]`;
+    if (!c.isObject(v, path)) return;
+    const p = `${path}.`;
+    const node: SyntaxNode = {
+      id: c.string(v, 'id', p),
+      label: c.string(v, 'label', p),
+      kind: c.oneOf(v, 'kind', NODE_KINDS, p),
+      text: c.string(v, 'text', p),
+      relation: c.optionalString(v, 'relation') || '',
+      isHead: v.isHead === true,
+      chunkIndex: optionalIndex(v.chunkIndex, chunkCount),
+      tokenIndex: optionalIndex(v.tokenIndex, tokenCount),
+      children: [],
+    };
+    if (!node.id || nodes.has(node.id)) c.issues.push(`${p}id must be unique`);
+    nodes.set(node.id, node);
+    parents.set(node.id, typeof v.parentId === 'string' ? v.parentId : '');
+  });
+  if (c.issues.length) return undefined;
+
+  const roots = [...nodes.values()].filter(n => !parents.get(n.id));
+  if (roots.length !== 1) return undefined;
+
+  for (const node of nodes.values()) {
+    const parentId = parents.get(node.id);
+    if (!parentId) continue;
+    const parent = nodes.get(parentId);
+    if (!parent) return undefined;
+    parent.children.push(node);
+  }
+
+  // Every node must hang off the root; anything left over sits on a cycle
+  let reached = 0;
+  const walk = (node: SyntaxNode) => { reached++; node.children.forEach(walk); };
+  walk(roots[0]);
+  return reached === nodes.size ? roots[0] : undefined;
+};
+
+export type RawAnalysis = Omit<AnalysisResult, 'englishSentence'>;
+
+export const validateAnalysis = (raw: unknown): Validation<RawAnalysis> => {
+  const c = new Checker();
+  if (!c.isObject(raw, '')) return c.done({} as RawAnalysis);
+
+  const correction = checkCorrection(c, raw.correction);
+  const chunks = c.array(raw, 'chunks', '', (v, path) => checkChunk(c, v, path));
+  const detailedTokens = c.array(raw, 'detailedTokens', '', (v, path) => checkToken(c, v, path));
+  const syntaxTree = checkSyntaxTree(raw.syntaxTree, chunks.length, detailedTokens.length);
+  const clauseBreakdown = checkClauseBreakdown(c, raw.clauseBreakdown);
+  return c.done({
+    chunks,
+    detailedTokens,
+    chineseTranslation: c.string(raw, 'chineseTranslation', ''),
+    ...(correction ? { correction } : {}),
+    sentencePattern: c.optionalString(raw, 'sentencePattern'),
+    mainTense: c.optionalString(raw, 'mainTense'),
+    ...(syntaxTree ? { syntaxTree } : {}),
+    ...(clauseBreakdown ? { clauseBreakdown } : {}),
+  });
+};
+
+// --- Dictionary ---
+
+const checkDefinition = (c: Checker, value: unknown, path: string): DictionaryDefinition => {
+  if (!c.isObject(value, path)) return { meaning: '', explanation: '', example: '', exampleTranslation: '' };
+  const p = `${path}.`;
+  return {
+    meaning: c.string(value, 'meaning', p),
+    explanation: c.string(value, 'explanation', p),
+    example: c.string(value, 'example', p),
+    exampleTranslation: c.string(value, 'exampleTranslation', p),
+    ...(value.inContext === true ? { inContext: true } : {}),
+  };
+};
+
+const checkEntry = (c: Checker, value: unknown, path: string): DictionaryEntry => {
+  if (!c.isObject(value, path)) return { partOfSpeech: '', definitions: [] };
+  const p = `${path}.`;
+  return {
+    partOfSpeech: c.string(value, 'partOfSpeech', p),
+    cocaFrequency: c.optionalString(value, 'cocaFrequency'),
+    definitions: c.array(value, 'definitions', p, (v, itemPath) => checkDefinition(c, v, itemPath)),
+  };
+};
+
+const checkCollocation = (c: Checker, value: unknown, path: string): DictionaryCollocation => {
+  if (!c.isObject(value, path)) return { phrase: '', meaning: '', example: '', exampleTranslation: '' };
+  const p = `${path}.`;
+  return {
+    phrase: c.string(value, 'phrase', p),
+    meaning: c.string(value, 'meaning', p),
+    example: c.string(value, 'example', p),
+    exampleTranslation: c.string(value, 'exampleTranslation', p),
+  };
+};
+
+const checkFamilyMember = (c: Checker, value: unknown, path: string): WordFamilyMember => {
+  if (!c.isObject(value, path)) return { word: '', partOfSpeech: '', meaning: '' };
+  const p = `${path}.`;
+  return {
+    word: c.string(value, 'word', p),
+    partOfSpeech: c.string(value, 'partOfSpeech', p),
+    meaning: c.optionalString(value, 'meaning') || '',
+  };
+};
+
+const checkRelatedWord = (c: Checker, value: unknown, path: string): RelatedWord => {
+  if (!c.isObject(value, path)) return { word: '', meaning: '' };
+  const p = `${path}.`;
+  return {
+    word: c.string(value, 'word', p),
+    meaning: c.optionalString(value, 'meaning') || '',
+    note: c.optionalString(value, 'note'),
+  };
+};
+
+// Related words are optional: phrases often have no family, synonyms or roots
+const optionalArray = <T>(c: Checker, raw: Record<string, unknown>, key: string, item: (c: Checker, v: unknown, path: string) => T): T[] =>
+  Array.isArray(raw[key]) ? c.array(raw, key, '', (v, path) => item(c, v, path), { nonEmpty: false }) : [];
+
+const checkEtymology = (c: Checker, value: unknown): Etymology | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!c.isObject(value, 'etymology')) return undefined;
+  const explanation = c.optionalString(value, 'explanation');
+  if (!explanation) return undefined;
+  return { explanation, mnemonic: c.optionalString(value, 'mnemonic') };
+};
+
+export const validateDictionary = (raw: unknown): Validation<DictionaryResult> => {
+  const c = new Checker();
+  if (!c.isObject(raw, '')) return c.done({} as DictionaryResult);
+  const etymology = checkEtymology(c, raw.etymology);
+
+  return c.done({
+    word: c.string(raw, 'word', ''),
+    phonetic: c.optionalString(raw, 'phonetic') || '',
+    entries: c.array(raw, 'entries', '', (v, path) => checkEntry(c, v, path)),
+    collocations: optionalArray(c, raw, 'collocations', checkCollocation),
+    wordFamily: optionalArray(c, raw, 'wordFamily', checkFamilyMember),
+    synonyms: optionalArray(c, raw, 'synonyms', checkRelatedWord),
+    antonyms: optionalArray(c, raw, 'antonyms', checkRelatedWord),
+    contextNote: c.optionalString(raw, 'contextNote'),
+    ...(etymology ? { etymology } : {}),
+  });
+};
+
+// --- Comparison ---
+
+const checkComparisonItem = (c: Checker, value: unknown, path: string): ComparisonItem => {
+  if (!c.isObject(value, path)) return { word: '', partOfSpeech: '', meaning: '', patterns: [], register: '', example: '', exampleTranslation: '' };
+  const p = `${path}.`;
+  return {
+    word: c.string(value, 'word', p),
+    partOfSpeech: c.optionalString(value, 'partOfSpeech') || '',
+    meaning: c.string(value, 'meaning', p),
+    patterns: Array.isArray(value.patterns) ? value.patterns.filter((v): v is string => typeof v === 'string' && !!v.trim()) : [],
+    register: c.optionalString(value, 'register') || '',
+    example: c.string(value, 'example', p),
+    exampleTranslation: c.optionalString(value, 'exampleTranslation') || '',
+  };
+};
+
+const sameWord = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const checkQuizItem = (c: Checker, value: unknown, path: string, words: string[]): ComparisonQuizItem => {
+  if (!c.isObject(value, path)) return { sentence: '', answer: '', explanation: '' };
+  const p = `${path}.`;
+  const sentence = c.string(value, 'sentence', p);
+  const answer = c.string(value, 'answer', p);
+  if (sentence && !sentence.includes('___')) c.issues.push(`${p}sentence must mark the blank with "___"`);
+  // The answer buttons are the compared words, so an answer outside them can't be chosen
+  const match = words.find(w => sameWord(w, answer));
+  if (answer && !match) c.issues.push(`${p}answer must be one of ${words.join(', ')} (got ${JSON.stringify(answer)})`);
+  return { sentence, answer: match ?? answer.trim(), explanation: c.optionalString(value, 'explanation') || '' };
+};
+
+// `words` are the words the user asked to compare; the items must cover exactly those, once each
+export const validateComparison = (raw: unknown, words: string[]): Validation<ComparisonResult> => {
+  const c = new Checker();
+  if (!c.isObject(raw, '')) return c.done({} as ComparisonResult);
+
+  const items = c.array(raw, 'items', '', (v, path) => checkComparisonItem(c, v, path));
+  items.forEach((item, i) => {
+    if (!item.word) return;
+    if (!words.some(w => sameWord(w, item.word))) {
+      c.issues.push(`items[${i}].word must be one of ${words.join(', ')} (got ${JSON.stringify(item.word)})`);
+    } else if (items.findIndex(other => sameWord(other.word, item.word)) !== i) {
+      c.issues.push(`items[${i}].word repeats ${JSON.stringify(item.word)}; describe each word once`);
+    }
+  });
+  const missing = words.filter(w => !items.some(item => sameWord(item.word, w)));
+  if (missing.length) c.issues.push(`items must describe every compared word (missing ${missing.join(', ')})`);
+
+  // In the order asked, spelled as asked
+  const ordered = words.flatMap(w => {
+    const item = items.find(i => sameWord(i.word, w));
+    return item ? [{ ...item, word: w }] : [];
+  });
+
+  return c.done({
+    words,
+    coreDifference: c.string(raw, 'coreDifference', ''),
+    items: ordered,
+    quiz: c.array(raw, 'quiz', '', (v, path) => checkQuizItem(c, v, path, words)),
+  });
+};
+
+// --- Writing ---
+
+const SEGMENT_TYPES = ['unchanged', 'change'] as const;
+const SEGMENT_CATEGORIES = ['grammar', 'vocabulary', 'style', 'collocation', 'punctuation'] as const;
+
+const checkSegment = (c: Checker, value: unknown, path: string): WritingSegment => {
+  if (!c.isObject(value, path)) return { type: 'unchanged', text: '' };
+  const p = `${path}.`;
+  const type = c.oneOf(value, 'type', SEGMENT_TYPES, p);
+  const text = c.string(value, 'text', p);
+  if (type === 'unchanged') return { type, text };
+
+  const category = SEGMENT_CATEGORIES.find(cat => cat === value.category);
+  return {
+    type,
+    text,
+    original: typeof value.original === 'string' ? value.original : '',
+    reason: c.optionalString(value, 'reason'),
+    ...(category ? { category } : {}),
+  };
+};
+
+export interface RawWriting {
+  generalFeedback: string;
+  segments: WritingSegment[];
+}
+
+export const validateWriting = (raw: unknown): Validation<RawWriting> => {
+  const c = new Checker();
+  if (!c.isObject(raw, '')) return c.done({} as RawWriting);
+
+  return c.done({
+    generalFeedback: c.string(raw, 'generalFeedback', ''),
+    segments: c.array(raw, 'segments', '', (v, path) => checkSegment(c, v, path)),
+  });
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import App from '../../App';
+import { getProvider } from '../../services/providers';
+import { analyzeSentence } from '../../services/geminiService';
+import { encodeSnapshot } from '../../services/shareService';
+import { formatRoute } from '../../services/router';
+import { saveNotebook } from '../../services/notebookService';
+import { COMPLEX_SENTENCE } from '../fixtures/inputs';
+
+describe('App routing', () => {
+  it('opens the page named in the URL', () => {
+    window.location.hash = '#/history';
+    render(<App />);
+    expect(screen.getByText('分析历史')).toBeTruthy();
+  });
+
+  it('renders a shared analysis read-only without calling the model', async () => {
+    const result = await analyzeSentence(COMPLEX_SENTENCE, 'mini');
+    window.location.hash = formatRoute({ tab: 'analyzer', snapshot: await encodeSnapshot({ tab: 'analyzer', result }) });
+
+    const provider = getProvider();
+    const generateJson = vi.spyOn(provider, 'generateJson');
+    const generateSpeech = vi.spyOn(provider, 'generateSpeech');
+    render(<App />);
+
+    await waitFor(() => expect(screen.getByText(result.chineseTranslation)).toBeTruthy());
+    expect(screen.getByText(/他人分享的句法分析结果/)).toBeTruthy();
+    expect(screen.queryByTitle('复制分享链接')).toBeNull();
+    expect(generateJson).not.toHaveBeenCalled();
+    expect(generateSpeech).not.toHaveBeenCalled();
+  });
+
+  it('explains a broken share link', async () => {
+    window.location.hash = '#/writing?snapshot=broken';
+    render(<App />);
+    expect(await screen.findByText('无法打开分享内容')).toBeTruthy();
+  });
+});
+
+describe('review badge', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('counts a card once it falls due, without any other change', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const now = Date.now();
+    saveNotebook([{
+      id: 'w1', kind: 'word', word: 'resilient', meaning: '有弹性的', tags: [], note: '', addedAt: now,
+      review: { repetitions: 0, interval: 0, ease: 2.3, due: now + 10 * 60_000, lapses: 1 },
+    }]);
+    window.location.hash = '#/history';
+    render(<App />);
+    expect(screen.queryAllByLabelText('1 项待复习')).toHaveLength(0);
+
+    vi.setSystemTime(now + 11 * 60_000);
+    act(() => { fireEvent.focus(window); });
+
+    expect(screen.getAllByLabelText('1 项待复习').length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import { DictionaryPage, DictionaryLookup } from '../../components/DictionaryPage';
+import { DictionaryResult, NotebookItem } from '../../types';
+import { toggleNotebookItem } from '../../services/notebookService';
+import { importOfflineDictionary } from '../../services/offlineDictionary';
+import { LOOKUP_WORD, CONTEXT_PHRASE, CONTEXT_SENTENCE, COMPARE_QUERY } from '../fixtures/inputs';
+
+// jsdom has no IndexedDB; the offline dictionary is an in-memory map instead
+const records = vi.hoisted(() => new Map<string, unknown>());
+vi.mock('../../services/offlineDictionary/store', () => ({
+  isStoreAvailable: async () => true,
+  getRecord: async (key: string) => records.get(key) ?? null,
+  putRecords: async (batch: { key: string }[]) => { for (const r of batch) records.set(r.key, r); },
+  clearRecords: async () => { records.clear(); },
+  countRecords: async () => records.size,
+}));
+afterEach(() => records.clear());
+
+// DictionaryPage keeps its result in the parent, like App does
+const Harness: React.FC<{ lookup?: DictionaryLookup }> = ({ lookup }) => {
+  const [result, setResult] = useState<DictionaryResult | null>(null);
+  const [pending, setPending] = useState(lookup ?? null);
+  const [notebook, setNotebook] = useState<NotebookItem[]>([]);
+  return (
+    <DictionaryPage
+      initialResult={result}
+      onResultChange={setResult}
+      modelLevel="mini"
+      pendingLookup={pending}
+      onPendingLookupHandled={() => setPending(null)}
+      notebook={notebook}
+      onToggleNotebook={(item) => setNotebook(prev => toggleNotebookItem(prev, item))}
+    />
+  );
+};
+
+describe('DictionaryPage', () => {
+  it('looks up a word and renders the recorded entry', async () => {
+    render(<Harness />);
+
+    fireEvent.change(screen.getByPlaceholderText(/输入单词或词组/), { target: { value: LOOKUP_WORD } });
+    fireEvent.submit(screen.getByPlaceholderText(/输入单词或词组/).closest('form')!);
+
+    expect(await screen.findByText('/rɪˈzɪliənt/')).toBeTruthy();
+    expect(screen.getByText('有复原力的；能迅速恢复的')).toBeTruthy();
+    expect(screen.getByText('Children are often more resilient than adults expect.')).toBeTruthy();
+    expect(screen.getByText('remarkably resilient')).toBeTruthy();
+  });
+
+  it('looks up a phrase picked from a sentence and marks the sense used there', async () => {
+    render(<Harness lookup={{ word: CONTEXT_PHRASE, context: CONTEXT_SENTENCE }} />);
+
+    expect(await screen.findByText('pop sth back')).toBeTruthy();
+    expect(screen.getByText(CONTEXT_SENTENCE)).toBeTruthy();
+    expect((screen.getByPlaceholderText(/输入单词或词组/) as HTMLInputElement).value).toBe(CONTEXT_PHRASE);
+
+    const marked = screen.getByText('本句词义').closest('[data-in-context]')!;
+    expect(marked.textContent).toContain('（开车）把……送回去');
+  });
+
+  it('saves the headword, a sense and a collocation to the notebook', async () => {
+    render(<Harness />);
+    fireEvent.change(screen.getByPlaceholderText(/输入单词或词组/), { target: { value: LOOKUP_WORD } });
+    fireEvent.submit(screen.getByPlaceholderText(/输入单词或词组/).closest('form')!);
+    await screen.findByText('/rɪˈzɪliənt/');
+
+    const buttons = screen.getAllByTitle('收藏到生词本');
+    const total = buttons.length;
+    fireEvent.click(buttons[0]);
+    fireEvent.click(screen.getByText('remarkably resilient').parentElement!.querySelector('button')!);
+
+    expect(screen.getAllByTitle('已收藏，点击移出生词本')).toHaveLength(2);
+    fireEvent.click(screen.getAllByTitle('已收藏，点击移出生词本')[0]);
+    expect(screen.getAllByTitle('收藏到生词本')).toHaveLength(total - 1);
+  });
+
+  it('shows an offline entry as local and enriches it with the model on request', async () => {
+    await importOfflineDictionary(`word,phonetic,translation,tag\n${LOOKUP_WORD},rɪˈzɪliənt,a. 有弹性的,cet6 ielts\n`, 'mini.csv');
+    render(<Harness />);
+    fireEvent.change(screen.getByPlaceholderText(/输入单词或词组/), { target: { value: LOOKUP_WORD } });
+    fireEvent.submit(screen.getByPlaceholderText(/输入单词或词组/).closest('form')!);
+
+    expect(await screen.findByText('有弹性的')).toBeTruthy();
+    expect(screen.getByText('本地词典')).toBeTruthy();
+    expect(screen.getByText('雅思')).toBeTruthy();
+    expect(screen.queryByTitle('重新生成')).toBeNull();
+
+    fireEvent.click(screen.getByText('AI 补充'));
+
+    expect(await screen.findByText('有复原力的；能迅速恢复的')).toBeTruthy();
+    expect(screen.getByText('有弹性的')).toBeTruthy();
+    expect(screen.getAllByText('AI 生成').length).toBeGreaterThan(0);
+    expect(screen.queryByText('AI 补充')).toBeNull();
+  });
+
+  it('shows related words in collapsible sections and looks one up on click', async () => {
+    await importOfflineDictionary('word,translation\nfragile,a. 脆弱的；易碎的\n', 'mini.csv');
+    render(<Harness />);
+    fireEvent.change(screen.getByPlaceholderText(/输入单词或词组/), { target: { value: LOOKUP_WORD } });
+    fireEvent.submit(screen.getByPlaceholderText(/输入单词或词组/).closest('form')!);
+    await screen.findByText('/rɪˈzɪliənt/');
+
+    // The word family starts open, the other sections collapsed
+    expect(screen.getByText('resilience')).toBeTruthy();
+    expect(screen.queryByText('fragile')).toBeNull();
+    fireEvent.click(screen.getByText('词源与记忆'));
+    expect(screen.getByText(/resilire/)).toBeTruthy();
+
+    fireEvent.click(screen.getByText('反义词'));
+    fireEvent.click(screen.getByTitle('查询 fragile'));
+
+    expect(await screen.findByText('脆弱的；易碎的')).toBeTruthy();
+    expect((screen.getByPlaceholderText(/输入单词或词组/) as HTMLInputElement).value).toBe('fragile');
+  });
+
+  it('compares confusable words and grades the fill-in-the-blank check', async () => {
+    render(<Harness />);
+    fireEvent.click(screen.getByRole('tab', { name: '易混词辨析' }));
+    const input = screen.getByPlaceholderText(/易混词/);
+
+    fireEvent.change(input, { target: { value: 'affect' } });
+    fireEvent.submit(input.closest('form')!);
+    expect(screen.getByText(/请输入 2 到 4 个/)).toBeTruthy();
+
+    fireEvent.change(input, { target: { value: COMPARE_QUERY } });
+    fireEvent.submit(input.closest('form')!);
+
+    expect(await screen.findByText('核心区别')).toBeTruthy();
+    expect(screen.getByRole('region', { name: 'affect' }).textContent).toContain('be affected by sth');
+    expect(screen.getByRole('region', { name: 'effect' }).textContent).toContain('Lack of sleep has a negative effect');
+
+    const questions = screen.getByLabelText('填空自测').querySelectorAll('li');
+    fireEvent.click(within(questions[0] as HTMLElement).getByRole('button', { name: 'affect' }));
+    fireEvent.click(within(questions[1] as HTMLElement).getByRole('button', { name: 'affect' }));
+    expect(questions[0].textContent).toContain('正确');
+    expect(questions[1].textContent).toContain('应填 effect');
+    expect(screen.getByText('2 / 4')).toBeTruthy();
+  });
+});
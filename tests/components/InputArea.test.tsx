@@ -0,0 +1,36 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { InputArea } from '../../components/InputArea';
+import { CURATED_SECTIONS, loadCollections } from '../../services/sentenceLibrary';
+
+describe('InputArea sentence library', () => {
+  it('analyzes a sentence picked from a grammar topic', () => {
+    const onAnalyze = vi.fn();
+    render(<InputArea onAnalyze={onAnalyze} isLoading={false} />);
+
+    fireEvent.click(screen.getByTitle('例句库'));
+    const inversion = CURATED_SECTIONS.find(s => s.id === 'inversion')!;
+    fireEvent.click(screen.getByText(inversion.name));
+    fireEvent.click(screen.getByText(inversion.sentences[0]));
+
+    expect(onAnalyze).toHaveBeenCalledWith(inversion.sentences[0]);
+  });
+
+  it('saves the typed sentence into a collection and practices from it', () => {
+    const onAnalyze = vi.fn();
+    render(<InputArea onAnalyze={onAnalyze} isLoading={false} />);
+
+    fireEvent.change(screen.getByPlaceholderText('请输入英语句子或段落...'), { target: { value: 'Seldom do we meet.' } });
+    fireEvent.click(screen.getByTitle('例句库'));
+    fireEvent.click(screen.getByText('我的例句集'));
+    fireEvent.change(screen.getByLabelText('例句集名称'), { target: { value: '每日一句' } });
+    fireEvent.click(screen.getByText('收藏当前句子'));
+
+    expect(loadCollections()).toMatchObject([{ name: '每日一句', sentences: [{ text: 'Seldom do we meet.' }] }]);
+    expect(screen.getByText('已收藏到「每日一句」')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('从「每日一句」随机一句'));
+    expect(onAnalyze).toHaveBeenCalledWith('Seldom do we meet.');
+  });
+});
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import { NotebookPage } from '../../components/NotebookPage';
+import { NotebookItem } from '../../types';
+import { addNotebookItem, headwordItem, collocationItem, updateNotebookItem, removeNotebookItems } from '../../services/notebookService';
+import { lookupWord } from '../../services/geminiService';
+import { LOOKUP_WORD, CONTEXT_PHRASE, CONTEXT_SENTENCE } from '../fixtures/inputs';
+
+// NotebookPage keeps its items in the parent, like App does
+const Harness: React.FC<{ initial: NotebookItem[]; onLookup?: (word: string, source?: string) => void }> = ({ initial, onLookup = () => {} }) => {
+  const [items, setItems] = useState(initial);
+  return (
+    <NotebookPage
+      items={items}
+      onUpdate={(id, patch) => setItems(prev => updateNotebookItem(prev, id, patch))}
+      onDelete={(ids) => setItems(prev => removeNotebookItems(prev, ids))}
+      onLookup={onLookup}
+    />
+  );
+};
+
+const buildItems = async () => {
+  const word = await lookupWord(LOOKUP_WORD, 'mini');
+  const phrase = await lookupWord(CONTEXT_PHRASE, 'mini', { context: CONTEXT_SENTENCE });
+  let items: NotebookItem[] = [];
+  items = addNotebookItem(items, headwordItem(word), 1000);
+  items = addNotebookItem(items, collocationItem(word, word.collocations![0]), 2000);
+  items = addNotebookItem(items, headwordItem(phrase), 3000);
+  return items;
+};
+
+describe('NotebookPage', () => {
+  it('tags an item and filters by that tag', async () => {
+    render(<Harness initial={await buildItems()} />);
+
+    const tagInput = screen.getByLabelText('resilient 标签');
+    fireEvent.change(tagInput, { target: { value: '形容词, 雅思' } });
+    fireEvent.keyDown(tagInput, { key: 'Enter' });
+    expect(screen.getByTitle('移除标签 雅思')).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText('标签'), { target: { value: '雅思' } });
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+  });
+
+  it('deletes the selected items in bulk', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    render(<Harness initial={await buildItems()} />);
+
+    fireEvent.click(screen.getByLabelText('选择 resilient'));
+    fireEvent.click(screen.getByLabelText('选择 pop sth back'));
+    fireEvent.click(screen.getByText(/删除所选/));
+
+    const remaining = screen.getAllByRole('listitem');
+    expect(remaining).toHaveLength(1);
+    expect(within(remaining[0]).getByText('remarkably resilient')).toBeTruthy();
+  });
+
+  it('opens an item in the dictionary with its source sentence', async () => {
+    const onLookup = vi.fn();
+    render(<Harness initial={await buildItems()} onLookup={onLookup} />);
+
+    fireEvent.click(screen.getAllByText('在词典中查看')[0]);
+    expect(onLookup).toHaveBeenCalledWith('pop sth back', CONTEXT_SENTENCE);
+  });
+});
@@ -0,0 +1,131 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { ResultDisplay } from '../../components/ResultDisplay';
+import { analyzeSentence } from '../../services/geminiService';
+import { analyzeReadability } from '../../services/readability';
+import { ANALYZED_SENTENCE, CORRECTED_SENTENCE, COMPLEX_SENTENCE } from '../fixtures/inputs';
+
+describe('ResultDisplay', () => {
+  it('renders the recorded analysis', async () => {
+    const result = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    render(<ResultDisplay result={result} />);
+
+    expect(screen.getByText(result.chineseTranslation)).toBeTruthy();
+    expect(screen.getByText(result.sentencePattern!)).toBeTruthy();
+    for (const chunk of result.chunks) {
+      expect(screen.getAllByText(chunk.text).length).toBeGreaterThan(0);
+    }
+  });
+
+  it('shows the grammar correction with its diff', async () => {
+    const result = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    render(<ResultDisplay result={result} />);
+
+    expect(screen.getByText(result.correction!.errorType)).toBeTruthy();
+    expect(screen.getByText(result.correction!.reason)).toBeTruthy();
+    expect(screen.getByText('have')).toBeTruthy();
+  });
+
+  it('offers a regenerate button only when a handler is given', async () => {
+    const result = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    const { rerender } = render(<ResultDisplay result={result} />);
+    expect(screen.queryByTitle('重新分析')).toBeNull();
+
+    rerender(<ResultDisplay result={result} onRegenerate={() => {}} />);
+    expect(screen.getByTitle('重新分析')).toBeTruthy();
+  });
+
+  it('links tokens and chunks to the dictionary with the sentence as context', async () => {
+    const result = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    const onLookup = vi.fn();
+    render(<ResultDisplay result={result} onLookup={onLookup} />);
+
+    const links = screen.getAllByTitle('在词典中查看');
+    expect(links).toHaveLength(result.chunks.length + result.detailedTokens.length);
+
+    fireEvent.click(links[result.chunks.length + 1]);
+    expect(onLookup).toHaveBeenCalledWith('has been living', CORRECTED_SENTENCE);
+  });
+
+  it('shows the long sentence breakdown only for complex sentences', async () => {
+    const simple = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    const { rerender } = render(<ResultDisplay result={simple} />);
+    expect(screen.queryByText('长难句拆解')).toBeNull();
+
+    const complex = await analyzeSentence(COMPLEX_SENTENCE, 'mini');
+    rerender(<ResultDisplay result={complex} />);
+    expect(screen.getByText('长难句拆解')).toBeTruthy();
+    expect(screen.getByText(complex.clauseBreakdown!.skeleton)).toBeTruthy();
+    for (const clause of complex.clauseBreakdown!.clauses) {
+      expect(screen.getByText(clause.type)).toBeTruthy();
+      expect(screen.getByText(clause.attachesTo)).toBeTruthy();
+    }
+    for (const step of complex.clauseBreakdown!.simplification) {
+      expect(screen.getByText(step.note)).toBeTruthy();
+    }
+  });
+
+  it('shows difficulty metrics computed from the sentence', async () => {
+    const result = await analyzeSentence(COMPLEX_SENTENCE, 'mini');
+    const stats = analyzeReadability(result.englishSentence);
+    render(<ResultDisplay result={result} />);
+    expect(screen.getByText('难度指标')).toBeTruthy();
+    expect(screen.getByText(`${stats.words} / ${stats.syllables}`)).toBeTruthy();
+    expect(screen.getByText(String(stats.avgClauseLength))).toBeTruthy();
+  });
+});
+
+describe('ResultDisplay quiz', () => {
+  it('hides the labels, grades the answers and saves the attempt', async () => {
+    const result = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    render(<ResultDisplay result={result} />);
+
+    fireEvent.click(screen.getByTitle('语法练习'));
+    // The answer is only left among the options
+    expect(screen.getAllByText(result.sentencePattern!).map(el => el.tagName)).toEqual(['OPTION']);
+    expect(screen.queryByText('逐词/意群详解')).toBeNull();
+
+    fireEvent.change(screen.getByLabelText('She 句子成分'), { target: { value: '主语' } });
+    fireEvent.change(screen.getByLabelText('has been living 句子成分'), { target: { value: '宾语' } });
+    fireEvent.click(screen.getByText(/提交答案/));
+
+    expect(screen.getByText(/得分 1 \/ /)).toBeTruthy();
+    expect(screen.getByText('正确答案：谓语')).toBeTruthy();
+    expect(screen.getByText(/已练习 1 次/)).toBeTruthy();
+    expect(JSON.parse(localStorage.getItem('grammaviz-quiz')!)).toHaveLength(1);
+
+    fireEvent.click(screen.getByTitle('语法练习'));
+    expect(screen.getByText(result.sentencePattern!).tagName).toBe('SPAN');
+  });
+});
+
+describe('ResultDisplay syntax tree', () => {
+  it('highlights the chunk and token card of the hovered node', async () => {
+    const result = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    const { container } = render(<ResultDisplay result={result} />);
+
+    fireEvent.mouseEnter(screen.getByRole('treeitem', { name: /^PP 地点状语/ }));
+
+    const highlighted = [...container.querySelectorAll('[data-highlighted]')].map(el => el.textContent);
+    expect(highlighted).toHaveLength(3);
+    expect(highlighted[0]).toContain('in London');  // chunk
+    expect(highlighted[1]).toContain('介词');        // "in" card
+    expect(highlighted[2]).toContain('专有名词');    // "London" card
+  });
+
+  it('collapses and expands a node on click', async () => {
+    const result = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    render(<ResultDisplay result={result} />);
+    const verbPhrase = screen.getByRole('treeitem', { name: /^VP 谓语/ });
+    const treeItems = () => screen.getAllByRole('treeitem').length;
+
+    expect(treeItems()).toBe(13);
+    fireEvent.click(verbPhrase);
+    expect(verbPhrase.getAttribute('aria-expanded')).toBe('false');
+    expect(treeItems()).toBe(4);
+
+    fireEvent.click(screen.getByRole('treeitem', { name: /^VP 谓语/ }));
+    expect(treeItems()).toBe(13);
+  });
+});
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { describe, expect, it } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { ReviewPage } from '../../components/ReviewPage';
+import { Header } from '../../components/Header';
+import { NotebookItem, ReviewLogEntry } from '../../types';
+import { addNotebookItem, headwordItem, definitionItem } from '../../services/notebookService';
+import { applyReview, buildReviewQueue } from '../../services/reviewService';
+import { lookupWord } from '../../services/geminiService';
+import { LOOKUP_WORD } from '../fixtures/inputs';
+
+// ReviewPage keeps the notebook and log in the parent, like App does; the header shows the due count
+const Harness: React.FC<{ initial: NotebookItem[] }> = ({ initial }) => {
+  const [items, setItems] = useState(initial);
+  const [log, setLog] = useState<ReviewLogEntry[]>([]);
+  return (
+    <>
+      <Header activeTab="review" onNavigate={() => {}} modelLevel="mini" onModelChange={() => {}} reviewDueCount={buildReviewQueue(items, log).length} />
+      <ReviewPage
+        items={items}
+        log={log}
+        onGrade={(id, grade) => {
+          const next = applyReview(items, log, id, grade);
+          setItems(next.items);
+          setLog(next.log);
+        }}
+        onOpenNotebook={() => {}}
+      />
+    </>
+  );
+};
+
+const buildItems = async () => {
+  const word = await lookupWord(LOOKUP_WORD, 'mini');
+  let items: NotebookItem[] = [];
+  items = addNotebookItem(items, headwordItem(word), 1000);
+  items = addNotebookItem(items, definitionItem(word, word.entries[0].partOfSpeech, word.entries[0].definitions[0]), 2000);
+  return { word, items };
+};
+
+describe('ReviewPage', () => {
+  it('reveals the answer and schedules the card on grading', async () => {
+    const { word, items } = await buildItems();
+    render(<Harness initial={items} />);
+
+    expect(screen.getAllByLabelText('2 项待复习')).toHaveLength(2);
+    expect(screen.queryByText(word.phonetic)).toBeNull();
+
+    fireEvent.click(screen.getByText('显示答案'));
+    expect(screen.getByText(word.phonetic)).toBeTruthy();
+    expect(screen.getByTitle('播放发音')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('良好'));
+    expect(screen.getAllByLabelText('1 项待复习')).toHaveLength(2);
+    expect(screen.getByText('本次已复习 1')).toBeTruthy();
+  });
+
+  it('brings a forgotten card back at the end of the session', async () => {
+    const { items } = await buildItems();
+    render(<Harness initial={items} />);
+
+    fireEvent.click(screen.getByText('显示答案'));
+    fireEvent.click(screen.getByText('忘记'));
+    fireEvent.click(screen.getByText('显示答案'));
+    fireEvent.click(screen.getByText('简单'));
+    expect(screen.getByText('剩余 1')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('显示答案'));
+    fireEvent.click(screen.getByText('良好'));
+    expect(screen.getByText(/今天没有待复习的内容了/)).toBeTruthy();
+    expect(screen.getByLabelText('复习统计').textContent).toContain('今日已复习3');
+  });
+});
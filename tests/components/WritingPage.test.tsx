@@ -0,0 +1,54 @@
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { WritingPage } from '../../components/WritingPage';
+import { evaluateWriting } from '../../services/geminiService';
+import { writingSourceText } from '../../services/historyService';
+import { WRITING_TEXT } from '../fixtures/inputs';
+
+describe('WritingPage segments', () => {
+  const renderRecorded = async () => {
+    const result = await evaluateWriting(WRITING_TEXT, 'fix', 'mini');
+    render(<WritingPage initialResult={result} onResultChange={() => {}} modelLevel="mini" />);
+    return result;
+  };
+
+  it('renders unchanged text and each change with its original', async () => {
+    const result = await renderRecorded();
+
+    expect(screen.getByText('My brother')).toBeTruthy();
+    expect(screen.getByText('likes')).toBeTruthy();
+    expect(screen.getByText('like')).toBeTruthy();
+    expect(screen.getByText('on')).toBeTruthy();
+    expect(screen.getByText(result.generalFeedback)).toBeTruthy();
+  });
+
+  it('shows the reason when a change is clicked', async () => {
+    const result = await renderRecorded();
+    const change = result.segments.find(s => s.category === 'collocation')!;
+
+    expect(screen.queryByText(change.reason!)).toBeNull();
+    fireEvent.click(screen.getByText(change.text));
+    expect(screen.getByText(change.reason!)).toBeTruthy();
+  });
+});
+
+describe('WritingPage opened with a result', () => {
+  it('shows the original essay of a shared result', async () => {
+    const result = await evaluateWriting(WRITING_TEXT, 'fix', 'mini');
+    render(<WritingPage initialResult={result} onResultChange={() => {}} modelLevel="mini" readOnly />);
+
+    fireEvent.click(screen.getByText('查看原文'));
+
+    // The input box holds the essay too; the original view is the one outside it
+    const shown = screen.getAllByText(writingSourceText(result)).filter(el => el.tagName !== 'TEXTAREA');
+    expect(shown).toHaveLength(1);
+  });
+
+  it('can regenerate a result reopened from history', async () => {
+    const result = await evaluateWriting(WRITING_TEXT, 'fix', 'mini');
+    render(<WritingPage initialResult={result} onResultChange={() => {}} modelLevel="mini" />);
+
+    expect(screen.getByText('重新生成').closest('button')!.disabled).toBe(false);
+  });
+});
@@ -0,0 +1,21 @@
+// Inputs the fixtures in this directory were recorded with. Changing one of these
+// (or a prompt) changes the request hash and needs a re-record.
+
+export const ANALYZED_SENTENCE = "She have been living in London since 2015.";
+export const CORRECTED_SENTENCE = "She has been living in London since 2015.";
+
+// Has a relative clause, a noun clause and a participle phrase
+export const COMPLEX_SENTENCE = "The researchers who led the study found that children exposed to music early performed better at school.";
+
+export const LOOKUP_WORD = "resilient";
+
+export const WRITING_TEXT = "My brother like playing football. He is very interested on sports and he trains every weekend.";
+
+export const CHAT_QUESTION = "为什么这里用 has 而不是 have？";
+
+// A separable phrasal verb picked from a sentence, looked up in that sentence's context
+export const CONTEXT_PHRASE = "pop us back";
+export const CONTEXT_SENTENCE = "Could you pop us back to the station after lunch?";
+
+// A confusable pair for the comparison mode, typed the way a student would
+export const COMPARE_QUERY = "affect / effect";
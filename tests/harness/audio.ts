@@ -0,0 +1,52 @@
+// Minimal stand-in for the Web Audio API, which jsdom doesn't implement.
+// Supports what the app uses: createBuffer, and enough of the context to construct one.
+
+export class FakeAudioBuffer {
+  private channels: Float32Array[];
+
+  constructor(public numberOfChannels: number, public length: number, public sampleRate: number) {
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+}
+
+export class FakeAudioContext {
+  state: AudioContextState = 'running';
+  sampleRate: number;
+  currentTime = 0;
+  destination = {};
+
+  constructor(options?: AudioContextOptions) {
+    this.sampleRate = options?.sampleRate ?? 44100;
+  }
+
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(numberOfChannels, length, sampleRate);
+  }
+
+  createBufferSource() {
+    return {
+      buffer: null,
+      onended: null as (() => void) | null,
+      connect() {},
+      start() {
+        this.onended?.();
+      },
+    };
+  }
+
+  async resume() {
+    this.state = 'running';
+  }
+
+  async close() {
+    this.state = 'closed';
+  }
+}
@@ -0,0 +1,90 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { LlmProvider } from '../../services/providers';
+import { createGeminiProvider } from '../../services/providers/geminiProvider';
+
+// --- Record / Replay ---
+// Wraps a provider so every raw model response is stored as a JSON fixture, keyed by a
+// hash of the request. In replay mode the fixtures are served back and nothing touches
+// the network, so the suite runs offline and deterministically.
+//
+// Re-record after changing a prompt or schema:
+//   RECORD=1 GEMINI_API_KEY=... npm test
+
+export type ReplayMode = 'replay' | 'record';
+
+export const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '../fixtures');
+
+type Method = 'generateJson' | 'chat' | 'chatStream' | 'generateSpeech';
+
+interface Fixture<T> {
+  method: Method;
+  request: Record<string, unknown>;
+  response: T;
+}
+
+// Everything that can change the model's output goes into the key; the abort signal doesn't
+export const fixtureKey = (method: Method, request: object) => {
+  const { signal, ...rest } = request as Record<string, unknown>;
+  const hash = createHash('sha256').update(JSON.stringify({ method, ...rest })).digest('hex').slice(0, 16);
+  return `${method}-${hash}`;
+};
+
+const fixturePath = (key: string) => path.join(FIXTURE_DIR, `${key}.json`);
+
+export class MissingFixtureError extends Error {
+  constructor(public key: string, public request: object) {
+    super(`No recorded response for ${key}. Record it with RECORD=1 against the live model.`);
+    this.name = 'MissingFixtureError';
+  }
+}
+
+export const createReplayProvider = (mode: ReplayMode, inner: LlmProvider = createGeminiProvider(undefined)): LlmProvider => {
+  const run = async <T>(method: Method, request: object, live: () => Promise<T>): Promise<T> => {
+    const key = fixtureKey(method, request);
+    const file = fixturePath(key);
+
+    if (mode === 'record') {
+      const response = await live();
+      // The schema is part of the key but too noisy to keep in the file
+      const { signal, schema, ...stored } = request as Record<string, unknown>;
+      const fixture: Fixture<T> = { method, request: stored, response };
+      fs.mkdirSync(FIXTURE_DIR, { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+      return response;
+    }
+
+    if (!fs.existsSync(file)) throw new MissingFixtureError(key, request);
+    const fixture: Fixture<T> = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return fixture.response;
+  };
+
+  return {
+    ...inner,
+    isConfigured: () => mode === 'replay' || inner.isConfigured(),
+
+    generateJson: (request) => run('generateJson', request, () => inner.generateJson(request)),
+
+    chat: (request) => run('chat', request, () => inner.chat(request)),
+
+    // Streams are stored chunk by chunk so replay reproduces the same deltas
+    chatStream: async (request, onDelta) => {
+      const chunks = await run('chatStream', request, async () => {
+        const recorded: string[] = [];
+        await inner.chatStream(request, (delta) => recorded.push(delta));
+        return recorded;
+      });
+      chunks.forEach(onDelta);
+      return chunks.join('');
+    },
+
+    generateSpeech: (request) => run('generateSpeech', request, () => inner.generateSpeech(request)),
+  };
+};
+
+// Provider used by the test setup: replays fixtures unless RECORD=1
+export const createTestProvider = () => process.env.RECORD === '1'
+  ? createReplayProvider('record', createGeminiProvider(process.env.GEMINI_API_KEY || process.env.API_KEY))
+  : createReplayProvider('replay');
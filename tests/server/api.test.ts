@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createApiServer, ApiServerOptions } from '../../server/app';
+import { getChatResponse, streamChatResponse } from '../../services/geminiService';
+
+// The routes are under test, not the model calls behind them
+vi.mock('../../services/geminiService', () => ({
+  analyzeSentence: vi.fn(),
+  lookupWord: vi.fn(),
+  compareWords: vi.fn(),
+  evaluateWriting: vi.fn(),
+  summarizeConversation: vi.fn(),
+  generateSpeechAudio: vi.fn(),
+  getChatResponse: vi.fn(async () => 'reply'),
+  streamChatResponse: vi.fn(async (_history, _context, _message, _type, onUpdate: (text: string) => void) => {
+    onUpdate('re');
+    onUpdate('reply');
+    return 'reply';
+  }),
+}));
+
+const servers: Server[] = [];
+
+// Starts a server on a free port and returns its base URL
+const start = async (options: ApiServerOptions) => {
+  const server = createApiServer(options);
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+let baseUrl = '';
+
+// Request logging; the spy is restored after every test
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+beforeAll(async () => {
+  baseUrl = await start({ rateLimitPerMinute: 100 });
+});
+
+afterAll(() => Promise.all(servers.map(server => new Promise(resolve => server.close(resolve)))));
+
+const post = (route: string, body: unknown, headers: Record<string, string> = {}, url = baseUrl) => fetch(`${url}/api/${route}`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', ...headers },
+  body: JSON.stringify(body),
+});
+
+describe('chat route', () => {
+  it('chats without context when nothing was analyzed yet', async () => {
+    const response = await post('chat', { history: [], contextContent: null, message: 'What is a clause?', contextType: 'sentence' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ text: 'reply' });
+    expect(vi.mocked(getChatResponse).mock.calls[0].slice(0, 4)).toEqual([[], null, 'What is a clause?', 'sentence']);
+  });
+
+  it('streams without context when the field is missing', async () => {
+    const response = await post('chat', { message: 'What is a clause?', stream: true });
+
+    expect(response.status).toBe(200);
+    expect((await response.text()).trim().split('\n').map(line => JSON.parse(line))).toEqual([
+      { delta: 're' }, { delta: 'ply' }, { done: true },
+    ]);
+    expect(vi.mocked(streamChatResponse).mock.calls[0][1]).toBeNull();
+  });
+
+  it('still rejects a context that is not a string', async () => {
+    const response = await post('chat', { contextContent: 42, message: 'Hi' });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('request bodies', () => {
+  it('passes the chat history on without UI notes', async () => {
+    const history = [
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: '已切换到新句子', kind: 'note' },
+      { role: 'assistant', content: 'Hello!', status: 'stopped' },
+    ];
+    await post('chat', { history, message: 'Next', contextType: 'word' });
+
+    expect(vi.mocked(getChatResponse).mock.lastCall!.slice(0, 4)).toEqual([
+      [{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello!' }], null, 'Next', 'word',
+    ]);
+  });
+
+  it('rejects fields of the wrong shape', async () => {
+    const bad: [string, unknown][] = [
+      ['chat', [1, 2]],
+      ['chat', { message: 'Hi', history: [{ role: 'system', content: 'x' }] }],
+      ['chat', { message: 'Hi', contextType: 'essay' }],
+      ['lookup', { word: 'run', modelLevel: 'huge' }],
+      ['compare', { words: 'affect / effect' }],
+      ['writing', { text: 'Hello.' }],
+    ];
+    for (const [route, body] of bad) {
+      expect((await post(route, body)).status, JSON.stringify(body)).toBe(400);
+    }
+  });
+
+  it('answers an oversized body with 413 instead of dropping the connection', async () => {
+    const response = await post('chat', { message: 'x'.repeat(300 * 1024) });
+
+    expect(response.status).toBe(413);
+    expect(response.headers.get('connection')).toBe('close');
+    expect((await response.json()).error.message).toBe('Request body too large');
+  });
+});
+
+describe('rate limiting', () => {
+  const chat = { message: 'Hi' };
+
+  it('keys clients by their connection, ignoring a spoofed X-Forwarded-For', async () => {
+    const url = await start({ rateLimitPerMinute: 1 });
+
+    expect((await post('chat', chat, { 'X-Forwarded-For': '1.2.3.4' }, url)).status).toBe(200);
+    const limited = await post('chat', chat, { 'X-Forwarded-For': '5.6.7.8' }, url);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBeTruthy();
+  });
+
+  it('uses X-Forwarded-For when the proxy in front is trusted', async () => {
+    const url = await start({ rateLimitPerMinute: 1, trustProxy: true });
+
+    expect((await post('chat', chat, { 'X-Forwarded-For': '1.2.3.4' }, url)).status).toBe(200);
+    expect((await post('chat', chat, { 'X-Forwarded-For': '5.6.7.8, 10.0.0.1' }, url)).status).toBe(200);
+    expect((await post('chat', chat, { 'X-Forwarded-For': '1.2.3.4' }, url)).status).toBe(429);
+  });
+});
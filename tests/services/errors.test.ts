@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { toServiceError } from '../../services/errors';
+
+describe('toServiceError', () => {
+  it('treats a failed fetch as a retryable network error', () => {
+    for (const message of ['Failed to fetch', 'NetworkError when attempting to fetch resource.', 'Load failed']) {
+      const error = toServiceError(new TypeError(message));
+      expect(error.kind).toBe('network');
+      expect(error.retryable).toBe(true);
+    }
+  });
+
+  it('does not retry other TypeErrors', () => {
+    const error = toServiceError(new TypeError("Cannot read properties of undefined (reading 'text')"), '分析失败');
+
+    expect(error.kind).toBe('unknown');
+    expect(error.retryable).toBe(false);
+    expect(error.message).toBe('分析失败');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analysisExport, dictionaryExport, writingExport, historyExport, toAnkiText, printableHtml,
+} from '../../services/exportService';
+import { analyzeSentence, lookupWord, evaluateWriting } from '../../services/geminiService';
+import { HistoryEntry } from '../../types';
+import { ANALYZED_SENTENCE, COMPLEX_SENTENCE, LOOKUP_WORD, WRITING_TEXT } from '../fixtures/inputs';
+
+describe('markdown export', () => {
+  it('writes chunks, tokens and the correction of an analysis', async () => {
+    const result = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    const { markdown, filename } = analysisExport(result);
+
+    expect(filename).toBe('grammaviz-she-has-been-living-in-london-since-2015');
+    expect(markdown).toContain(result.chineseTranslation);
+    expect(markdown).toContain('### 纠错');
+    expect(markdown).toMatch(/删除 “have”；添加 “has”/);
+    for (const chunk of result.chunks) expect(markdown).toContain(chunk.grammarDescription);
+    for (const token of result.detailedTokens) expect(markdown).toContain(token.meaning);
+  });
+
+  it('includes the long sentence breakdown when there is one', async () => {
+    const result = await analyzeSentence(COMPLEX_SENTENCE, 'mini');
+    expect(analysisExport(result).markdown).toContain(`- **主干**：${result.clauseBreakdown!.skeleton}`);
+  });
+
+  it('lists every writing change with its category', async () => {
+    const result = await evaluateWriting(WRITING_TEXT, 'fix', 'mini');
+    const { markdown, cards } = writingExport(result);
+    const changes = result.segments.filter(s => s.type === 'change');
+
+    expect(markdown).toContain('### 原文\n\nMy brother like playing football.');
+    expect(markdown.match(/^\d+\. /gm)).toHaveLength(changes.length);
+    expect(cards).toEqual([]);
+  });
+});
+
+describe('anki export', () => {
+  it('makes a card per definition and collocation', async () => {
+    const result = await lookupWord(LOOKUP_WORD, 'mini');
+    const { cards } = dictionaryExport(result);
+    const definitions = result.entries.flatMap(e => e.definitions).length;
+
+    expect(cards).toHaveLength(definitions + (result.collocations?.length ?? 0));
+    expect(cards[0].front).toContain('<b>');
+    expect(cards[0].tags).toEqual(['grammaviz', 'dictionary']);
+  });
+
+  it('writes one tab-separated row per card with line breaks flattened', () => {
+    const text = toAnkiText([{ front: 'a\tb', back: 'x\ny', tags: ['t1', 't2'] }]);
+    expect(text).toBe('#separator:tab\n#html:true\n#tags column:3\na b\tx y\tt1 t2\n');
+  });
+});
+
+describe('batch and print export', () => {
+  it('joins history entries into one document', async () => {
+    const analysis = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    const word = await lookupWord(LOOKUP_WORD, 'mini');
+    const entries: HistoryEntry[] = [
+      { id: '1', createdAt: 0, modelLevel: 'mini', input: ANALYZED_SENTENCE, tab: 'analyzer', result: analysis },
+      { id: '2', createdAt: 0, modelLevel: 'mini', input: LOOKUP_WORD, tab: 'dictionary', result: word },
+    ];
+    const doc = historyExport(entries);
+
+    expect(doc.title).toContain('2 条');
+    expect(doc.markdown.split('\n---\n')).toHaveLength(2);
+    expect(doc.cards).toHaveLength(analysisExport(analysis).cards.length + dictionaryExport(word).cards.length);
+  });
+
+  it('renders the markdown as a printable page', async () => {
+    const result = await lookupWord(LOOKUP_WORD, 'mini');
+    const page = await printableHtml(dictionaryExport(result));
+
+    expect(page).toMatch(/^<!DOCTYPE html>/);
+    expect(page).toContain(`<h1>${result.word}</h1>`);
+    expect(page).toContain('<blockquote>');
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  analyzeSentence, lookupWord, compareWords, parseComparisonQuery, evaluateWriting, getChatResponse, streamChatResponse,
+  generateSpeech, decode, decodeAudioData,
+} from '../../services/geminiService';
+import { FakeAudioContext } from '../harness/audio';
+import { MissingFixtureError } from '../harness/replayProvider';
+import {
+  ANALYZED_SENTENCE, CORRECTED_SENTENCE, COMPLEX_SENTENCE, CHAT_QUESTION, LOOKUP_WORD, WRITING_TEXT,
+  CONTEXT_PHRASE, CONTEXT_SENTENCE, COMPARE_QUERY,
+} from '../fixtures/inputs';
+import { InvalidComparisonError } from '../../services/errors';
+
+describe('analyzeSentence', () => {
+  it('returns the analysis of the corrected sentence', async () => {
+    const result = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+
+    expect(result.englishSentence).toBe(CORRECTED_SENTENCE);
+    expect(result.correction?.original).toBe(ANALYZED_SENTENCE);
+    expect(result.correction?.changes).toContainEqual({ type: 'remove', text: 'have' });
+    expect(result.chunks.map(c => c.text).join(' ')).toBe('She has been living in London since 2015');
+    expect(result.detailedTokens.length).toBeGreaterThan(0);
+    expect(result.mainTense).toContain('现在完成进行时');
+    expect(result.clauseBreakdown).toBeUndefined();
+  });
+
+  it('breaks a complex sentence into its main clause and subordinate clauses', async () => {
+    const result = await analyzeSentence(COMPLEX_SENTENCE, 'mini');
+    const breakdown = result.clauseBreakdown!;
+
+    expect(result.englishSentence).toBe(COMPLEX_SENTENCE);
+    expect(breakdown.skeleton).toBe('The researchers found something.');
+    expect(breakdown.clauses.map(c => c.text)).toEqual([
+      'who led the study',
+      'that children exposed to music early performed better at school',
+      'exposed to music early',
+    ]);
+    expect(breakdown.clauses[2].tense).toBeUndefined();
+    expect(breakdown.simplification.length).toBeGreaterThan(1);
+  });
+
+  it('fails clearly when no response was recorded for the request', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const error = await analyzeSentence('A sentence nobody recorded.', 'mini').catch(err => err);
+
+    expect(error.kind).toBe('unknown');
+    expect(error.cause).toBeInstanceOf(MissingFixtureError);
+  });
+});
+
+describe('lookupWord', () => {
+  it('returns entries and collocations', async () => {
+    const result = await lookupWord(LOOKUP_WORD, 'mini');
+
+    expect(result.word).toBe(LOOKUP_WORD);
+    expect(result.phonetic).toMatch(/^\/.+\/$/);
+    expect(result.entries[0].partOfSpeech).toBe('adjective');
+    expect(result.entries[0].definitions).toHaveLength(2);
+    expect(result.collocations?.map(c => c.phrase)).toContain('resilient to');
+    expect(result.context).toBeUndefined();
+  });
+
+  it('returns the word family, synonyms with nuance notes, antonyms and etymology', async () => {
+    const result = await lookupWord(LOOKUP_WORD, 'mini');
+
+    expect(result.wordFamily?.map(m => [m.word, m.partOfSpeech])).toContainEqual(['resilience', 'noun']);
+    expect(result.synonyms?.length).toBeGreaterThan(0);
+    expect(result.synonyms?.every(w => w.note)).toBe(true);
+    expect(result.antonyms?.map(w => w.word)).toContain('fragile');
+    expect(result.etymology?.explanation).toContain('resilire');
+    expect(result.etymology?.mnemonic).toBeTruthy();
+  });
+
+  it('maps a phrase from a sentence to its headword and marks the sense used there', async () => {
+    const result = await lookupWord(CONTEXT_PHRASE, 'mini', { context: CONTEXT_SENTENCE });
+
+    expect(result.word).toBe('pop sth back');
+    expect(result.context).toBe(CONTEXT_SENTENCE);
+    expect(result.contextNote).toBeTruthy();
+
+    const marked = result.entries.flatMap(e => e.definitions).filter(d => d.inContext);
+    expect(marked.map(d => d.meaning)).toEqual(['（开车）把……送回去']);
+  });
+});
+
+describe('compareWords', () => {
+  it('splits a query on slashes, commas and "vs", dropping repeats', () => {
+    expect(parseComparisonQuery('rise / raise')).toEqual(['rise', 'raise']);
+    expect(parseComparisonQuery('economic，economical, Economic')).toEqual(['economic', 'economical']);
+    expect(parseComparisonQuery('despite vs although')).toEqual(['despite', 'although']);
+    expect(parseComparisonQuery(' in spite of ; despite ')).toEqual(['in spite of', 'despite']);
+  });
+
+  it('returns a side-by-side comparison with a self check', async () => {
+    const result = await compareWords(parseComparisonQuery(COMPARE_QUERY), 'mini');
+
+    expect(result.items.map(i => [i.word, i.partOfSpeech])).toEqual([['affect', 'verb'], ['effect', 'noun']]);
+    expect(result.words).toEqual(['affect', 'effect']);
+    expect(result.coreDifference).toBeTruthy();
+    expect(result.items[1].patterns).toContain('have an effect on sth');
+    expect(result.quiz.length).toBeGreaterThan(0);
+    expect(result.quiz.every(q => q.sentence.includes('___') && result.words.includes(q.answer))).toBe(true);
+  });
+
+  it('needs two to four distinct words', async () => {
+    await expect(compareWords(['affect', 'Affect'], 'mini')).rejects.toBeInstanceOf(InvalidComparisonError);
+    await expect(compareWords(['a', 'b', 'c', 'd', 'e'], 'mini')).rejects.toBeInstanceOf(InvalidComparisonError);
+    await expect(compareWords(['affect'], 'mini')).rejects.toMatchObject({ kind: 'invalid-input', retryable: false });
+  });
+});
+
+describe('evaluateWriting', () => {
+  it('returns segments that rebuild the corrected text', async () => {
+    const result = await evaluateWriting(WRITING_TEXT, 'fix', 'mini');
+
+    expect(result.mode).toBe('fix');
+    expect(result.generalFeedback).toBeTruthy();
+
+    const corrected = result.segments.map(s => s.text).join('');
+    expect(corrected).toBe('My brother likes playing football. He is very interested in sports, and he trains every weekend.');
+
+    const original = result.segments.map(s => s.type === 'change' ? s.original : s.text).join('');
+    expect(original).toBe(WRITING_TEXT);
+
+    const categories = result.segments.filter(s => s.type === 'change').map(s => s.category);
+    expect(categories).toEqual(['grammar', 'collocation', 'punctuation']);
+  });
+});
+
+describe('getChatResponse', () => {
+  it('answers a question about the current sentence', async () => {
+    const reply = await getChatResponse([], CORRECTED_SENTENCE, CHAT_QUESTION, 'sentence');
+    expect(reply).toContain('第三人称单数');
+  });
+
+  it('streams the same reply chunk by chunk', async () => {
+    const updates: string[] = [];
+    const reply = await streamChatResponse([], CORRECTED_SENTENCE, CHAT_QUESTION, 'sentence', (text) => updates.push(text));
+
+    expect(updates.length).toBeGreaterThan(1);
+    expect(updates[updates.length - 1]).toBe(reply);
+    expect(reply).toBe(await getChatResponse([], CORRECTED_SENTENCE, CHAT_QUESTION, 'sentence'));
+  });
+});
+
+describe('audio helpers', () => {
+  it('decode turns base64 into raw bytes', () => {
+    expect(Array.from(decode('AAEC/w=='))).toEqual([0, 1, 2, 255]);
+    expect(decode('')).toHaveLength(0);
+  });
+
+  it('decodeAudioData converts 16-bit PCM into float samples', async () => {
+    // Little-endian int16 samples: 0, 16384, -32768, 32767
+    const pcm = new Uint8Array([0x00, 0x00, 0x00, 0x40, 0x00, 0x80, 0xff, 0x7f]);
+    const ctx = new FakeAudioContext() as unknown as AudioContext;
+    const buffer = await decodeAudioData(pcm, ctx, 24000, 1);
+
+    expect(buffer.length).toBe(4);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.5, -1, 32767 / 32768]);
+  });
+
+  it('decodeAudioData de-interleaves stereo frames', async () => {
+    // Frames: (L=16384, R=-16384), (L=0, R=32767)
+    const samples = new Int16Array([16384, -16384, 0, 32767]);
+    const ctx = new FakeAudioContext() as unknown as AudioContext;
+    const buffer = await decodeAudioData(new Uint8Array(samples.buffer), ctx, 24000, 2);
+
+    expect(buffer.length).toBe(2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, 32767 / 32768]);
+  });
+
+  it('generateSpeech decodes the recorded audio at 24kHz', async () => {
+    const buffer = await generateSpeech(CORRECTED_SENTENCE);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(buffer.duration).toBeCloseTo(0.1);
+  });
+});
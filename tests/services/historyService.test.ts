@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addHistoryEntry, filterHistory, historyPatterns, loadHistory, saveHistory, EMPTY_FILTER, writingSourceText,
+} from '../../services/historyService';
+import { analyzeSentence, evaluateWriting, lookupWord } from '../../services/geminiService';
+import { HistoryEntry } from '../../types';
+import { ANALYZED_SENTENCE, COMPLEX_SENTENCE, LOOKUP_WORD, WRITING_TEXT } from '../fixtures/inputs';
+import { DAY_MS } from '../../services/cacheService';
+
+const NOW = new Date(2025, 5, 15, 12).getTime();
+
+// Three days' worth of history, newest first
+const buildHistory = async () => {
+  let entries: HistoryEntry[] = [];
+  const writing = await evaluateWriting(WRITING_TEXT, 'fix', 'mini');
+  entries = addHistoryEntry(entries, { tab: 'writing', input: writingSourceText(writing), modelLevel: 'mini', result: writing }, NOW - 20 * DAY_MS);
+  entries = addHistoryEntry(entries, { tab: 'dictionary', input: LOOKUP_WORD, modelLevel: 'quick', result: await lookupWord(LOOKUP_WORD, 'mini') }, NOW - 3 * DAY_MS);
+  entries = addHistoryEntry(entries, { tab: 'analyzer', input: COMPLEX_SENTENCE, modelLevel: 'mini', result: await analyzeSentence(COMPLEX_SENTENCE, 'mini') }, NOW - DAY_MS);
+  entries = addHistoryEntry(entries, { tab: 'analyzer', input: ANALYZED_SENTENCE, modelLevel: 'deep', result: await analyzeSentence(ANALYZED_SENTENCE, 'mini') }, NOW - 60_000);
+  return entries;
+};
+
+describe('history', () => {
+  it('keeps one entry per input, newest first', async () => {
+    const entries = await buildHistory();
+    expect(entries.map(e => e.tab)).toEqual(['analyzer', 'analyzer', 'dictionary', 'writing']);
+    expect(entries[3].input).toBe(WRITING_TEXT);
+
+    const again = addHistoryEntry(entries, { ...entries[2], input: ` ${LOOKUP_WORD} ` } as HistoryEntry, NOW);
+    expect(again).toHaveLength(4);
+    expect(again[0].tab).toBe('dictionary');
+    expect(again[0].createdAt).toBe(NOW);
+  });
+
+  it('filters by tab, date, grammar pattern and search text', async () => {
+    const entries = await buildHistory();
+    const titles = (filter: Partial<typeof EMPTY_FILTER>) =>
+      filterHistory(entries, { ...EMPTY_FILTER, ...filter }, NOW).map(e => e.input);
+
+    expect(titles({ tab: 'dictionary' })).toEqual([LOOKUP_WORD]);
+    expect(titles({ range: 'today' })).toEqual([ANALYZED_SENTENCE]);
+    expect(titles({ range: 'week' })).toHaveLength(3);
+    expect(titles({ range: 'month' })).toHaveLength(4);
+
+    expect(historyPatterns(entries)).toEqual(['S + V + A (主谓状)', 'S + V + O (主谓宾)']);
+    expect(titles({ pattern: 'S + V + O (主谓宾)' })).toEqual([COMPLEX_SENTENCE]);
+
+    // Matches the input, the translation, dictionary meanings and writing feedback
+    expect(titles({ query: 'london' })).toEqual([ANALYZED_SENTENCE]);
+    expect(titles({ query: '研究人员' })).toEqual([COMPLEX_SENTENCE]);
+    expect(titles({ query: '复原力' })).toEqual([LOOKUP_WORD]);
+    expect(titles({ query: '主谓一致' })).toEqual([WRITING_TEXT]);
+  });
+
+  it('survives a reload', async () => {
+    const entries = await buildHistory();
+    saveHistory(entries);
+    expect(loadHistory()).toEqual(entries);
+
+    localStorage.setItem('grammaviz-history', '{not json');
+    expect(loadHistory()).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  headwordItem, definitionItem, collocationItem, addNotebookItem, toggleNotebookItem, updateNotebookItem,
+  removeNotebookItems, filterNotebook, notebookTags, parseTags, loadNotebook, saveNotebook, EMPTY_NOTEBOOK_FILTER,
+} from '../../services/notebookService';
+import { lookupWord } from '../../services/geminiService';
+import { NotebookItem } from '../../types';
+import { LOOKUP_WORD, CONTEXT_PHRASE, CONTEXT_SENTENCE } from '../fixtures/inputs';
+
+// The headword, its first sense and first collocation of "resilient", plus a phrase saved
+// from a sentence, a day apart
+const buildNotebook = async () => {
+  const word = await lookupWord(LOOKUP_WORD, 'mini');
+  const phrase = await lookupWord(CONTEXT_PHRASE, 'mini', { context: CONTEXT_SENTENCE });
+  const entry = word.entries[0];
+
+  let items: NotebookItem[] = [];
+  items = addNotebookItem(items, headwordItem(word), 1000);
+  items = addNotebookItem(items, definitionItem(word, entry.partOfSpeech, entry.definitions[0]), 2000);
+  items = addNotebookItem(items, collocationItem(word, word.collocations![0]), 3000);
+  items = addNotebookItem(items, headwordItem(phrase), 4000);
+  return { word, phrase, items };
+};
+
+describe('vocabulary notebook', () => {
+  it('saves headwords, senses and collocations with their source sentence', async () => {
+    const { word, items } = await buildNotebook();
+
+    expect(items.map(i => i.kind)).toEqual(['word', 'collocation', 'definition', 'word']);
+    expect(items[0]).toMatchObject({ word: 'pop sth back', source: CONTEXT_SENTENCE, tags: [], note: '', addedAt: 4000 });
+    expect(items[1]).toMatchObject({ phrase: word.collocations![0].phrase, word: word.word });
+    expect(items[2]).toMatchObject({ partOfSpeech: word.entries[0].partOfSpeech, meaning: word.entries[0].definitions[0].meaning });
+    expect(items[3].source).toBeUndefined();
+  });
+
+  it('toggles an item in and out instead of saving it twice', async () => {
+    const { word, items } = await buildNotebook();
+    expect(addNotebookItem(items, headwordItem(word))).toBe(items);
+
+    const removed = toggleNotebookItem(items, headwordItem(word));
+    expect(removed.some(i => i.kind === 'word' && i.word === word.word)).toBe(false);
+    expect(toggleNotebookItem(removed, headwordItem(word), 5000)[0].addedAt).toBe(5000);
+  });
+
+  it('filters by kind, tag and search text, and sorts', async () => {
+    let { items } = await buildNotebook();
+    items = updateNotebookItem(items, items[1].id, { tags: parseTags('IELTS， 写作  IELTS') });
+    items = updateNotebookItem(items, items[3].id, { note: 'Useful for describing people' });
+
+    const titles = (filter: Partial<typeof EMPTY_NOTEBOOK_FILTER>) =>
+      filterNotebook(items, { ...EMPTY_NOTEBOOK_FILTER, ...filter }).map(i => i.addedAt);
+
+    expect(notebookTags(items)).toEqual(['IELTS', '写作']);
+    expect(titles({ tag: '写作' })).toEqual([3000]);
+    expect(titles({ kind: 'word' })).toEqual([4000, 1000]);
+    expect(titles({ query: 'describing' })).toEqual([1000]);
+    expect(titles({ sort: 'oldest' })).toEqual([1000, 2000, 3000, 4000]);
+    expect(titles({ sort: 'alphabetical' })[0]).toBe(4000);
+  });
+
+  it('bulk deletes and persists', async () => {
+    const { items } = await buildNotebook();
+    saveNotebook(removeNotebookItems(items, [items[0].id, items[2].id]));
+    expect(loadNotebook().map(i => i.addedAt)).toEqual([3000, 1000]);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+import { OfflineRecord } from '../../services/offlineDictionary/store';
+import {
+  parseCsv, readEcdictRows, toDictionaryResult, importOfflineDictionary, clearOfflineDictionary,
+  loadOfflineDictionaryInfo, lookupOffline, isLocalOnly,
+} from '../../services/offlineDictionary';
+import { lookupWord } from '../../services/geminiService';
+import { getProvider } from '../../services/providers';
+import { InvalidDictionaryFileError } from '../../services/errors';
+import { LOOKUP_WORD } from '../fixtures/inputs';
+
+// jsdom has no IndexedDB; the store is an in-memory map instead
+const records = vi.hoisted(() => new Map<string, unknown>());
+vi.mock('../../services/offlineDictionary/store', () => ({
+  isStoreAvailable: async () => true,
+  getRecord: async (key: string) => records.get(key) ?? null,
+  putRecords: async (batch: { key: string }[]) => { for (const r of batch) records.set(r.key, r); },
+  clearRecords: async () => { records.clear(); },
+  countRecords: async () => records.size,
+}));
+
+const CSV = [
+  'word,phonetic,definition,translation,pos,collins,oxford,tag,bnc,frq,exchange,detail,audio',
+  'perceive,pә\'si:v,"vt. to become aware of through the senses\\nvt. to understand","vt. 感知, 察觉\\nvt. 理解",,3,1,cet4 cet6 ky toefl,3516,3094,,,',
+  'look up,,,"查找；好转",,,,,,,,,',
+  '"say ""hi""",,,打招呼,,,,,,,,,',
+  'empty,,,,,,,,,,,,',
+].join('\r\n');
+
+const RESILIENT = `word,phonetic,translation\n${LOOKUP_WORD},rɪˈzɪliənt,a. 有弹性的；能复原的\n`;
+
+beforeEach(() => records.clear());
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, doubled quotes and line breaks', () => {
+    const rows = [...parseCsv('a,"b, c","say ""hi""","line\nbreak"\r\nd,,e')];
+
+    expect(rows).toEqual([
+      ['a', 'b, c', 'say "hi"', 'line\nbreak'],
+      ['d', '', 'e'],
+    ]);
+  });
+});
+
+describe('readEcdictRows', () => {
+  it('maps the ECDICT columns and skips rows without a translation', () => {
+    const rows = [...readEcdictRows(CSV)];
+
+    expect(rows.map(r => r.word)).toEqual(['perceive', 'look up', 'say "hi"']);
+    expect(rows[0]).toMatchObject({
+      key: 'perceive',
+      translation: 'vt. 感知, 察觉\nvt. 理解',
+      tags: 'cet4 cet6 ky toefl',
+      frq: 3094,
+    });
+  });
+
+  it('rejects a file without word and translation columns', () => {
+    expect(() => [...readEcdictRows('headword,meaning\nperceive,感知')]).toThrow(InvalidDictionaryFileError);
+  });
+});
+
+describe('toDictionaryResult', () => {
+  it('groups senses by part of speech and pairs them with the English definitions', () => {
+    const result = toDictionaryResult([...readEcdictRows(CSV)][0]);
+
+    expect(result.phonetic).toBe("/pә'si:v/");
+    expect(result.examTags).toEqual(['四级', '六级', '考研', '托福']);
+    expect(result.collocations).toEqual([]);
+    expect(result.entries).toHaveLength(1);
+    expect(result.entries[0]).toMatchObject({ partOfSpeech: 'verb', cocaFrequency: 'Rank 3094', source: 'local' });
+    expect(result.entries[0].definitions.map(d => [d.meaning, d.explanation])).toEqual([
+      ['感知, 察觉', 'to become aware of through the senses'],
+      ['理解', 'to understand'],
+    ]);
+  });
+
+  it('treats an untagged multi-word headword as a phrase', () => {
+    const record: OfflineRecord = { key: 'look up', word: 'look up', phonetic: '', definition: '', translation: '查找；好转', tags: '', frq: 0 };
+    const result = toDictionaryResult(record);
+
+    expect(result.phonetic).toBe('');
+    expect(result.entries[0].partOfSpeech).toBe('phrase');
+    expect(result.entries[0].cocaFrequency).toBeUndefined();
+  });
+});
+
+describe('importOfflineDictionary', () => {
+  it('stores the rows, reports progress and records what was imported', async () => {
+    const progress: number[] = [];
+    const count = await importOfflineDictionary(CSV, 'ecdict.csv', n => progress.push(n), 1000);
+
+    expect(count).toBe(3);
+    expect(progress).toEqual([3]);
+    expect(loadOfflineDictionaryInfo()).toEqual({ count: 3, fileName: 'ecdict.csv', importedAt: 1000 });
+    expect(isLocalOnly((await lookupOffline('  Look   Up '))!)).toBe(true);
+
+    await clearOfflineDictionary();
+    expect(loadOfflineDictionaryInfo()).toBeNull();
+    expect(await lookupOffline('perceive')).toBeNull();
+  });
+
+  it('keeps the senses of headwords that differ only in case', async () => {
+    const csv = 'word,translation,tag\nChina,n. 中国,zk\nchina,n. 瓷器,gk cet4\n';
+
+    expect(await importOfflineDictionary(csv, 'china.csv')).toBe(1);
+    const result = (await lookupOffline('china'))!;
+
+    expect(result.word).toBe('China');
+    expect(result.entries[0].definitions.map(d => d.meaning)).toEqual(['中国', '瓷器']);
+    expect(result.examTags).toEqual(['中考', '高考', '四级']);
+  });
+
+  it('merges case variants that land in different batches', async () => {
+    const filler = Array.from({ length: 2000 }, (_, i) => `word${i},n. 词${i}`);
+    const csv = ['word,translation', 'Polish,adj. 波兰的', ...filler, 'polish,v. 擦亮'].join('\n');
+
+    expect(await importOfflineDictionary(csv, 'polish.csv')).toBe(2001);
+    const result = (await lookupOffline('polish'))!;
+
+    expect(result.entries.map(e => [e.partOfSpeech, e.definitions[0].meaning])).toEqual([
+      ['adjective', '波兰的'],
+      ['verb', '擦亮'],
+    ]);
+  });
+
+  it('adds a second file to the first, replacing the headwords both have', async () => {
+    await importOfflineDictionary('word,translation\nChina,n. 中国\nperceive,v. 感知\n', 'first.csv');
+    await importOfflineDictionary('word,translation\nchina,n. 瓷器\nresilient,a. 有弹性的\n', 'second.csv', undefined, 2000);
+
+    expect((await lookupOffline('china'))!.entries[0].definitions.map(d => d.meaning)).toEqual(['瓷器']);
+    expect(await lookupOffline('perceive')).not.toBeNull();
+    expect(loadOfflineDictionaryInfo()).toEqual({ count: 3, fileName: 'second.csv', importedAt: 2000 });
+  });
+
+  it('rejects a file with no usable rows', async () => {
+    await expect(importOfflineDictionary('word,translation\n', 'empty.csv')).rejects.toBeInstanceOf(InvalidDictionaryFileError);
+    expect(loadOfflineDictionaryInfo()).toBeNull();
+  });
+});
+
+describe('lookupWord with an offline dictionary', () => {
+  it('answers an imported word without calling the model', async () => {
+    await importOfflineDictionary(RESILIENT, 'mini.csv');
+    const generate = vi.spyOn(getProvider(), 'generateJson');
+
+    const result = await lookupWord(LOOKUP_WORD, 'mini');
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(result.entries.map(e => [e.partOfSpeech, e.source])).toEqual([['adjective', 'local']]);
+    expect(result.entries[0].definitions.map(d => d.meaning)).toEqual(['有弹性的；能复原的']);
+  });
+
+  it('puts the model\'s entries after the local ones when asked to enrich', async () => {
+    await importOfflineDictionary(RESILIENT, 'mini.csv');
+
+    const result = await lookupWord(LOOKUP_WORD, 'mini', { enrich: true });
+
+    expect(result.phonetic).toBe('/rɪˈzɪliənt/');
+    expect(result.entries[0].source).toBe('local');
+    expect(result.entries.slice(1).length).toBeGreaterThan(0);
+    expect(result.entries.slice(1).every(e => e.source === 'ai')).toBe(true);
+    expect(result.collocations?.map(c => c.phrase)).toContain('resilient to');
+    expect(isLocalOnly(result)).toBe(false);
+  });
+
+  it('asks the model for words that were not imported', async () => {
+    const result = await lookupWord(LOOKUP_WORD, 'mini');
+
+    expect(result.entries[0].source).toBeUndefined();
+    expect(result.collocations?.length).toBeGreaterThan(0);
+  });
+});
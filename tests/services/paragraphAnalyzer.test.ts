@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createParagraphAnalyzer } from '../../services/paragraphAnalyzer';
+import { splitSentences } from '../../services/textSegmentation';
+import { analyzeSentence } from '../../services/geminiService';
+import { SentenceAnalysis } from '../../types';
+
+vi.mock('../../services/geminiService', () => ({
+  analyzeSentence: vi.fn(async (sentence: string) => ({
+    chunks: [], detailedTokens: [], chineseTranslation: '', englishSentence: sentence,
+  })),
+}));
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('splitSentences', () => {
+  it('splits on sentence boundaries but not decimals or lowercase abbreviations', () => {
+    expect(splitSentences('She arrived at 3.30 p.m. today. He was late!  Why?\nNobody knows.')).toEqual([
+      'She arrived at 3.30 p.m. today.',
+      'He was late!',
+      'Why?',
+      'Nobody knows.',
+    ]);
+  });
+
+  it('ignores blank input', () => {
+    expect(splitSentences('  \n ')).toEqual([]);
+  });
+});
+
+describe('createParagraphAnalyzer', () => {
+  const sentences = ['One.', 'Two.', 'Three.', 'Four.', 'Five.', 'Six.'];
+
+  it('analyzes only the focused window, a few at a time', async () => {
+    let states: SentenceAnalysis[] = [];
+    createParagraphAnalyzer(sentences, 'mini', (next) => { states = next; });
+
+    // Two requests start immediately, the third once a slot frees up
+    expect(states.map(s => s.status)).toEqual(['loading', 'loading', 'pending', 'pending', 'pending', 'pending']);
+    await flush();
+    await flush();
+    expect(states.map(s => s.status)).toEqual(['done', 'done', 'done', 'pending', 'pending', 'pending']);
+    expect(analyzeSentence).toHaveBeenCalledTimes(3);
+  });
+
+  it('follows the focused sentence', async () => {
+    vi.mocked(analyzeSentence).mockClear();
+    let states: SentenceAnalysis[] = [];
+    const analyzer = createParagraphAnalyzer(sentences, 'mini', (next) => { states = next; });
+    await flush();
+    await flush();
+
+    analyzer.focus(4);
+    await flush();
+    expect(states[4].status).toBe('done');
+    expect(states[4].result?.englishSentence).toBe('Five.');
+    expect(states[3].status).toBe('pending');
+  });
+
+  it('regenerates within the same parallel limit', async () => {
+    let states: SentenceAnalysis[] = [];
+    const analyzer = createParagraphAnalyzer(sentences, 'mini', (next) => { states = next; });
+    await flush();
+    await flush();
+    vi.mocked(analyzeSentence).mockClear();
+
+    analyzer.regenerate(0);
+    analyzer.regenerate(1);
+    analyzer.regenerate(2);
+    expect(states.slice(0, 3).map(s => s.status)).toEqual(['loading', 'loading', 'loading']);
+    expect(analyzeSentence).toHaveBeenCalledTimes(2);
+
+    await flush();
+    await flush();
+    expect(analyzeSentence).toHaveBeenCalledTimes(3);
+    expect(analyzeSentence).toHaveBeenLastCalledWith('Three.', 'mini', expect.objectContaining({ fresh: true }));
+    expect(states.slice(0, 3).map(s => s.status)).toEqual(['done', 'done', 'done']);
+  });
+
+  it('puts unfinished sentences back to pending on cancel', () => {
+    let states: SentenceAnalysis[] = [];
+    const analyzer = createParagraphAnalyzer(sentences, 'mini', (next) => { states = next; });
+    analyzer.cancel();
+    expect(states.every(s => s.status === 'pending')).toBe(true);
+  });
+
+  it('reuses known results and reports new ones', async () => {
+    vi.mocked(analyzeSentence).mockClear();
+    const known = { chunks: [], detailedTokens: [], chineseTranslation: '一。', englishSentence: 'One.' };
+    const onResult = vi.fn();
+    let states: SentenceAnalysis[] = [];
+    createParagraphAnalyzer(['One.', 'Two.'], 'mini', (next) => { states = next; }, { results: [known], onResult });
+    await flush();
+
+    expect(states[0].result).toBe(known);
+    expect(analyzeSentence).toHaveBeenCalledTimes(1);
+    expect(analyzeSentence).toHaveBeenCalledWith('Two.', 'mini', expect.anything());
+    expect(onResult).toHaveBeenCalledTimes(1);
+    expect(onResult).toHaveBeenCalledWith('Two.', states[1].result);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { buildQuiz, gradeQuiz, addQuizAttempt, quizProgress, loadQuizAttempts, saveQuizAttempts } from '../../services/quizService';
+import { analyzeSentence } from '../../services/geminiService';
+import { ANALYZED_SENTENCE } from '../fixtures/inputs';
+
+describe('grammar quiz', () => {
+  it('asks for the role and part of speech of every chunk, then pattern and tense', async () => {
+    const result = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    const questions = buildQuiz(result);
+
+    expect(questions.map(q => q.id)).toEqual([
+      ...result.chunks.flatMap((_, i) => [`role-${i}`, `pos-${i}`]),
+      'pattern', 'tense',
+    ]);
+    for (const q of questions) {
+      expect(q.options).toContain(q.answer);
+      expect(new Set(q.options).size).toBe(q.options.length);
+      expect(q.options.length).toBeGreaterThanOrEqual(4);
+    }
+  });
+
+  it('keeps distractors that mean the same as the answer out of the options', async () => {
+    const result = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    const tense = buildQuiz(result).find(q => q.kind === 'tense')!;
+
+    // "Present Perfect Continuous (现在完成进行时)" is also in the built-in list
+    expect(tense.options.filter(o => o.includes('现在完成进行时'))).toEqual([result.mainTense]);
+  });
+
+  it('explains chunk answers with the matching token card', async () => {
+    const result = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    const role = buildQuiz(result).find(q => q.id === 'role-1')!;
+
+    expect(role.answer).toBe('谓语');
+    expect(role.explanation).toBe(result.detailedTokens.find(t => t.text === 'has been living')!.explanation);
+  });
+
+  it('grades each item and tallies by kind', async () => {
+    const result = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    const questions = buildQuiz(result);
+    const answers = Object.fromEntries(questions.map(q => [q.id, q.answer]));
+    answers.tense = questions.find(q => q.id === 'tense')!.options.find(o => o !== result.mainTense)!;
+    delete answers['pos-0'];
+
+    const grade = gradeQuiz(questions, answers);
+    expect(grade.correct).toBe(questions.length - 2);
+    expect(grade.byKind.tense).toEqual({ correct: 0, total: 1 });
+    expect(grade.byKind.partOfSpeech).toEqual({ correct: result.chunks.length - 1, total: result.chunks.length });
+    expect(grade.items.find(i => i.question.id === 'pos-0')).toMatchObject({ given: undefined, correct: false });
+  });
+});
+
+describe('quiz progress', () => {
+  it('persists attempts and sums accuracy over time', async () => {
+    const result = await analyzeSentence(ANALYZED_SENTENCE, 'mini');
+    const questions = buildQuiz(result);
+    const perfect = gradeQuiz(questions, Object.fromEntries(questions.map(q => [q.id, q.answer])));
+    const blank = gradeQuiz(questions, {});
+
+    let attempts = addQuizAttempt([], ANALYZED_SENTENCE, blank, 1000);
+    attempts = addQuizAttempt(attempts, ANALYZED_SENTENCE, perfect, 2000);
+    saveQuizAttempts(attempts);
+
+    const progress = quizProgress(loadQuizAttempts());
+    expect(progress.attempts).toBe(2);
+    expect(progress.accuracy).toBe(0.5);
+    expect(progress.byKind.pattern).toBe(0.5);
+    expect(progress.recent).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeReadability, countSyllables, wordLevel } from '../../services/readability';
+import { CORRECTED_SENTENCE, COMPLEX_SENTENCE, WRITING_TEXT } from '../fixtures/inputs';
+
+describe('readability', () => {
+  it('counts syllables by vowel groups', () => {
+    expect(['cake', 'walked', 'table', 'syllable', 'education', 'beautiful'].map(countSyllables)).toEqual([1, 1, 2, 3, 4, 4]);
+  });
+
+  it('rates inflected and irregular forms by their base word', () => {
+    expect(wordLevel('running')).toBe('A1');
+    expect(wordLevel('children')).toBe('A1');
+    expect(wordLevel('went')).toBe('A1');
+    expect(wordLevel("don't")).toBe('A1');
+    expect(wordLevel('researchers')).toBe(wordLevel('research'));
+    expect(wordLevel('ubiquitous')).toBe('C1');
+  });
+
+  it('scores a short sentence as easy and leaves names unrated', () => {
+    const stats = analyzeReadability(CORRECTED_SENTENCE);
+    expect(stats).toMatchObject({ words: 7, sentences: 1, clauses: 1, avgSentenceLength: 7 });
+    expect(stats.fleschReadingEase).toBeGreaterThan(80);
+    // "London" counts as a word but not towards the level
+    expect(Object.values(stats.levelCounts).reduce((a, b) => a + b, 0)).toBe(6);
+    expect(stats.rareWords).toEqual([]);
+  });
+
+  it('counts relative and noun clauses', () => {
+    const stats = analyzeReadability(COMPLEX_SENTENCE);
+    expect(stats.clauses).toBe(3);
+    expect(stats.avgClauseLength).toBe(5.7);
+    expect(stats.fleschKincaidGrade).toBeGreaterThan(analyzeReadability(CORRECTED_SENTENCE).fleschKincaidGrade);
+  });
+
+  it('shows a rewrite with rarer words as a higher level', () => {
+    const revised = 'My brother enjoys playing football. He is highly passionate about sports and trains rigorously every weekend.';
+    const before = analyzeReadability(WRITING_TEXT);
+    const after = analyzeReadability(revised);
+
+    expect(before.sentences).toBe(2);
+    expect(before.cefr).toBe('A1');
+    expect(after.rareWords.map(w => w.word)).toEqual(['passionate', 'rigorously']);
+    expect(after.cefr > before.cefr).toBe(true);
+    expect(after.fleschReadingEase).toBeLessThan(before.fleschReadingEase);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  scheduleReview, applyReview, buildReviewQueue, reviewStats, formatInterval, loadReviewLog, saveReviewLog, NEW_PER_DAY,
+} from '../../services/reviewService';
+import { NotebookItem, ReviewLogEntry } from '../../types';
+import { DAY_MS } from '../../services/cacheService';
+
+const NOW = new Date(2025, 5, 15, 20).getTime();
+const MIDNIGHT = new Date(2025, 5, 15).getTime();
+
+const item = (id: string, addedAt: number, review?: NotebookItem['review']): NotebookItem => ({
+  id, kind: 'word', word: id, meaning: '', tags: [], note: '', addedAt, ...(review ? { review } : {}),
+});
+
+describe('SM-2 scheduling', () => {
+  it('grows the interval 1, 6, then by the ease factor, due from midnight', () => {
+    const first = scheduleReview(undefined, 'good', NOW);
+    expect(first).toMatchObject({ repetitions: 1, interval: 1, ease: 2.5, due: new Date(2025, 5, 16).getTime() });
+
+    const second = scheduleReview(first, 'good', NOW);
+    expect(second.interval).toBe(6);
+    expect(scheduleReview(second, 'good', NOW).interval).toBe(15);
+  });
+
+  it('orders the grades by interval and adjusts the ease', () => {
+    const learned = { repetitions: 3, interval: 10, ease: 2.5, due: NOW, lapses: 0 };
+    const [again, hard, good, easy] = (['again', 'hard', 'good', 'easy'] as const).map(g => scheduleReview(learned, g, NOW));
+
+    expect(again).toMatchObject({ repetitions: 0, interval: 0, lapses: 1, ease: 1.96 });
+    expect(again.due - NOW).toBe(10 * 60 * 1000);
+    expect([hard.interval, good.interval, easy.interval]).toEqual([12, 25, 34]);
+    expect([hard.ease, good.ease, easy.ease]).toEqual([2.36, 2.5, 2.6]);
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    let state = scheduleReview(undefined, 'again', NOW);
+    for (let i = 0; i < 5; i++) state = scheduleReview(state, 'again', NOW);
+    expect(state.ease).toBe(1.3);
+  });
+
+  it('formats the next interval for the grade buttons', () => {
+    expect(formatInterval(scheduleReview(undefined, 'again', NOW), NOW)).toBe('10 分钟');
+    expect(formatInterval({ repetitions: 2, interval: 6, ease: 2.5, due: 0, lapses: 0 })).toBe('6 天');
+    expect(formatInterval({ repetitions: 5, interval: 90, ease: 2.5, due: 0, lapses: 0 })).toBe('3 个月');
+  });
+});
+
+describe('review queue', () => {
+  it('puts due items first, most overdue first, then new items up to the daily limit', () => {
+    const items = [
+      item('later', 1, { repetitions: 1, interval: 1, ease: 2.5, due: NOW + DAY_MS, lapses: 0 }),
+      item('due', 2, { repetitions: 1, interval: 1, ease: 2.5, due: NOW - 1000, lapses: 0 }),
+      item('overdue', 3, { repetitions: 2, interval: 6, ease: 2.5, due: NOW - DAY_MS, lapses: 0 }),
+      ...Array.from({ length: NEW_PER_DAY + 5 }, (_, i) => item(`new-${i}`, 100 + i)),
+    ];
+    const queue = buildReviewQueue(items, [], NOW).map(i => i.id);
+    expect(queue.slice(0, 3)).toEqual(['overdue', 'due', 'new-0']);
+    expect(queue).toHaveLength(2 + NEW_PER_DAY);
+
+    const introducedToday: ReviewLogEntry[] = Array.from({ length: NEW_PER_DAY - 2 }, (_, i) => ({
+      itemId: `old-${i}`, grade: 'good', reviewedAt: MIDNIGHT + i, isNew: true,
+    }));
+    expect(buildReviewQueue(items, introducedToday, NOW)).toHaveLength(4);
+  });
+
+  it('grades an item and logs it', () => {
+    const items = [item('a', 1)];
+    const { items: graded, log } = applyReview(items, [], 'a', 'good', NOW);
+    expect(graded[0].review!.interval).toBe(1);
+    expect(log).toEqual([{ itemId: 'a', grade: 'good', reviewedAt: NOW, isNew: true }]);
+
+    saveReviewLog(log);
+    expect(loadReviewLog()).toEqual(log);
+  });
+});
+
+describe('review statistics', () => {
+  it('counts today, the streak, retention and upcoming items', () => {
+    const log: ReviewLogEntry[] = [
+      { itemId: 'a', grade: 'good', reviewedAt: MIDNIGHT - 2 * DAY_MS + 1000, isNew: true },
+      { itemId: 'a', grade: 'again', reviewedAt: MIDNIGHT - DAY_MS + 1000, isNew: false },
+      { itemId: 'a', grade: 'good', reviewedAt: MIDNIGHT + 1000, isNew: false },
+      { itemId: 'b', grade: 'easy', reviewedAt: MIDNIGHT + 2000, isNew: false },
+      { itemId: 'c', grade: 'good', reviewedAt: MIDNIGHT - 10 * DAY_MS, isNew: false },
+    ];
+    const items = [
+      item('a', 1, { repetitions: 1, interval: 1, ease: 2.5, due: new Date(2025, 5, 16).getTime(), lapses: 1 }),
+      item('b', 2, { repetitions: 4, interval: 30, ease: 2.6, due: new Date(2025, 6, 15).getTime(), lapses: 0 }),
+      item('c', 3),
+    ];
+
+    expect(reviewStats(items, log, NOW)).toEqual({
+      reviewedToday: 2,
+      streakDays: 3,
+      retention: 0.75,
+      newCount: 1,
+      learningCount: 1,
+      matureCount: 1,
+      upcoming: [1, 0, 0, 0, 0, 0, 0],
+    });
+  });
+});
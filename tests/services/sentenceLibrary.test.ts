@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CURATED_SECTIONS, addToCollection, removeFromCollection, exportCollectionsJson, importCollections,
+  loadCollections, saveCollections, randomSentence,
+} from '../../services/sentenceLibrary';
+import { InvalidCollectionFileError } from '../../services/errors';
+
+describe('sentence library', () => {
+  it('has topic and exam sections with sentences', () => {
+    expect(new Set(CURATED_SECTIONS.map(s => s.group))).toEqual(new Set(['topic', 'exam']));
+    expect(new Set(CURATED_SECTIONS.map(s => s.id)).size).toBe(CURATED_SECTIONS.length);
+    for (const section of CURATED_SECTIONS) expect(section.sentences.length).toBeGreaterThanOrEqual(4);
+  });
+
+  it('adds sentences to named collections, newest first and without duplicates', () => {
+    let collections = addToCollection([], '倒装', 'Never have I seen it.', 1000);
+    collections = addToCollection(collections, ' 倒装 ', 'Only then did I understand.', 2000);
+    collections = addToCollection(collections, '倒装', '  Never have I  seen it. ', 3000);
+    collections = addToCollection(collections, 'Daily', 'Reading books expands your mind.', 4000);
+
+    expect(collections.map(c => c.name)).toEqual(['倒装', 'Daily']);
+    expect(collections[0].sentences.map(s => s.text)).toEqual(['Only then did I understand.', 'Never have I seen it.']);
+
+    const removed = removeFromCollection(collections, collections[0].id, collections[0].sentences[0].id);
+    saveCollections(removed);
+    expect(loadCollections()[0].sentences.map(s => s.text)).toEqual(['Never have I seen it.']);
+  });
+
+  it('round-trips collections through JSON and merges by name on import', () => {
+    const mine = addToCollection(addToCollection([], 'Daily', 'First sentence.', 1000), 'Daily', 'Second sentence.', 2000);
+    const json = exportCollectionsJson(mine);
+
+    const elsewhere = addToCollection([], 'daily', 'Second sentence.', 5000);
+    const merged = importCollections(elsewhere, json, 6000);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].sentences.map(s => s.text)).toEqual(['First sentence.', 'Second sentence.']);
+
+    expect(importCollections([], json, 6000)[0]).toMatchObject({ name: 'Daily', createdAt: 6000 });
+  });
+
+  it('rejects files that are not a collection export', () => {
+    expect(() => importCollections([], 'not json')).toThrow(InvalidCollectionFileError);
+    expect(() => importCollections([], '{"v":1,"collections":[]}')).toThrow(InvalidCollectionFileError);
+    expect(() => importCollections([], '{"v":1,"collections":[{"name":"x"}]}')).toThrow(InvalidCollectionFileError);
+  });
+
+  it('picks a random sentence other than the current one', () => {
+    expect(randomSentence(['a', 'b'], 'a', () => 0)).toBe('b');
+    expect(randomSentence(['a'], 'a')).toBe('a');
+    expect(randomSentence([])).toBeNull();
+  });
+});
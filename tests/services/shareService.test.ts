@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { decodeSnapshot, encodeSnapshot } from '../../services/shareService';
+import { formatRoute, parseRoute } from '../../services/router';
+import { analyzeSentence, evaluateWriting } from '../../services/geminiService';
+import { InvalidShareLinkError } from '../../services/errors';
+import { COMPLEX_SENTENCE, WRITING_TEXT } from '../fixtures/inputs';
+
+describe('router', () => {
+  it('parses tabs and share snapshots from the hash', () => {
+    expect(parseRoute('')).toEqual({ tab: 'analyzer' });
+    expect(parseRoute('#/dictionary')).toEqual({ tab: 'dictionary' });
+    expect(parseRoute('#/nowhere')).toEqual({ tab: 'analyzer' });
+    expect(parseRoute('#/writing?snapshot=abc-_1')).toEqual({ tab: 'writing', snapshot: 'abc-_1' });
+  });
+
+  it('formats routes that parse back to themselves', () => {
+    const route = { tab: 'analyzer' as const, snapshot: 'eJx-_A' };
+    expect(parseRoute(formatRoute(route))).toEqual(route);
+    expect(formatRoute({ tab: 'history' })).toBe('#/history');
+  });
+});
+
+describe('share snapshots', () => {
+  it('round-trips an analysis, syntax tree included', async () => {
+    const result = await analyzeSentence(COMPLEX_SENTENCE, 'mini');
+    const payload = await encodeSnapshot({ tab: 'analyzer', result });
+
+    expect(payload).toMatch(/^[\w-]+$/);
+    expect(await decodeSnapshot(payload)).toEqual({ tab: 'analyzer', result });
+  });
+
+  it('round-trips a writing correction', async () => {
+    const result = await evaluateWriting(WRITING_TEXT, 'fix', 'mini');
+    const payload = await encodeSnapshot({ tab: 'writing', result });
+
+    expect(await decodeSnapshot(payload)).toEqual({ tab: 'writing', result });
+  });
+
+  it('rejects corrupted or tampered links', async () => {
+    const result = await evaluateWriting(WRITING_TEXT, 'fix', 'mini');
+    const tampered = await encodeSnapshot({ tab: 'writing', result: { ...result, mode: 'poetry' as any } });
+
+    await expect(decodeSnapshot('not-a-snapshot')).rejects.toBeInstanceOf(InvalidShareLinkError);
+    await expect(decodeSnapshot(tampered)).rejects.toBeInstanceOf(InvalidShareLinkError);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { validateAnalysis, validateComparison } from '../../services/validators';
+
+const base = {
+  chunks: [
+    { text: 'Birds', grammarDescription: '名词(主语)', partOfSpeech: '名词', role: '主语' },
+    { text: 'sing', grammarDescription: '动词(谓语)', partOfSpeech: '动词', role: '谓语' },
+  ],
+  detailedTokens: [
+    { text: 'Birds', partOfSpeech: '名词', role: '主语', explanation: '复数名词作主语。', meaning: '鸟' },
+    { text: 'sing', partOfSpeech: '动词', role: '谓语', explanation: '一般现在时。', meaning: '唱歌' },
+  ],
+  chineseTranslation: '鸟儿歌唱。',
+};
+
+const node = (id: string, parentId: string, extra: Record<string, unknown> = {}) => ({
+  id, parentId, label: 'NP', kind: 'phrase', text: id, relation: '主语', isHead: false, chunkIndex: -1, tokenIndex: -1, ...extra,
+});
+
+describe('validateAnalysis syntax tree', () => {
+  it('rebuilds the tree from the flat node list', () => {
+    const { value, issues } = validateAnalysis({
+      ...base,
+      syntaxTree: [
+        node('s', '', { label: 'S', kind: 'clause', relation: '' }),
+        node('np', 's', { chunkIndex: 0, tokenIndex: 0 }),
+        node('vp', 's', { label: 'VP', isHead: true, chunkIndex: 1, tokenIndex: 7 }),
+      ],
+    });
+
+    expect(issues).toEqual([]);
+    expect(value.syntaxTree?.label).toBe('S');
+    expect(value.syntaxTree?.children.map(c => c.id)).toEqual(['np', 'vp']);
+    expect(value.syntaxTree?.children[1].isHead).toBe(true);
+    // -1 and out-of-range indices mean "no match"
+    expect(value.syntaxTree?.chunkIndex).toBeUndefined();
+    expect(value.syntaxTree?.children[1].tokenIndex).toBeUndefined();
+  });
+
+  it('drops a malformed tree without failing the analysis', () => {
+    const malformed = [
+      [node('a', ''), node('b', '')],                    // two roots
+      [node('s', ''), node('np', 'missing')],            // dangling parent
+      [node('s', ''), node('a', 'b'), node('b', 'a')],   // cycle off the root
+      [node('s', ''), node('s', 's')],                   // duplicate id
+      [node('s', '', { kind: 'sentence' })],             // unknown kind
+    ];
+    for (const syntaxTree of malformed) {
+      const { value, issues } = validateAnalysis({ ...base, syntaxTree });
+      expect(issues).toEqual([]);
+      expect(value.syntaxTree).toBeUndefined();
+    }
+  });
+});
+
+const item = (word: string) => ({ word, partOfSpeech: 'verb', meaning: '影响', patterns: [], register: '', example: `It will ${word} us.`, exampleTranslation: '' });
+const quiz = (answer: string) => ({ sentence: 'The drug had no ___.', answer, explanation: '' });
+
+describe('validateComparison', () => {
+  it('orders the items as requested and spells them as requested', () => {
+    const { value, issues } = validateComparison(
+      { coreDifference: 'affect 是动词，effect 多作名词。', items: [item('Effect'), item('affect')], quiz: [quiz('EFFECT')] },
+      ['affect', 'effect'],
+    );
+
+    expect(issues).toEqual([]);
+    expect(value.items.map(i => i.word)).toEqual(['affect', 'effect']);
+    expect(value.quiz[0].answer).toBe('effect');
+  });
+
+  it('reports a requested word with no item', () => {
+    const { issues } = validateComparison(
+      { coreDifference: '…', items: [item('affect'), item('impact')], quiz: [quiz('affect')] },
+      ['affect', 'effect'],
+    );
+
+    expect(issues).toEqual([
+      'items[1].word must be one of affect, effect (got "impact")',
+      'items must describe every compared word (missing effect)',
+    ]);
+  });
+
+  it('reports a word described twice', () => {
+    const { issues } = validateComparison(
+      { coreDifference: '…', items: [item('affect'), item('Affect')], quiz: [quiz('affect')] },
+      ['affect', 'effect'],
+    );
+
+    expect(issues).toEqual([
+      'items[1].word repeats "Affect"; describe each word once',
+      'items must describe every compared word (missing effect)',
+    ]);
+  });
+
+  it('reports a quiz answer that is not one of the requested words', () => {
+    const { issues } = validateComparison(
+      { coreDifference: '…', items: [item('affect'), item('effect')], quiz: [quiz('impact')] },
+      ['affect', 'effect'],
+    );
+
+    expect(issues).toEqual(['quiz[0].answer must be one of affect, effect (got "impact")']);
+  });
+});
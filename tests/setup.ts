@@ -0,0 +1,19 @@
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { FakeAudioContext } from './harness/audio';
+
+// Every service call goes through the record/replay provider
+vi.mock('../services/providers', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../services/providers')>();
+  const { createTestProvider } = await import('./harness/replayProvider');
+  const provider = createTestProvider();
+  return { ...actual, getProvider: () => provider };
+});
+
+vi.stubGlobal('AudioContext', FakeAudioContext);
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.restoreAllMocks();
+});
@@ -27,6 +27,42 @@ export interface Correction {
   changes: CorrectionChange[];
 }
 
+// One constituent of the sentence's syntax tree. Clauses contain phrases, phrases contain
+// phrases or words; `relation` says what the node is to its parent.
+export interface SyntaxNode {
+  id: string;
+  label: string;        // Constituent label, e.g. "S", "SBAR", "NP", "VP"
+  kind: 'clause' | 'phrase' | 'word';
+  text: string;         // The words this node spans
+  relation: string;     // Relation to the parent, e.g. "主语", "宾语从句"
+  isHead: boolean;      // Head of its parent constituent
+  chunkIndex?: number;  // Matching entry in `chunks`, if any
+  tokenIndex?: number;  // Matching entry in `detailedTokens`, if any
+  children: SyntaxNode[];
+}
+
+// A subordinate clause or non-finite phrase hanging off the main clause
+export interface SubordinateClause {
+  text: string;
+  type: string;        // e.g. "定语从句 (Relative Clause)", "过去分词短语 (Participle Phrase)"
+  attachesTo: string;  // What it modifies or stands in for, e.g. "修饰 the scientists"
+  pattern?: string;    // The clause's own pattern, e.g. "S + V + O (主谓宾)"
+  tense?: string;      // Absent for non-finite phrases
+}
+
+export interface SimplificationStep {
+  sentence: string;    // The rewrite after this step
+  note: string;        // What was split off or simplified
+}
+
+// "Long sentence breakdown"; only returned for sentences with subordinate structure
+export interface ClauseBreakdown {
+  skeleton: string;             // The main clause stripped to its core
+  skeletonTranslation: string;
+  clauses: SubordinateClause[];
+  simplification: SimplificationStep[];  // From the original towards short simple sentences
+}
+
 export interface AnalysisResult {
   chunks: AnalysisChunk[];
   detailedTokens: DetailedToken[];
@@ -35,6 +71,17 @@ export interface AnalysisResult {
   correction?: Correction;
   sentencePattern?: string; // e.g., "S + V + O"
   mainTense?: string;      // e.g., "Present Perfect"
+  syntaxTree?: SyntaxNode; // Root clause; absent on older results
+  clauseBreakdown?: ClauseBreakdown;
+  promptVersion?: string;  // Template that produced this result, e.g. "analyzeSentence@v2"
+}
+
+// One sentence of a pasted paragraph and where its analysis stands
+export interface SentenceAnalysis {
+  sentence: string;
+  status: 'pending' | 'loading' | 'done' | 'error';
+  result?: AnalysisResult;
+  error?: string;
 }
 
 // --- Dictionary Types ---
@@ -44,6 +91,7 @@ export interface DictionaryDefinition {
   explanation: string;     // English/Chinese explanation
   example: string;         // English example sentence
   exampleTranslation: string; // Chinese translation of example
+  inContext?: boolean;     // The sense used in the sentence the word was looked up from
 }
 
 export interface DictionaryCollocation {
@@ -53,10 +101,33 @@ export interface DictionaryCollocation {
   exampleTranslation: string;
 }
 
+// A derivation of the headword, e.g. decision (noun) for decide
+export interface WordFamilyMember {
+  word: string;
+  partOfSpeech: string;
+  meaning: string;         // Chinese meaning
+}
+
+// A synonym or antonym; for synonyms the note says how it differs from the headword
+export interface RelatedWord {
+  word: string;
+  meaning: string;         // Chinese meaning
+  note?: string;           // Nuance compared with the headword (Chinese)
+}
+
+export interface Etymology {
+  explanation: string;     // Origin and roots, e.g. "de- (off) + caedere (cut)" (Chinese)
+  mnemonic?: string;       // Memory hint built on the roots (Chinese)
+}
+
+// Where an entry came from: the imported offline dictionary or the model
+export type DictionarySource = 'local' | 'ai';
+
 export interface DictionaryEntry {
   partOfSpeech: string;    // e.g., "noun", "verb"
   cocaFrequency?: string;  // New: POS-specific frequency, e.g. "Rank 1029"
   definitions: DictionaryDefinition[];
+  source?: DictionarySource;  // Missing on results from before the offline dictionary; those are 'ai'
 }
 
 export interface DictionaryResult {
@@ -64,6 +135,42 @@ export interface DictionaryResult {
   phonetic: string;        // IPA
   entries: DictionaryEntry[];
   collocations?: DictionaryCollocation[];
+  context?: string;        // Sentence the word was looked up from, if any
+  contextNote?: string;    // How the word is used in that sentence
+  examTags?: string[];     // Exams the word is listed for, from the offline dictionary
+  wordFamily?: WordFamilyMember[];
+  synonyms?: RelatedWord[];
+  antonyms?: RelatedWord[];
+  etymology?: Etymology;
+  promptVersion?: string;
+}
+
+// --- Word Comparison Types ---
+
+// One of the confusable words, described so it can be read side by side with the others
+export interface ComparisonItem {
+  word: string;
+  partOfSpeech: string;
+  meaning: string;         // Core Chinese meaning
+  patterns: string[];      // Grammar patterns, e.g. "affect sb/sth", "have an effect on sth"
+  register: string;        // Formality and typical contexts (Chinese)
+  example: string;
+  exampleTranslation: string;
+}
+
+// A fill-in-the-blank question; the sentence marks the gap with "___"
+export interface ComparisonQuizItem {
+  sentence: string;
+  answer: string;          // One of the compared words
+  explanation: string;     // Why that word fits (Chinese)
+}
+
+export interface ComparisonResult {
+  words: string[];
+  coreDifference: string;  // The key distinction in a few sentences (Chinese)
+  items: ComparisonItem[];
+  quiz: ComparisonQuizItem[];
+  promptVersion?: string;
 }
 
 // --- Writing Analysis Types ---
@@ -82,12 +189,147 @@ export interface WritingResult {
   mode: WritingMode;
   generalFeedback: string;
   segments: WritingSegment[]; // Replaces simple improvedText + suggestions list
+  promptVersion?: string;
 }
 
 export interface Message {
   role: 'user' | 'assistant';
   content: string;
+  kind?: 'note';         // UI-only notice (e.g. context switched), never sent to the model
+  status?: 'streaming' | 'stopped' | 'interrupted'; // Set on assistant replies that are/were streamed incompletely
+}
+
+export type ChatContextType = 'sentence' | 'word' | 'writing';
+
+export interface ChatThread {
+  id: string;
+  contextType: ChatContextType;
+  context: string;        // The sentence / word / essay the thread is about
+  messages: Message[];
+  summary?: string;       // Model-written summary of turns that no longer fit the token budget
+  summarizedCount: number; // How many leading messages the summary covers
+  updatedAt: number;
+}
+
+// --- History Types ---
+interface HistoryEntryBase {
+  id: string;
+  createdAt: number;
+  modelLevel: ModelLevel;
+  input: string;          // The sentence / word / text as submitted
+}
+
+// A stored result; re-opening it loads the result without a new API call
+export type HistoryEntry = HistoryEntryBase & (
+  | { tab: 'analyzer'; result: AnalysisResult }
+  | { tab: 'dictionary'; result: DictionaryResult }
+  | { tab: 'writing'; result: WritingResult }
+);
+
+export type HistoryTab = HistoryEntry['tab'];
+
+// --- Quiz Types ---
+export type QuizItemKind = 'role' | 'partOfSpeech' | 'pattern' | 'tense';
+
+export interface QuizQuestion {
+  id: string;
+  kind: QuizItemKind;
+  chunkIndex?: number;    // Role and part-of-speech questions are about one chunk
+  options: string[];
+  answer: string;
+  explanation: string;    // Shown after grading, from the analysis itself
+}
+
+export interface QuizAttempt {
+  id: string;
+  createdAt: number;
+  sentence: string;
+  correct: number;
+  total: number;
+  byKind: Partial<Record<QuizItemKind, { correct: number; total: number }>>;
+}
+
+// --- Sentence Library Types ---
+export type LibraryGroup = 'topic' | 'exam';
+
+// A built-in set of example sentences, by grammar topic or exam
+export interface CuratedSection {
+  id: string;
+  group: LibraryGroup;
+  name: string;
+  sentences: string[];
+}
+
+export interface LibrarySentence {
+  id: string;
+  text: string;
+  addedAt: number;
+}
+
+// A named collection of the user's own sentences
+export interface SentenceCollection {
+  id: string;
+  name: string;
+  createdAt: number;
+  sentences: LibrarySentence[];   // Newest first
+}
+
+// --- Vocabulary Notebook Types ---
+export type NotebookItemKind = 'word' | 'definition' | 'collocation';
+
+// A headword, one of its senses, or one of its collocations, saved from a dictionary result
+export interface NotebookItem {
+  id: string;
+  kind: NotebookItemKind;
+  word: string;               // The headword the item was saved from
+  phonetic?: string;
+  partOfSpeech?: string;      // Definitions only
+  phrase?: string;            // Collocations only
+  meaning: string;            // For a headword, its first few meanings joined
+  explanation?: string;
+  example?: string;
+  exampleTranslation?: string;
+  source?: string;            // Sentence the word was looked up from
+  tags: string[];
+  note: string;
+  addedAt: number;
+  review?: ReviewState;       // Missing until the item is first reviewed
+}
+
+// --- Review Types ---
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 scheduling state of one notebook item
+export interface ReviewState {
+  repetitions: number;        // Successful reviews in a row
+  interval: number;           // Days until the next review; 0 while relearning
+  ease: number;               // SM-2 easiness factor, at least 1.3
+  due: number;                // Timestamp the item is due again
+  lapses: number;             // Times it was forgotten after being learned
+}
+
+export interface ReviewLogEntry {
+  itemId: string;
+  grade: ReviewGrade;
+  reviewedAt: number;
+  isNew: boolean;             // First review of the item
 }
 
 // --- Model Configuration ---
 export type ModelLevel = 'mini' | 'quick' | 'deep';
+
+export interface ModelSettings {
+  model: string;
+  thinkingBudget: number;
+}
+
+// User overrides from the settings page. Empty / missing values fall back to the provider defaults.
+export interface AppSettings {
+  apiKey: string;
+  models: Partial<Record<ModelLevel, ModelSettings>>;
+  temperature: number | null;
+  ttsVoice: string;
+}
+
+// --- Navigation ---
+export type AppTab = 'analyzer' | 'dictionary' | 'writing' | 'notebook' | 'review' | 'history' | 'settings';
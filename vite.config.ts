@@ -4,15 +4,29 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // In proxy mode the key stays on the API server and is never bundled
+    const isProxy = env.API_MODE === 'proxy';
+    const apiKey = isProxy ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.API_MODE': JSON.stringify(env.API_MODE),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+        // Dev-only prompt preview panel; can be forced on for a build with PROMPT_PREVIEW=true
+        'process.env.PROMPT_PREVIEW': JSON.stringify(String(mode === 'development' || env.PROMPT_PREVIEW === 'true')),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(isProxy ? undefined : env.OPENAI_API_KEY),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL)
       },
       resolve: {
         alias: {